@@ -24,7 +24,7 @@ interface ICreateX {
 
 /// @title DeploySpritz
 /// @notice Deploys SpritzPayCore and SpritzRouter using CreateX for deterministic addresses
-/// @dev Uses FROZEN bytecode from deployments/<ContractName>/ to ensure identical deployments across chains.
+/// @dev Uses FROZEN bytecode from deployments/<ContractName>/v1/ to ensure identical deployments across chains.
 ///
 /// Usage:
 ///   node scripts/deploy.js <chain>           Deploy with 1Password
@@ -37,6 +37,9 @@ contract DeploySpritz is Script {
     bytes32 public constant CORE_INITCODE_HASH = 0x22171b08d4d10c8ca3cd88f56fefe85f1e3d1fe6b84067ba02dea10e952dd247;
     bytes32 public constant ROUTER_INITCODE_HASH = 0x75631bbfbb898fc857e49561f729ad76420eeba363e0879ea074dcd235c67321;
 
+    // SpritzRouter is not frozen yet; run() stops with a clear message until `bun freeze SpritzRouter` has run
+    string constant ROUTER_INITCODE_PATH = "deployments/SpritzRouter/v1/artifacts/SpritzRouter.initcode";
+
     // Config from environment
     address public admin;
     bytes32 public coreSalt;
@@ -52,8 +55,9 @@ contract DeploySpritz is Script {
 
     function run() public {
         // Load frozen bytecode from deployment packages
-        bytes memory coreInitCode = _loadBytecode("deployments/SpritzPayCore/artifacts/SpritzPayCore.initcode");
-        bytes memory routerBaseInitCode = _loadBytecode("deployments/SpritzRouter/artifacts/SpritzRouter.initcode");
+        bytes memory coreInitCode = _loadBytecode("deployments/SpritzPayCore/v1/artifacts/SpritzPayCore.initcode");
+        require(vm.exists(ROUTER_INITCODE_PATH), "SpritzRouter is not frozen yet. Run `bun freeze SpritzRouter` first.");
+        bytes memory routerBaseInitCode = _loadBytecode(ROUTER_INITCODE_PATH);
 
         // Verify bytecode matches expected hashes
         require(
@@ -215,6 +219,9 @@ contract DeploySpritzForkTest is Script {
     bytes32 public constant CORE_INITCODE_HASH = 0x22171b08d4d10c8ca3cd88f56fefe85f1e3d1fe6b84067ba02dea10e952dd247;
     bytes32 public constant ROUTER_INITCODE_HASH = 0x75631bbfbb898fc857e49561f729ad76420eeba363e0879ea074dcd235c67321;
 
+    // SpritzRouter is not frozen yet; run() stops with a clear message until `bun freeze SpritzRouter` has run
+    string constant ROUTER_INITCODE_PATH = "deployments/SpritzRouter/v1/artifacts/SpritzRouter.initcode";
+
     function run() public {
         // Read salts from environment (required)
         bytes32 coreSalt = vm.envBytes32("CORE_SALT");
@@ -225,8 +232,9 @@ contract DeploySpritzForkTest is Script {
         address admin = vm.envOr("ADMIN_ADDRESS", address(0xAD1));
 
         // Load frozen bytecode
-        bytes memory coreInitCode = _loadBytecode("deployments/SpritzPayCore/artifacts/SpritzPayCore.initcode");
-        bytes memory routerBaseInitCode = _loadBytecode("deployments/SpritzRouter/artifacts/SpritzRouter.initcode");
+        bytes memory coreInitCode = _loadBytecode("deployments/SpritzPayCore/v1/artifacts/SpritzPayCore.initcode");
+        require(vm.exists(ROUTER_INITCODE_PATH), "SpritzRouter is not frozen yet. Run `bun freeze SpritzRouter` first.");
+        bytes memory routerBaseInitCode = _loadBytecode(ROUTER_INITCODE_PATH);
 
         // Verify bytecode hashes
         require(keccak256(coreInitCode) == CORE_INITCODE_HASH, "Core bytecode hash mismatch!");
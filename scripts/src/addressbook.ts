@@ -0,0 +1,84 @@
+#!/usr/bin/env bun
+
+/**
+ * Address Book - Generate addresses.json and a typed module for apps
+ *
+ * Usage:
+ *   bun addressbook            Write addressbook/addresses.json and addressbook/index.ts
+ *
+ * Only deployments recorded in deployments/<Contract>/<version>/metadata.json
+ * are included; when a chain is recorded under several versions the newest
+ * wins. ABIs come from the current version's artifacts.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import { ADDRESS_BOOK_DIR, buildAddressBook, renderAddressBookModule, type ChainInfo } from "./lib/addressbook";
+import { loadConfig } from "./lib/config";
+import { colors, error, log, success } from "./lib/console";
+import { getArtifactPath, listFrozenContracts, readAllMetadata, readCurrentVersion, type Metadata } from "./lib/metadata";
+
+function printUsage(): void {
+  log("");
+  log(`${colors.blue}Address Book${colors.reset} - Generate recorded addresses and ABIs for apps`);
+  log("");
+  log(`${colors.bold}Usage:${colors.reset}`);
+  log("");
+  log(`  ${colors.green}bun addressbook${colors.reset}`);
+  log(`      Write addressbook/addresses.json and addressbook/index.ts`);
+  log("");
+}
+
+function readFrozenAbi(contractName: string): unknown[] {
+  const abiPath = getArtifactPath(contractName, readCurrentVersion(contractName)!, ".abi.json");
+  if (!existsSync(abiPath)) {
+    throw new Error(`No frozen ABI for ${contractName} (${relative(process.cwd(), abiPath)})`);
+  }
+  return JSON.parse(readFileSync(abiPath, "utf8"));
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  if (args[0] === "--help" || args[0] === "-h") {
+    printUsage();
+    process.exit(0);
+  }
+
+  const config = loadConfig();
+  const chains: Record<string, ChainInfo> = Object.fromEntries(
+    Object.entries(config.chains).map(([name, c]) => [name, { chainId: c.chainId, explorer: c.explorer }]),
+  );
+
+  const metadata: Metadata[] = [];
+  const abis: Record<string, unknown[]> = {};
+  let book;
+  try {
+    for (const contractName of listFrozenContracts()) {
+      metadata.push(...readAllMetadata(contractName).map((v) => v.metadata));
+      abis[contractName] = readFrozenAbi(contractName);
+    }
+    book = buildAddressBook(metadata, chains);
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+
+  mkdirSync(ADDRESS_BOOK_DIR, { recursive: true });
+  const jsonPath = join(ADDRESS_BOOK_DIR, "addresses.json");
+  const modulePath = join(ADDRESS_BOOK_DIR, "index.ts");
+  writeFileSync(jsonPath, JSON.stringify(book, null, 2) + "\n");
+  writeFileSync(modulePath, renderAddressBookModule(book, abis));
+
+  let entries = 0;
+  for (const envBook of Object.values(book.environments)) {
+    for (const chainBook of Object.values(envBook)) {
+      entries += Object.keys(chainBook.contracts).length;
+    }
+  }
+
+  success(`${entries} recorded deployment(s), ${Object.keys(abis).length} ABI(s)`);
+  log(`  ${colors.dim}${relative(process.cwd(), jsonPath)}${colors.reset}`);
+  log(`  ${colors.dim}${relative(process.cwd(), modulePath)}${colors.reset}`);
+}
+
+main();
@@ -0,0 +1,81 @@
+#!/usr/bin/env bun
+
+/**
+ * Bindings - Generate typed ethers contract bindings from ABIs
+ *
+ * Usage:
+ *   bun bindings            Regenerate scripts/src/generated/
+ *   bun bindings --check    Exit 1 if generated bindings are out of date
+ *
+ * Sources: current frozen deployments/<Contract>/<version>/artifacts/<Contract>.abi.json and
+ * third-party ABIs in scripts/abi/.
+ */
+
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { join, relative } from "path";
+import { findStaleBindings, generateBindings, GENERATED_DIR } from "./lib/bindings";
+import { colors, error, log, success } from "./lib/console";
+
+function printUsage(): void {
+  log("");
+  log(`${colors.blue}Bindings${colors.reset} - Generate typed contract bindings from frozen and third-party ABIs`);
+  log("");
+  log(`${colors.bold}Usage:${colors.reset}`);
+  log("");
+  log(`  ${colors.green}bun bindings${colors.reset}`);
+  log(`      Regenerate scripts/src/generated/`);
+  log("");
+  log(`  ${colors.green}bun bindings --check${colors.reset}`);
+  log(`      Exit 1 if any generated file is missing or out of date`);
+  log("");
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  if (args[0] === "--help" || args[0] === "-h") {
+    printUsage();
+    process.exit(0);
+  }
+
+  let files: Record<string, string>;
+  try {
+    files = generateBindings();
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+
+  const stale = findStaleBindings(files);
+  const dir = relative(process.cwd(), GENERATED_DIR);
+
+  if (args[0] === "--check") {
+    if (stale.length > 0) {
+      error(`Bindings out of date: ${stale.map((f) => join(dir, f)).join(", ")}`);
+      log(`  Run: ${colors.dim}bun bindings${colors.reset}`);
+      process.exit(1);
+    }
+    success("Bindings up to date");
+    process.exit(0);
+  }
+
+  mkdirSync(GENERATED_DIR, { recursive: true });
+  for (const file of readdirSync(GENERATED_DIR)) {
+    if (!(file in files)) {
+      rmSync(join(GENERATED_DIR, file));
+    }
+  }
+  for (const [file, contents] of Object.entries(files)) {
+    writeFileSync(join(GENERATED_DIR, file), contents);
+  }
+
+  if (stale.length === 0) {
+    success(`Bindings already up to date (${dir})`);
+  } else {
+    success(`Updated ${stale.length} file(s) in ${dir}`);
+    for (const file of stale) {
+      log(`  ${colors.dim}${existsSync(join(GENERATED_DIR, file)) ? "" : "removed "}${file}${colors.reset}`);
+    }
+  }
+}
+
+main();
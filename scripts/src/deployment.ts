@@ -1,100 +1,164 @@
 #!/usr/bin/env bun
 
 /**
- * Deploy Script - Deploys frozen contracts via CreateX with 1Password integration
+ * Deploy Script - Deploys frozen contracts via CreateX
  *
  * Usage:
  *   bun deployment <Contract> <chain>              Simulate deployment
  *   bun deployment <Contract> <chain> --broadcast  Deploy for real
+ *   bun deployment --all --chains <a,b,...>        Deploy every contract to each chain
  *   bun deployment --address <Contract>            Show computed address
  *   bun deployment --list                          List configured contracts
  *   bun deployment --chains                        List available chains
+ *   bun deployment --audit [chain]                 Check recorded deployments against chain state
+ *   bun deployment --doctor [chain]                Check chain config against its RPC
+ *   bun deployment --funding [chain]               Show deployer funding needed per chain
+ *   bun deployment --verify <Contract> <chain>     Verify frozen sources on block explorers
+ *   bun deployment --abandon <Contract> <chain>    Drop an unfinished deployment journal
  */
 
-import { execSync, spawnSync } from "child_process";
+import { execSync } from "child_process";
 import { randomUUID } from "crypto";
+import { FetchRequest, JsonRpcProvider, formatEther, formatUnits, keccak256, type InterfaceAbi } from "ethers";
 import { existsSync, readFileSync, writeFileSync } from "fs";
-import { join } from "path";
+import { join, relative } from "path";
+import {
+  broadcastDeployment,
+  buildInitcode,
+  estimateDeploymentCost,
+  isTransactionReverted,
+  waitForDeployment,
+  type DeploymentCost,
+  type DeploymentReceipt,
+} from "./lib/broadcast";
+import {
+  decodeConstructorArgs,
+  describeConstructorArgs,
+  encodeConstructorArgs,
+  normalizeConstructorArgs,
+} from "./lib/abi";
+import {
+  checkImmutableValues,
+  compareDeployedBytecode,
+  type ImmutableReference,
+} from "./lib/bytecode";
+import { checkAdminSafe } from "./lib/admin";
+import { runBatch, type BatchResults, type DeployStatus } from "./lib/batch";
 import { buildChains, listChainNames, type Chain } from "./lib/chains";
+import { diagnoseChain, type DoctorCheck } from "./lib/doctor";
 import {
   applyEnvOverrides,
   filterEnvArg,
   getContractConfig,
   getContractNames,
   loadConfig,
+  loadEnvironmentNames,
   parseEnvironmentArg,
   type Config,
+  type ConstructorArg,
   type Environment,
 } from "./lib/config";
 import { colors, error, info, log, success, warn } from "./lib/console";
 import {
+  checkSaltGuard,
   getContractAddress,
+  getContractAddresses,
   getContractDependencies,
   getDeploymentOrder,
   hasChainSpecificArgs,
+  isChainSpecificAddress,
   resolveConstructorArgs,
 } from "./lib/createx";
-import { loadContractSaltOverrides, loadEnv, type Env } from "./lib/env";
-import { checkOpCli, checkOpSignedIn, getAddressFromKey } from "./lib/op";
+import { loadContractSaltOverrides, loadEnv, loadSigners, type Env } from "./lib/env";
+import {
+  abandonJournal,
+  getJournalPath,
+  getStepData,
+  hasStep,
+  lastStep,
+  loadJournal,
+  recordStep,
+  startJournal,
+  type DeploymentJournal,
+} from "./lib/journal";
+import { checkKeySource, loadPrivateKey, parseKeyRef, type LoadedKey } from "./lib/keys";
+import {
+  findRecordedVersion,
+  getArtifactPath,
+  getDeployedChains,
+  getPackageDir,
+  listFrozenContracts,
+  readAllMetadata,
+  readCurrentVersion,
+  readMetadata,
+  updateMetadata,
+  type ChainDeployment,
+  type Metadata,
+} from "./lib/metadata";
+import { rebuildFrozenPackage, type RebuildCheck } from "./lib/rebuild";
+import {
+  ETHERSCAN_V2_API,
+  SOURCIFY_API,
+  VERIFIERS,
+  verifyWith,
+  type VerificationResult,
+  type VerificationSubmission,
+  type VerifierEndpoint,
+  type VerifierName,
+} from "./lib/verifier";
 
-const DEPLOYMENTS_DIR = join(process.cwd(), "deployments");
+/**
+ * The frozen version a contract deploys from: the version config.json pins,
+ * otherwise deployments/<Contract>/current. Null if it was never frozen.
+ */
+function getDeployVersion(config: Config, contractName: string): string | null {
+  return getContractConfig(config, contractName)?.version ?? readCurrentVersion(contractName);
+}
 
-interface DeploymentRecord {
-  id: string;
-  deployer: string;
-  address: string;
-  salt: string;
-  environment: Environment;
-  chains: string[];
-  constructorArgs?: string[];
+function readFrozenArtifact(contractName: string, version: string | null, extension: string): string | null {
+  if (!version) {
+    return null;
+  }
+  const path = getArtifactPath(contractName, version, extension);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return readFileSync(path, "utf8");
 }
 
-interface Metadata {
-  contract: string;
-  initcodeHash: string;
-  deployments: DeploymentRecord[];
+function getFrozenInitcode(contractName: string, version: string | null): string | null {
+  return readFrozenArtifact(contractName, version, ".initcode")?.trim() ?? null;
 }
 
-function getDeploymentMetadata(contractName: string): Metadata | null {
-  const metadataPath = join(DEPLOYMENTS_DIR, contractName, "metadata.json");
-  if (!existsSync(metadataPath)) {
-    return null;
-  }
-  return JSON.parse(readFileSync(metadataPath, "utf8"));
+function getFrozenAbi(contractName: string, version: string | null): InterfaceAbi | null {
+  const abi = readFrozenArtifact(contractName, version, ".abi.json");
+  return abi ? JSON.parse(abi) : null;
 }
 
-function getFrozenInitcode(contractName: string): string | null {
-  const initcodePath = join(
-    DEPLOYMENTS_DIR,
-    contractName,
-    "artifacts",
-    `${contractName}.initcode`,
-  );
-  if (!existsSync(initcodePath)) {
-    return null;
-  }
-  return readFileSync(initcodePath, "utf8").trim();
+function getFrozenDeployedBytecode(contractName: string, version: string | null): string | null {
+  return readFrozenArtifact(contractName, version, ".deployed")?.trim() ?? null;
 }
 
-function getFrozenDeployedBytecode(contractName: string): string | null {
-  const deployedPath = join(
-    DEPLOYMENTS_DIR,
-    contractName,
-    "artifacts",
-    `${contractName}.deployed`,
-  );
-  if (!existsSync(deployedPath)) {
-    return null;
-  }
-  return readFileSync(deployedPath, "utf8").trim();
+/**
+ * Immutable placeholders recorded at freeze time. Packages frozen before
+ * immutables were captured have no file and are compared as if they had none.
+ */
+function getFrozenImmutables(contractName: string, version: string | null): ImmutableReference[] {
+  const immutables = readFrozenArtifact(contractName, version, ".immutables.json");
+  return immutables ? JSON.parse(immutables) : [];
 }
 
-function verifyFrozenBytecode(contractName: string): {
+function verifyFrozenBytecode(contractName: string, version: string | null): {
   valid: boolean;
   error?: string;
   initcodeHash?: string;
 } {
-  const metadata = getDeploymentMetadata(contractName);
+  let metadata: Metadata | null;
+  try {
+    metadata = version ? readMetadata(contractName, version) : null;
+  } catch (e) {
+    return { valid: false, error: (e as Error).message };
+  }
   if (!metadata) {
     return {
       valid: false,
@@ -102,14 +166,12 @@ function verifyFrozenBytecode(contractName: string): {
     };
   }
 
-  const initcode = getFrozenInitcode(contractName);
+  const initcode = getFrozenInitcode(contractName, version);
   if (!initcode) {
     return { valid: false, error: "No frozen initcode found" };
   }
 
-  const computedHash = execSync(`cast keccak ${initcode}`, {
-    encoding: "utf8",
-  }).trim();
+  const computedHash = keccak256(initcode);
 
   if (computedHash.toLowerCase() !== metadata.initcodeHash.toLowerCase()) {
     return {
@@ -121,142 +183,201 @@ function verifyFrozenBytecode(contractName: string): {
   return { valid: true, initcodeHash: metadata.initcodeHash };
 }
 
-function checkAlreadyDeployed(chain: Chain, address: string): boolean {
+/**
+ * Runs one-off reads against the chain's RPC with a request timeout, so an
+ * unresponsive node fails the check instead of hanging it.
+ */
+async function withProvider<T>(
+  chain: Chain,
+  read: (provider: JsonRpcProvider) => Promise<T>,
+  timeout = 15_000,
+): Promise<T> {
+  const request = new FetchRequest(chain.rpc);
+  request.timeout = timeout;
+  const provider = new JsonRpcProvider(request, undefined, { staticNetwork: true });
+  try {
+    return await read(provider);
+  } finally {
+    provider.destroy();
+  }
+}
+
+async function checkAlreadyDeployed(chain: Chain, address: string): Promise<boolean> {
   try {
-    const code = execSync(`cast code ${address} --rpc-url ${chain.rpc}`, {
-      encoding: "utf8",
-      timeout: 10000,
-    }).trim();
-    return code !== "0x" && code !== "";
+    const code = await withProvider(chain, (provider) => provider.getCode(address), 10_000);
+    return code !== "0x";
   } catch {
     return false;
   }
 }
 
-function verifyDeployedBytecode(
-  chain: Chain,
-  address: string,
+/**
+ * Checks live runtime code against the frozen deployed bytecode: exact match
+ * outside immutables, and immutable values equal to the constructor args.
+ * args are resolved config args, or the ABI-encoded args of a deployment
+ * record or journal.
+ */
+function checkDeployedCode(
   contractName: string,
+  version: string | null,
+  onChainBytecode: string,
+  args: ConstructorArg[] | string,
 ): { valid: boolean; error?: string } {
-  const frozenBytecode = getFrozenDeployedBytecode(contractName);
+  const frozenBytecode = getFrozenDeployedBytecode(contractName, version);
   if (!frozenBytecode) {
     return { valid: false, error: "No frozen deployed bytecode found" };
   }
 
+  const comparison = compareDeployedBytecode(
+    onChainBytecode,
+    frozenBytecode,
+    getFrozenImmutables(contractName, version),
+  );
+  if (!comparison.valid) {
+    return { valid: false, error: comparison.error };
+  }
+
+  const abi = getFrozenAbi(contractName, version);
+  if (!abi) {
+    return { valid: false, error: "No frozen ABI found" };
+  }
+  let problems: string[];
   try {
-    const onChainBytecode = execSync(
-      `cast code ${address} --rpc-url ${chain.rpc}`,
-      {
-        encoding: "utf8",
-        timeout: 15000,
-      },
-    ).trim();
+    const values = typeof args === "string" ? decodeConstructorArgs(abi, args) : normalizeConstructorArgs(abi, args);
+    problems = checkImmutableValues(comparison.immutables, abi, values);
+  } catch (e) {
+    return { valid: false, error: (e as Error).message };
+  }
+  if (problems.length > 0) {
+    return { valid: false, error: problems.join("; ") };
+  }
 
-    if (onChainBytecode === "0x" || onChainBytecode === "") {
-      return { valid: false, error: "No bytecode found at address" };
-    }
+  return { valid: true };
+}
+
+async function verifyDeployedBytecode(
+  chain: Chain,
+  address: string,
+  contractName: string,
+  version: string | null,
+  args: ConstructorArg[] | string,
+): Promise<{ valid: boolean; error?: string }> {
+  try {
+    const onChainBytecode = await withProvider(chain, (provider) => provider.getCode(address));
 
-    if (onChainBytecode.toLowerCase() !== frozenBytecode.toLowerCase()) {
-      return {
-        valid: false,
-        error: "On-chain bytecode differs from frozen (may have immutables)",
-      };
+    if (onChainBytecode === "0x") {
+      return { valid: false, error: "No bytecode found at address" };
     }
 
-    return { valid: true };
+    return checkDeployedCode(contractName, version, onChainBytecode, args);
   } catch (e) {
     return { valid: false, error: (e as Error).message };
   }
 }
 
-function checkRpcHealth(chain: Chain): {
+async function checkRpcHealth(chain: Chain): Promise<{
   healthy: boolean;
   blockNumber?: number;
   error?: string;
-} {
+}> {
   try {
-    const blockNumber = execSync(`cast block-number --rpc-url ${chain.rpc}`, {
-      encoding: "utf8",
-      timeout: 10000,
-    }).trim();
-    return { healthy: true, blockNumber: parseInt(blockNumber) };
+    const blockNumber = await withProvider(chain, (provider) => provider.getBlockNumber(), 10_000);
+    return { healthy: true, blockNumber };
   } catch (e) {
     return { healthy: false, error: (e as Error).message };
   }
 }
 
-function verifyDeployerAddress(
+async function verifyDeployerAddress(
   deployerKeyRef: string,
   expectedAddress: string,
-): { valid: boolean; address?: string } {
-  info("Verifying deployer address matches 1Password key...");
+  testnet: boolean,
+): Promise<{ valid: boolean; address?: string; privateKey?: string }> {
+  info(`Verifying deployer address matches ${deployerKeyRef}...`);
 
-  const deployerFromKey = getAddressFromKey(deployerKeyRef);
-  if (!deployerFromKey) {
-    error("Failed to get deployer address from 1Password");
+  let key: LoadedKey;
+  try {
+    key = await loadPrivateKey(deployerKeyRef, { testnet });
+  } catch (e) {
+    error(`Failed to load deployer key: ${(e as Error).message}`);
     return { valid: false };
   }
 
-  if (deployerFromKey.toLowerCase() !== expectedAddress.toLowerCase()) {
+  if (key.address.toLowerCase() !== expectedAddress.toLowerCase()) {
     error(`Deployer address mismatch!`);
     log("");
     log(`  Config expects: ${colors.green}${expectedAddress}${colors.reset}`);
-    log(`  1Password key:  ${colors.red}${deployerFromKey}${colors.reset}`);
+    log(`  Key address:    ${colors.red}${key.address}${colors.reset}`);
     log("");
     return { valid: false };
   }
 
-  success(`Deployer verified: ${deployerFromKey}`);
-  return { valid: true, address: deployerFromKey };
+  success(`Deployer verified: ${key.address}`);
+  return { valid: true, address: key.address, privateKey: key.privateKey };
 }
 
 function addDeploymentRecord(
   contractName: string,
+  version: string,
   deployer: string,
   address: string,
   salt: string,
   environment: Environment,
   chainName: string,
-  constructorArgs?: string[],
+  entry: ChainDeployment,
 ): boolean {
-  const metadataPath = join(DEPLOYMENTS_DIR, contractName, "metadata.json");
-  const metadata = getDeploymentMetadata(contractName);
-  if (!metadata) {
-    error(`No metadata found for ${contractName}`);
-    return false;
-  }
+  try {
+    updateMetadata(contractName, version, (metadata) => {
+      // Find deployment matching both salt AND environment
+      const deployment = metadata.deployments.find(
+        (d) => d.salt.toLowerCase() === salt.toLowerCase() && d.environment === environment,
+      );
 
-  if (!metadata.deployments) {
-    metadata.deployments = [];
+      if (deployment) {
+        deployment.chains[chainName] = entry;
+      } else {
+        metadata.deployments.push({
+          id: randomUUID(),
+          deployer,
+          address,
+          salt,
+          environment,
+          chains: { [chainName]: entry },
+        });
+      }
+    });
+    return true;
+  } catch (e) {
+    error((e as Error).message);
+    return false;
   }
+}
 
-  // Find deployment matching both salt AND environment
-  let deployment = metadata.deployments.find(
-    (d) => d.salt.toLowerCase() === salt.toLowerCase() && d.environment === environment,
-  );
+interface DeployOptions {
+  broadcast: boolean;
+  confirmations: number;
+  // Rebuild the frozen package before a mainnet broadcast (--check-build)
+  checkBuild: boolean;
+  // Deployer key from confirmLiveDeployment, when the caller already ran it (batch mode)
+  privateKey?: string;
+}
 
-  if (deployment) {
-    if (!deployment.chains.includes(chainName)) {
-      deployment.chains.push(chainName);
-    }
-  } else {
-    const id = randomUUID();
-    const record: DeploymentRecord = {
-      id,
-      deployer,
-      address,
-      salt,
-      environment,
-      chains: [chainName],
-    };
-    if (constructorArgs && constructorArgs.length > 0) {
-      record.constructorArgs = constructorArgs;
-    }
-    metadata.deployments.push(record);
+/**
+ * The contract's address, or one line per chain when its salt is
+ * chain-specific and no chain was given.
+ */
+function logContractAddress(config: Config, contractName: string, chainName?: string): void {
+  if (chainName || !isChainSpecificAddress(config, contractName)) {
+    log(`  ${colors.bold}Address:${colors.reset}  ${getContractAddress(config, contractName, chainName)}`);
+    return;
   }
 
-  writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
-  return true;
+  const addresses = getContractAddresses(config, contractName);
+  const width = Math.max(...Object.keys(addresses).map((name) => name.length));
+  log(`  ${colors.bold}Addresses:${colors.reset} ${colors.dim}(chain-specific salt)${colors.reset}`);
+  for (const [name, address] of Object.entries(addresses)) {
+    log(`    ${name.padEnd(width)}  ${address}`);
+  }
 }
 
 function showContractAddress(config: Config, contractName: string, chainName?: string): void {
@@ -279,7 +400,7 @@ function showContractAddress(config: Config, contractName: string, chainName?: s
     log(`${colors.blue}${contractName}${colors.reset}`);
     log("─".repeat(50));
     log("");
-    log(`  ${colors.bold}Address:${colors.reset}  ${getContractAddress(config, contractName)}`);
+    logContractAddress(config, contractName);
     log(
       `  ${colors.bold}Salt:${colors.reset}     ${colors.dim}${contractConfig.salt.slice(0, 22)}...${colors.reset}`,
     );
@@ -293,18 +414,17 @@ function showContractAddress(config: Config, contractName: string, chainName?: s
     if (contractConfig.args) {
       log(`  ${colors.bold}Constructor Args (template):${colors.reset}`);
       for (const arg of contractConfig.args) {
-        log(`    ${colors.dim}${arg}${colors.reset}`);
+        log(`    ${colors.dim}${typeof arg === "string" ? arg : JSON.stringify(arg)}${colors.reset}`);
       }
       log("");
     }
     return;
   }
 
-  const address = getContractAddress(config, contractName);
   const deps = getContractDependencies(config, contractName);
 
   // Try to resolve args - will fail gracefully for chain-specific without chain
-  let args: string[] = [];
+  let args: ConstructorArg[] = [];
   try {
     args = resolveConstructorArgs(config, contractName, chainName);
   } catch {
@@ -315,7 +435,7 @@ function showContractAddress(config: Config, contractName: string, chainName?: s
   log(`${colors.blue}${contractName}${colors.reset}`);
   log("─".repeat(50));
   log("");
-  log(`  ${colors.bold}Address:${colors.reset}  ${address}`);
+  logContractAddress(config, contractName, chainName);
   log(
     `  ${colors.bold}Salt:${colors.reset}     ${colors.dim}${contractConfig.salt.slice(0, 22)}...${colors.reset}`,
   );
@@ -329,7 +449,7 @@ function showContractAddress(config: Config, contractName: string, chainName?: s
     log("");
     log(`  ${colors.bold}Dependencies:${colors.reset}`);
     for (let i = 0; i < deps.length; i++) {
-      const depAddress = getContractAddress(config, deps[i]);
+      const depAddress = getContractAddress(config, deps[i], chainName);
       log(`    ${deps[i]} → ${depAddress}`);
     }
   }
@@ -337,8 +457,8 @@ function showContractAddress(config: Config, contractName: string, chainName?: s
   if (args.length > 0) {
     log("");
     log(`  ${colors.bold}Constructor Args:${colors.reset}`);
-    for (const arg of args) {
-      log(`    ${arg}`);
+    for (const { label, value } of describeConstructorArgs(getFrozenAbi(contractName, getDeployVersion(config, contractName)), args)) {
+      log(`    ${colors.dim}${label}:${colors.reset} ${value}`);
     }
   }
 
@@ -354,26 +474,32 @@ function listContracts(config: Config): void {
   log("");
 
   for (const name of order) {
-    const address = getContractAddress(config, name);
+    const address = isChainSpecificAddress(config, name)
+      ? `chain-specific, see bun deployment --address ${name}`
+      : getContractAddress(config, name);
     const deps = getContractDependencies(config, name);
-    const metadata = getDeploymentMetadata(name);
-    const frozen = metadata !== null;
-    const deployedChains =
-      metadata?.deployments?.flatMap((d) => d.chains) ?? [];
+    const version = getDeployVersion(config, name);
+    const frozen = version !== null;
+    // Chains each frozen version is recorded on
+    const liveByVersion = readAllMetadata(name)
+      .map(({ version: v, metadata }) => ({ version: v, chains: [...new Set(metadata.deployments.flatMap(getDeployedChains))] }))
+      .filter((v) => v.chains.length > 0);
 
     const frozenIcon = frozen
       ? `${colors.green}✓${colors.reset}`
       : `${colors.dim}○${colors.reset}`;
+    const versionStr = version
+      ? ` ${colors.dim}${version}${getContractConfig(config, name)?.version ? " (pinned)" : ""}${colors.reset}`
+      : "";
     const depsStr =
       deps.length > 0
         ? ` ${colors.dim}← ${deps.join(", ")}${colors.reset}`
         : "";
-    const chainsStr =
-      deployedChains.length > 0
-        ? ` ${colors.dim}[${deployedChains.join(", ")}]${colors.reset}`
-        : "";
+    const chainsStr = liveByVersion
+      .map((v) => ` ${colors.dim}[${v.version}: ${v.chains.join(", ")}]${colors.reset}`)
+      .join("");
 
-    log(`  ${frozenIcon} ${colors.bold}${name}${colors.reset}${depsStr}`);
+    log(`  ${frozenIcon} ${colors.bold}${name}${colors.reset}${versionStr}${depsStr}`);
     log(`    ${colors.dim}${address}${colors.reset}${chainsStr}`);
     log("");
   }
@@ -407,12 +533,420 @@ function listChains(chains: Record<string, Chain>): void {
   log("");
 }
 
-function runPreflightChecks(
+type AuditStatus =
+  | "matching"
+  | "missing"
+  | "unexpected-code"
+  | "unrecorded-but-live"
+  | "error";
+
+interface AuditEntry {
+  contract: string;
+  chain: string;
+  address: string;
+  status: AuditStatus;
+  detail?: string;
+}
+
+interface AuditOptions {
+  chainName?: string;
+  // Overrides the RPC for chainName, e.g. a local anvil fork
+  rpc?: string;
+}
+
+/**
+ * Compares every recorded deployment against live bytecode, then looks for
+ * contracts that are live at their computed address but were never recorded.
+ *
+ * @returns true when every entry matches and nothing unrecorded is live
+ */
+async function auditDeployments(
+  config: Config,
+  chains: Record<string, Chain>,
+  environment: Environment,
+  options: AuditOptions,
+): Promise<boolean> {
+  const chainNames = options.chainName ? [options.chainName] : Object.keys(chains);
+  const unknown = chainNames.filter((name) => !chains[name]);
+  if (unknown.length > 0) {
+    error(`Unknown chain: ${unknown.join(", ")}`);
+    return false;
+  }
+
+  const providers: Record<string, JsonRpcProvider> = {};
+  const getProvider = (chainName: string) => {
+    providers[chainName] ??= new JsonRpcProvider(
+      options.rpc && chainName === options.chainName ? options.rpc : chains[chainName].rpc,
+      undefined,
+      { staticNetwork: true },
+    );
+    return providers[chainName];
+  };
+
+  const audit = async (
+    contractName: string,
+    version: string | null,
+    chainName: string,
+    address: string,
+    recorded: boolean,
+    recordedArgs?: string,
+  ): Promise<AuditEntry | null> => {
+    const entry = { contract: contractName, chain: chainName, address };
+    let code: string;
+    try {
+      code = await getProvider(chainName).getCode(address);
+    } catch (e) {
+      return { ...entry, status: "error", detail: (e as Error).message.split("\n")[0] };
+    }
+
+    const live = code !== "0x";
+    if (!recorded) {
+      return live ? { ...entry, status: "unrecorded-but-live" } : null;
+    }
+    if (!live) {
+      return { ...entry, status: "missing" };
+    }
+
+    // The args it was deployed with, not what config.json resolves to today
+    let args: ConstructorArg[] | string;
+    try {
+      args = recordedArgs ?? resolveConstructorArgs(config, contractName, chainName);
+    } catch (e) {
+      return { ...entry, status: "error", detail: (e as Error).message };
+    }
+    const check = checkDeployedCode(contractName, version, code, args);
+    return check.valid
+      ? { ...entry, status: "matching" }
+      : { ...entry, status: "unexpected-code", detail: check.error };
+  };
+
+  const checks: Promise<AuditEntry | null>[] = [];
+  const recordedKeys = new Set<string>();
+
+  // Newest version first, so a chain recorded under several versions is
+  // checked against the latest one
+  for (const contractName of listFrozenContracts()) {
+    for (const { version, metadata } of readAllMetadata(contractName).reverse()) {
+      for (const record of metadata.deployments) {
+        if (record.environment !== environment) continue;
+        for (const chainName of getDeployedChains(record)) {
+          if (!chainNames.includes(chainName) || recordedKeys.has(`${contractName}:${chainName}`)) continue;
+          recordedKeys.add(`${contractName}:${chainName}`);
+          checks.push(audit(contractName, version, chainName, record.address, true, record.chains[chainName].constructorArgs));
+        }
+      }
+    }
+  }
+
+  for (const contractName of getContractNames(config)) {
+    for (const chainName of chainNames) {
+      if (recordedKeys.has(`${contractName}:${chainName}`)) continue;
+      checks.push(audit(contractName, null, chainName, getContractAddress(config, contractName, chainName)!, false));
+    }
+  }
+
+  let entries: AuditEntry[];
+  try {
+    entries = (await Promise.all(checks)).filter((e): e is AuditEntry => e !== null);
+  } finally {
+    for (const provider of Object.values(providers)) {
+      provider.destroy();
+    }
+  }
+
+  const labels: Record<AuditStatus, string> = {
+    matching: `${colors.green}matching${colors.reset}`,
+    missing: `${colors.red}missing${colors.reset}`,
+    "unexpected-code": `${colors.red}unexpected-code${colors.reset}`,
+    "unrecorded-but-live": `${colors.yellow}unrecorded-but-live${colors.reset}`,
+    error: `${colors.red}error${colors.reset}`,
+  };
+
+  log("");
+  log(`${colors.blue}Deployment Audit (${environment})${colors.reset}`);
+  log("─".repeat(80));
+
+  const contracts = [...new Set(entries.map((e) => e.contract))].sort();
+  for (const contractName of contracts) {
+    log("");
+    log(`  ${colors.bold}${contractName}${colors.reset}`);
+    for (const entry of entries.filter((e) => e.contract === contractName)) {
+      const detail = entry.detail ? ` ${colors.dim}(${entry.detail})${colors.reset}` : "";
+      log(`    ${entry.chain.padEnd(18)} ${colors.dim}${entry.address}${colors.reset}  ${labels[entry.status]}${detail}`);
+    }
+  }
+
+  const drift = entries.filter((e) => e.status !== "matching");
+  log("");
+  log("─".repeat(80));
+  if (entries.length === 0) {
+    info(`No ${environment} deployments recorded or live`);
+  } else if (drift.length === 0) {
+    success(`${entries.length} deployment(s) match their frozen bytecode`);
+  } else {
+    error(`${drift.length} of ${entries.length} entries did not match`);
+  }
+  log("");
+
+  return drift.length === 0;
+}
+
+/**
+ * Checks each chain's config.json entry against its RPC and Safe service.
+ *
+ * @returns true when every check passed
+ */
+async function runDoctor(
+  config: Config,
+  env: Env,
+  chains: Record<string, Chain>,
+  chainName?: string,
+): Promise<boolean> {
+  if (chainName && !chains[chainName]) {
+    error(`Unknown chain: ${chainName}`);
+    return false;
+  }
+
+  const chainNames = chainName ? [chainName] : Object.keys(chains);
+  const reports = await Promise.all(
+    chainNames.map((name) =>
+      diagnoseChain(chains[name], {
+        addresses: config.chains[name].addresses ?? {},
+        safeApiKey: env.SAFE_API_KEY,
+      }),
+    ),
+  );
+
+  log("");
+  log(`${colors.blue}Chain Doctor${colors.reset}`);
+  log("─".repeat(80));
+
+  const failing: string[] = [];
+  chainNames.forEach((name, i) => {
+    const checks: DoctorCheck[] = reports[i];
+    const ok = checks.every((c) => c.ok);
+    if (!ok) {
+      failing.push(name);
+    }
+
+    log("");
+    log(`  ${ok ? colors.green + "✓" : colors.red + "✗"}${colors.reset} ${colors.bold}${name}${colors.reset} ${colors.dim}(${chains[name].chainId})${colors.reset}`);
+    for (const c of checks) {
+      const icon = c.ok ? `${colors.green}✓${colors.reset}` : `${colors.red}✗${colors.reset}`;
+      const detail = c.detail ? ` ${c.ok ? colors.dim : colors.red}${c.detail}${colors.reset}` : "";
+      log(`    ${icon} ${c.name.padEnd(26)}${detail}`);
+    }
+  });
+
+  log("");
+  log("─".repeat(80));
+  if (failing.length === 0) {
+    success(`${chainNames.length} chain(s) healthy`);
+  } else {
+    error(`Problems on: ${failing.join(", ")}`);
+  }
+  log("");
+
+  return failing.length === 0;
+}
+
+/**
+ * Frozen initcode with the chain's constructor args appended. Throws if the
+ * args can't be resolved or encoded.
+ */
+function getDeployInitcode(config: Config, contractName: string, chainName: string): string {
+  const version = getDeployVersion(config, contractName);
+  const initcode = getFrozenInitcode(contractName, version);
+  const abi = getFrozenAbi(contractName, version);
+  if (!initcode || !abi) {
+    throw new Error(`${contractName} is not frozen`);
+  }
+  return buildInitcode(initcode, abi, resolveConstructorArgs(config, contractName, chainName));
+}
+
+function estimateCost(config: Config, chain: Chain, contractName: string): Promise<DeploymentCost> {
+  const deployed = getFrozenDeployedBytecode(contractName, getDeployVersion(config, contractName)) ?? "0x";
+  return estimateDeploymentCost({
+    rpc: chain.rpc,
+    from: config.deployer.address,
+    salt: getContractConfig(config, contractName)!.salt,
+    initcode: getDeployInitcode(config, contractName, chain.name),
+    admin: chain.admin,
+    deployedSize: (deployed.length - 2) / 2,
+  });
+}
+
+function formatNative(wei: bigint): string {
+  return Number(formatEther(wei)).toFixed(6);
+}
+
+function formatGwei(wei: bigint): string {
+  return Number(formatUnits(wei, "gwei")).toFixed(3);
+}
+
+/**
+ * Compares the estimated deployment cost with the deployer's native balance.
+ * A shortfall fails a broadcast and is only a warning for simulations.
+ */
+async function checkDeployerFunding(
+  config: Config,
+  chain: Chain,
+  contractName: string,
+  broadcast: boolean,
+): Promise<boolean> {
+  const fail = broadcast ? error : warn;
+
+  info("Estimating deployment cost...");
+  let cost: DeploymentCost;
+  try {
+    cost = await estimateCost(config, chain, contractName);
+  } catch (e) {
+    fail(`Could not estimate deployment cost: ${(e as Error).message}`);
+    return !broadcast;
+  }
+
+  const approx = cost.heuristic ? "~" : "";
+  log(`  Gas:     ${approx}${cost.gas} @ ${formatGwei(cost.feePerGas)} gwei`);
+  log(`  Cost:    ${approx}${formatNative(cost.cost)}`);
+  log(`  Balance: ${formatNative(cost.balance)} ${colors.dim}(${config.deployer.address})${colors.reset}`);
+  if (cost.heuristic) {
+    warn("Gas estimation failed; using a heuristic estimate");
+  }
+
+  if (cost.balance < cost.cost) {
+    fail(`Deployer needs ${formatNative(cost.cost - cost.balance)} more on ${chain.name}`);
+    return !broadcast;
+  }
+  success("Deployer balance covers the deployment");
+  return true;
+}
+
+interface FundingRow {
+  chain: string;
+  pending: string[];
+  gas: bigint;
+  cost: bigint;
+  balance: bigint;
+  heuristic: boolean;
+  error?: string;
+}
+
+/**
+ * Prints what the deployer needs on each chain to deploy every contract in
+ * getDeploymentOrder that isn't live yet.
+ *
+ * @returns true when every chain is funded
+ */
+async function showFunding(
+  config: Config,
+  chains: Record<string, Chain>,
+  environment: Environment,
+  chainName?: string,
+): Promise<boolean> {
+  if (chainName && !chains[chainName]) {
+    error(`Unknown chain: ${chainName}`);
+    return false;
+  }
+
+  const order = getDeploymentOrder(config);
+  const chainNames = chainName ? [chainName] : Object.keys(chains);
+
+  const fund = async (name: string): Promise<FundingRow> => {
+    const chain = chains[name];
+    const row: FundingRow = { chain: name, pending: [], gas: 0n, cost: 0n, balance: 0n, heuristic: false };
+    const provider = new JsonRpcProvider(chain.rpc, undefined, { staticNetwork: true });
+    try {
+      for (const contractName of order) {
+        const address = getContractAddress(config, contractName, name)!;
+        if ((await provider.getCode(address)) !== "0x") continue;
+
+        // Same rule as --all: contracts whose args don't resolve here are skipped
+        try {
+          resolveConstructorArgs(config, contractName, name);
+        } catch {
+          continue;
+        }
+
+        const cost = await estimateCost(config, chain, contractName);
+        row.pending.push(contractName);
+        row.gas += cost.gas;
+        row.cost += cost.cost;
+        row.balance = cost.balance;
+        row.heuristic ||= cost.heuristic;
+      }
+      if (row.pending.length === 0) {
+        row.balance = await provider.getBalance(config.deployer.address);
+      }
+    } catch (e) {
+      row.error = (e as Error).message.split("\n")[0];
+    } finally {
+      provider.destroy();
+    }
+    return row;
+  };
+
+  const rows = await Promise.all(chainNames.map(fund));
+
+  log("");
+  log(`${colors.blue}Deployer Funding (${environment})${colors.reset}`);
+  log(`${colors.dim}${config.deployer.address} · ${order.join(" → ")}${colors.reset}`);
+  log("─".repeat(90));
+  log(`  ${"Chain".padEnd(18)}${"Pending".padEnd(10)}${"Gas".padEnd(14)}${"Cost".padEnd(16)}${"Balance".padEnd(16)}Status`);
+
+  let short = 0;
+  for (const row of rows) {
+    const prefix = `  ${row.chain.padEnd(18)}`;
+    if (row.error) {
+      short++;
+      log(`${prefix}${colors.red}error${colors.reset} ${colors.dim}(${row.error})${colors.reset}`);
+      continue;
+    }
+
+    const approx = row.heuristic ? "~" : "";
+    const needed = row.cost - row.balance;
+    let status = `${colors.green}ok${colors.reset}`;
+    if (row.pending.length === 0) {
+      status = `${colors.dim}nothing to deploy${colors.reset}`;
+    } else if (needed > 0n) {
+      short++;
+      status = `${colors.red}needs ${formatNative(needed)}${colors.reset}`;
+    }
+
+    log(
+      prefix +
+      String(row.pending.length).padEnd(10) +
+      `${approx}${row.gas}`.padEnd(14) +
+      `${approx}${formatNative(row.cost)}`.padEnd(16) +
+      formatNative(row.balance).padEnd(16) +
+      status,
+    );
+  }
+
+  log("─".repeat(90));
+  if (rows.some((r) => r.heuristic)) {
+    log(`${colors.dim}~ heuristic gas (estimation failed, e.g. a dependency isn't deployed yet)${colors.reset}`);
+  }
+  if (short === 0) {
+    success("Deployer is funded on every chain");
+  } else {
+    error(`${short} chain(s) need funding or could not be checked`);
+  }
+  log("");
+
+  return short === 0;
+}
+
+// Rebuild results per contract version, so --all rebuilds each package once
+const rebuildChecks: Record<string, RebuildCheck[]> = {};
+
+async function runPreflightChecks(
   config: Config,
   contractName: string,
   chain: Chain,
   chainName: string,
-): { passed: boolean; alreadyDeployed: boolean; address: string } {
+  broadcast: boolean,
+  checkBuild: boolean,
+): Promise<{ passed: boolean; alreadyDeployed: boolean; address: string }> {
   log("");
   log(`${colors.bold}Pre-flight Checks${colors.reset}`);
   log("─".repeat(50));
@@ -420,13 +954,44 @@ function runPreflightChecks(
 
   let allPassed = true;
 
-  info(`Verifying frozen bytecode for ${contractName}...`);
-  const bytecodeResult = verifyFrozenBytecode(contractName);
+  // The address can't be computed from a salt CreateX rejects
+  const guardProblem = checkSaltGuard(config, contractName);
+  if (guardProblem) {
+    error(guardProblem);
+    return { passed: false, alreadyDeployed: false, address: "" };
+  }
+
+  let version: string | null;
+  try {
+    version = getDeployVersion(config, contractName);
+  } catch (e) {
+    error((e as Error).message);
+    return { passed: false, alreadyDeployed: false, address: "" };
+  }
+
+  info(`Verifying frozen bytecode for ${contractName}${version ? ` ${version}` : ""}...`);
+  const bytecodeResult = verifyFrozenBytecode(contractName, version);
   if (!bytecodeResult.valid) {
     error(bytecodeResult.error!);
     allPassed = false;
   } else {
-    success(`${contractName} frozen bytecode verified`);
+    success(`${contractName} ${version} frozen bytecode verified`);
+  }
+
+  if (checkBuild && broadcast && !chain.testnet && version) {
+    log("");
+    info(`Rebuilding ${contractName} ${version} from its frozen package...`);
+    const key = `${contractName}/${version}`;
+    rebuildChecks[key] ??= rebuildFrozenPackage(contractName, version);
+    const failed = rebuildChecks[key].filter((c) => !c.ok);
+    for (const check of failed) {
+      error(`${check.name}: ${check.detail}`);
+    }
+    if (failed.length > 0) {
+      allPassed = false;
+    } else {
+      success("Frozen package rebuilds to the same bytecode");
+    }
   }
 
   const deps = getContractDependencies(config, contractName);
@@ -434,14 +999,14 @@ function runPreflightChecks(
     log("");
     info("Checking dependencies...");
     for (const dep of deps) {
-      const depAddress = getContractAddress(config, dep);
+      const depAddress = getContractAddress(config, dep, chainName);
       if (!depAddress) {
         error(`Dependency ${dep} not configured`);
         allPassed = false;
         continue;
       }
 
-      const depDeployed = checkAlreadyDeployed(chain, depAddress);
+      const depDeployed = await checkAlreadyDeployed(chain, depAddress);
       if (depDeployed) {
         success(`${dep} deployed at ${depAddress}`);
       } else {
@@ -456,7 +1021,7 @@ function runPreflightChecks(
 
   log("");
   info(`Testing RPC connection to ${chainName}...`);
-  const rpcResult = checkRpcHealth(chain);
+  const rpcResult = await checkRpcHealth(chain);
   if (!rpcResult.healthy) {
     error(`RPC unreachable: ${rpcResult.error}`);
     allPassed = false;
@@ -466,30 +1031,64 @@ function runPreflightChecks(
 
   log("");
   info("Computing deterministic address...");
-  const address = getContractAddress(config, contractName)!;
+  const address = getContractAddress(config, contractName, chainName)!;
   log(`  ${contractName}: ${address}`);
 
   log("");
   info("Checking if contract already deployed...");
-  const alreadyDeployed = checkAlreadyDeployed(chain, address);
+  const alreadyDeployed = await checkAlreadyDeployed(chain, address);
   if (alreadyDeployed) {
     warn(`${contractName} already deployed at ${address}`);
   } else {
     success("Address available for deployment");
   }
 
+  if (!alreadyDeployed && allPassed) {
+    log("");
+    if (!(await checkDeployerFunding(config, chain, contractName, broadcast))) {
+      allPassed = false;
+    }
+  }
+
   return { passed: allPassed, alreadyDeployed, address };
 }
 
-function showDeploymentPlan(
-  config: Config,
-  contractName: string,
+/**
+ * Contracts are deployed owned by the chain's admin Safe, so its owners and
+ * threshold must match config before broadcasting. Simulations only warn.
+ */
+async function checkAdminForDeploy(chain: Chain, broadcast: boolean): Promise<boolean> {
+  const signers = loadSigners().flatMap((s) => (s.address ? [s.address] : []));
+
+  info(`Checking admin Safe ${chain.admin}...`);
+  const problems = await checkAdminSafe(chain, signers);
+  if (problems.length === 0) {
+    success(`Admin Safe matches config (threshold ${chain.threshold})`);
+    log("");
+    return true;
+  }
+
+  for (const problem of problems) {
+    (broadcast ? error : warn)(problem);
+  }
+  log("");
+  if (broadcast) {
+    error("Admin Safe does not match config. Aborting deployment.");
+    return false;
+  }
+  return true;
+}
+
+function showDeploymentPlan(
+  config: Config,
+  contractName: string,
   chain: Chain,
   chainName: string,
   address: string,
 ): void {
   const contractConfig = getContractConfig(config, contractName)!;
-  const metadata = getDeploymentMetadata(contractName);
+  const version = getDeployVersion(config, contractName);
+  const metadata = version ? readMetadata(contractName, version) : null;
   const args = resolveConstructorArgs(config, contractName, chainName);
 
   log("");
@@ -508,9 +1107,9 @@ function showDeploymentPlan(
   log(`  ${colors.bold}Explorer:${colors.reset}    ${chain.explorer}`);
   log("");
   log(`  ${colors.bold}Deployer:${colors.reset}    ${config.deployer.address}`);
-  log(`  ${colors.bold}Admin:${colors.reset}       ${config.admin.safe}`);
+  log(`  ${colors.bold}Admin:${colors.reset}       ${chain.admin} ${colors.dim}(threshold ${chain.threshold})${colors.reset}`);
   log("");
-  log(`  ${colors.bold}Contract:${colors.reset}    ${contractName}`);
+  log(`  ${colors.bold}Contract:${colors.reset}    ${contractName} ${colors.dim}${version}${contractConfig.version ? " (pinned)" : ""}${colors.reset}`);
   log(`  ${colors.bold}Address:${colors.reset}     ${address}`);
   log(
     `  ${colors.dim}Salt: ${contractConfig.salt.slice(0, 22)}...${colors.reset}`,
@@ -522,23 +1121,82 @@ function showDeploymentPlan(
   if (args.length > 0) {
     log("");
     log(`  ${colors.bold}Constructor Args:${colors.reset}`);
-    for (const arg of args) {
-      log(`    ${arg}`);
+    for (const { label, value } of describeConstructorArgs(getFrozenAbi(contractName, version), args)) {
+      log(`    ${colors.dim}${label}:${colors.reset} ${value}`);
     }
   }
 
   log("");
 }
 
-function deploy(
+/**
+ * Checks the deployer's key source, loads the key and runs the cancel countdown.
+ * Returns the key (held in memory only) or null if the deployment must not proceed.
+ */
+async function confirmLiveDeployment(config: Config, testnet: boolean): Promise<string | null> {
+  const keyProblem = checkKeySource(config.deployer.keyRef, testnet);
+  if (keyProblem) {
+    error(keyProblem.error);
+    if (keyProblem.hint) {
+      log("");
+      log(`  ${keyProblem.hint}`);
+    }
+    return null;
+  }
+  success(`${parseKeyRef(config.deployer.keyRef).source.label} key source available`);
+
+  const verifyResult = await verifyDeployerAddress(
+    config.deployer.keyRef,
+    config.deployer.address,
+    testnet,
+  );
+  if (!verifyResult.valid || !verifyResult.privateKey) {
+    return null;
+  }
+
+  log("");
+  if (!testnet) {
+    log(
+      `${colors.red}${colors.bold}⚠️  WARNING: MAINNET DEPLOYMENT${colors.reset}`,
+    );
+    log("");
+    log("  This will deploy contracts to a production network.");
+    log("  This action cannot be undone.");
+    log("");
+    log("  Press Ctrl+C to cancel, or wait 10 seconds to continue...");
+    log("");
+
+    try {
+      execSync("sleep 10", { stdio: "inherit" });
+    } catch {
+      log("");
+      info("Cancelled");
+      process.exit(0);
+    }
+  } else {
+    log("  Press Ctrl+C to cancel, or wait 3 seconds to continue...");
+    log("");
+    try {
+      execSync("sleep 3", { stdio: "inherit" });
+    } catch {
+      log("");
+      info("Cancelled");
+      process.exit(0);
+    }
+  }
+
+  return verifyResult.privateKey;
+}
+
+async function deploy(
   config: Config,
   env: Env,
   chains: Record<string, Chain>,
   contractName: string,
   chainName: string,
   environment: Environment,
-  broadcast: boolean = false,
-): void {
+  options: DeployOptions,
+): Promise<DeployStatus> {
   const chain = chains[chainName];
   if (!chain) {
     error(`Unknown chain: ${chainName}`);
@@ -546,7 +1204,7 @@ function deploy(
     log(
       `Run ${colors.dim}bun deployment --chains${colors.reset} to see available chains`,
     );
-    process.exit(1);
+    return "failed";
   }
 
   const contractConfig = getContractConfig(config, contractName);
@@ -556,19 +1214,43 @@ function deploy(
     log(
       `Run ${colors.dim}bun deployment --list${colors.reset} to see configured contracts`,
     );
-    process.exit(1);
+    return "failed";
   }
 
-  const preflight = runPreflightChecks(config, contractName, chain, chainName);
+  const pendingJournal = options.broadcast
+    ? loadJournal(contractName, chainName, environment)
+    : null;
+
+  if (pendingJournal && hasStep(pendingJournal, "submitted")) {
+    log("");
+    info(
+      `Resuming ${contractName} on ${chainName} after step "${lastStep(pendingJournal)}" ` +
+      `(${relative(process.cwd(), getJournalPath(contractName, chainName, environment))})`,
+    );
+    return finishDeployment(config, chain, contractName, environment, pendingJournal, options);
+  }
+
+  const preflight = await runPreflightChecks(config, contractName, chain, chainName, options.broadcast, options.checkBuild);
 
   if (!preflight.passed) {
     log("");
     error("Pre-flight checks failed. Aborting deployment.");
-    process.exit(1);
+    return "failed";
   }
 
   showDeploymentPlan(config, contractName, chain, chainName, preflight.address);
 
+  if (!preflight.alreadyDeployed && !(await checkAdminForDeploy(chain, options.broadcast))) {
+    return "failed";
+  }
+
+  if (preflight.alreadyDeployed && pendingJournal) {
+    // A previous run died after broadcasting but before the hash was journaled
+    warn("Found an unfinished journal and the contract is live; resuming.");
+    recordStep(pendingJournal, "submitted", {});
+    return finishDeployment(config, chain, contractName, environment, pendingJournal, options);
+  }
+
   if (preflight.alreadyDeployed) {
     log(
       `${colors.green}Contract already deployed at expected address.${colors.reset}`,
@@ -578,10 +1260,10 @@ function deploy(
       `To record this deployment: ${colors.dim}bun deployment --record ${contractName} ${chainName}${colors.reset}`,
     );
     log("");
-    process.exit(0);
+    return "already-deployed";
   }
 
-  if (!broadcast) {
+  if (!options.broadcast) {
     log(`${colors.yellow}─── Simulation Mode ───${colors.reset}`);
     log("");
     info("To deploy for real, add --broadcast flag");
@@ -589,134 +1271,204 @@ function deploy(
       `  ${colors.dim}bun deployment ${contractName} ${chainName} --broadcast${colors.reset}`,
     );
     log("");
-    process.exit(0);
+    return "simulated";
   }
 
   log(`${colors.red}─── LIVE DEPLOYMENT ───${colors.reset}`);
   log("");
 
-  if (!checkOpCli()) {
-    error("1Password CLI not installed");
-    log("");
-    log("  Install: https://developer.1password.com/docs/cli/get-started");
-    process.exit(1);
+  const privateKey = options.privateKey ?? (await confirmLiveDeployment(config, chain.testnet));
+  if (!privateKey) {
+    return "failed";
   }
-  success("1Password CLI found");
 
-  if (!checkOpSignedIn()) {
-    error("Not signed in to 1Password");
-    log("");
-    log(`  Run: ${colors.dim}op signin${colors.reset}`);
-    process.exit(1);
+  const version = getDeployVersion(config, contractName)!;
+  const initcode = getFrozenInitcode(contractName, version)!;
+  const abi = getFrozenAbi(contractName, version);
+  if (!abi) {
+    error(`No frozen ABI found for ${contractName} ${version}`);
+    return "failed";
   }
-  success("1Password signed in");
 
-  const verifyResult = verifyDeployerAddress(
-    config.deployer.keyRef,
-    config.deployer.address,
-  );
-  if (!verifyResult.valid) {
-    process.exit(1);
+  const args = resolveConstructorArgs(config, contractName, chainName);
+  let deployInitcode: string;
+  let encodedArgs: string;
+  try {
+    encodedArgs = encodeConstructorArgs(abi, args);
+    deployInitcode = buildInitcode(initcode, abi, args);
+  } catch (e) {
+    error(`Cannot encode constructor args: ${(e as Error).message}`);
+    return "failed";
   }
 
-  log("");
-  if (!chain.testnet) {
-    log(
-      `${colors.red}${colors.bold}⚠️  WARNING: MAINNET DEPLOYMENT${colors.reset}`,
-    );
-    log("");
-    log("  This will deploy contracts to a production network.");
-    log("  This action cannot be undone.");
-    log("");
-    log("  Press Ctrl+C to cancel, or wait 10 seconds to continue...");
-    log("");
+  const journal = startJournal(
+    contractName,
+    chainName,
+    environment,
+    preflight.address,
+    contractConfig.salt,
+  );
+  recordStep(journal, "preflight", {
+    version,
+    initcodeHash: readMetadata(contractName, version)?.initcodeHash,
+    constructorArgs: encodedArgs,
+  });
 
-    try {
-      execSync("sleep 10", { stdio: "inherit" });
-    } catch {
-      log("");
-      info("Cancelled");
-      process.exit(0);
-    }
-  } else {
-    log("  Press Ctrl+C to cancel, or wait 3 seconds to continue...");
+  info("Broadcasting deployment transaction...");
+
+  let receipt: DeploymentReceipt;
+  try {
+    receipt = await broadcastDeployment({
+      rpc: chain.rpc,
+      privateKey,
+      salt: contractConfig.salt,
+      initcode: deployInitcode,
+      admin: chain.admin,
+      expectedAddress: preflight.address,
+      confirmations: options.confirmations,
+      onSubmitted: (txHash) => {
+        recordStep(journal, "submitted", { txHash });
+        success(`Transaction submitted: ${txHash}`);
+        log(`  ${colors.dim}${chain.explorer}/tx/${txHash}${colors.reset}`);
+        info(`Waiting for ${options.confirmations} confirmation(s)...`);
+      },
+    });
+  } catch (e) {
     log("");
-    try {
-      execSync("sleep 3", { stdio: "inherit" });
-    } catch {
-      log("");
-      info("Cancelled");
-      process.exit(0);
+    error(`Deployment failed: ${(e as Error).message}`);
+    if (hasStep(journal, "submitted")) {
+      log(`  Rerun this command to resume once the transaction is mined.`);
     }
+    return "failed";
   }
 
-  info("Broadcasting deployment transaction...");
-  log("");
+  recordStep(journal, "confirmed", receiptStepData(receipt));
+  success(`Confirmed in block ${receipt.blockNumber}`);
 
-  const args = resolveConstructorArgs(config, contractName, chainName);
-  const constructorArgsEnv = args.length > 0 ? args.join(",") : "";
-
-  const envVars = {
-    ...process.env,
-    ADMIN_ADDRESS: config.admin.safe,
-    CONTRACT_NAME: contractName,
-    CONTRACT_SALT: contractConfig.salt,
-    CONSTRUCTOR_ARGS: constructorArgsEnv,
-  };
+  return finishDeployment(config, chain, contractName, environment, journal, options);
+}
 
-  const forgeCmd = `forge script script/DeploySingle.s.sol:DeploySingle --rpc-url ${chain.rpc} --broadcast --private-key $(op read "${config.deployer.keyRef}")`;
-  const result = spawnSync("sh", ["-c", forgeCmd], {
-    stdio: "inherit",
-    env: envVars,
-    cwd: process.cwd(),
-  });
+function receiptStepData(receipt: DeploymentReceipt): Record<string, unknown> {
+  return {
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    timestamp: new Date(receipt.timestamp * 1000).toISOString(),
+    from: receipt.from,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+  };
+}
 
-  if (result.status !== 0) {
+/**
+ * Runs the post-broadcast steps that the journal has not completed yet:
+ * receipt confirmation, bytecode verification and the metadata record.
+ */
+async function finishDeployment(
+  config: Config,
+  chain: Chain,
+  contractName: string,
+  environment: Environment,
+  journal: DeploymentJournal,
+  options: DeployOptions,
+): Promise<DeployStatus> {
+  const chainName = chain.name;
+  const address = journal.address;
+  // Journals from before versioned packages have no version; they deployed current
+  const version = (getStepData(journal, "preflight")?.version as string | undefined) ?? getDeployVersion(config, contractName)!;
+
+  if (!hasStep(journal, "confirmed")) {
     log("");
-    error("Deployment failed");
-    process.exit(1);
+    info("Confirming deployment transaction...");
+
+    const txHash = getStepData(journal, "submitted")?.txHash as string | undefined;
+    if (txHash) {
+      const provider = new JsonRpcProvider(chain.rpc);
+      try {
+        const receipt = await waitForDeployment(provider, txHash, address, options.confirmations);
+        recordStep(journal, "confirmed", receiptStepData(receipt));
+        success(`Confirmed in block ${receipt.blockNumber}`);
+      } catch (e) {
+        error((e as Error).message);
+        log(`  ${colors.dim}${chain.explorer}/tx/${txHash}${colors.reset}`);
+        // A revert is final; anything else may still land, so only the operator can give up on it
+        if (await isTransactionReverted(provider, txHash).catch(() => false)) {
+          abandonJournal(journal, `Transaction ${txHash} reverted`);
+          warn("The transaction reverted; the journal is abandoned and the next run starts over.");
+        } else {
+          log(`  If it will never land: ${colors.dim}bun deployment --abandon ${contractName} ${chainName}${colors.reset}`);
+        }
+        return "failed";
+      } finally {
+        provider.destroy();
+      }
+    } else {
+      if (!(await checkAlreadyDeployed(chain, address))) {
+        error(`No transaction hash recorded and nothing deployed at ${address}.`);
+        log(`  Check ${chain.explorer}/address/${config.deployer.address} before retrying.`);
+        log(`  If nothing was sent: ${colors.dim}bun deployment --abandon ${contractName} ${chainName}${colors.reset}`);
+        return "failed";
+      }
+      recordStep(journal, "confirmed", {});
+      success(`Contract found at ${address}`);
+    }
   }
 
-  log("");
-  success("Deployment transaction broadcast!");
-
-  log("");
-  info("Verifying deployed bytecode...");
-
-  execSync("sleep 3");
+  if (!hasStep(journal, "verified")) {
+    log("");
+    info("Verifying deployed bytecode...");
 
-  const bytecodeVerify = verifyDeployedBytecode(
-    chain,
-    preflight.address,
-    contractName,
-  );
-  if (!bytecodeVerify.valid) {
-    const deps = getContractDependencies(config, contractName);
-    if (deps.length > 0) {
-      warn(
-        `${contractName} bytecode differs (expected: has immutable dependencies)`,
-      );
-    } else {
+    // The args journaled at preflight, not what config.json resolves to now
+    let bytecodeVerify: { valid: boolean; error?: string };
+    try {
+      const args =
+        (getStepData(journal, "preflight")?.constructorArgs as string | undefined) ??
+        resolveConstructorArgs(config, contractName, chainName);
+      bytecodeVerify = await verifyDeployedBytecode(chain, address, contractName, version, args);
+    } catch (e) {
+      error(`Could not verify ${contractName} bytecode: ${(e as Error).message}`);
+      return "failed";
+    }
+    if (!bytecodeVerify.valid) {
       error(
         `${contractName} bytecode verification failed: ${bytecodeVerify.error}`,
       );
+    } else {
+      success(`${contractName} bytecode matches frozen bytecode`);
     }
-  } else {
-    success(`${contractName} bytecode matches frozen bytecode`);
+    recordStep(journal, "verified", { matches: bytecodeVerify.valid });
   }
 
-  log("");
-  info("Recording deployment...");
-  addDeploymentRecord(
-    contractName,
-    config.deployer.address,
-    preflight.address,
-    contractConfig.salt,
-    environment,
-    chainName,
-    args.length > 0 ? args : undefined,
-  );
-  success("Deployment recorded");
+  if (!hasStep(journal, "recorded")) {
+    log("");
+    info("Recording deployment...");
+    const constructorArgs = getStepData(journal, "preflight")?.constructorArgs as string | undefined;
+    const txHash = getStepData(journal, "submitted")?.txHash as string | undefined;
+    const confirmed = getStepData(journal, "confirmed") as Partial<ChainDeployment> | undefined;
+    const recorded = addDeploymentRecord(
+      contractName,
+      version,
+      config.deployer.address,
+      address,
+      journal.salt,
+      environment,
+      chainName,
+      {
+        txHash,
+        blockNumber: confirmed?.blockNumber,
+        timestamp: confirmed?.timestamp,
+        from: confirmed?.from,
+        gasUsed: confirmed?.gasUsed,
+        effectiveGasPrice: confirmed?.effectiveGasPrice,
+        constructorArgs: constructorArgs && constructorArgs !== "0x" ? constructorArgs : undefined,
+        recordedAt: new Date().toISOString(),
+      },
+    );
+    if (!recorded) {
+      return "failed";
+    }
+    recordStep(journal, "recorded");
+    success("Deployment recorded");
+  }
 
   log("");
   log(
@@ -729,22 +1481,154 @@ function deploy(
     `${colors.green}═══════════════════════════════════════════════════════════${colors.reset}`,
   );
   log("");
-  log(`${colors.bold}Address:${colors.reset} ${preflight.address}`);
+  log(`${colors.bold}Address:${colors.reset} ${address}`);
   log("");
   log(`${colors.bold}Next steps:${colors.reset}`);
   log(
     `  Verify: ${colors.dim}bun deployment --verify ${contractName} ${chainName}${colors.reset}`,
   );
   log("");
+
+  return "deployed";
 }
 
-function recordDeployment(
+/**
+ * Deploys every configured contract to each chain, walking getDeploymentOrder
+ * so dependencies land first. Contracts that are already live are skipped, as
+ * are contracts whose args cannot be resolved or whose dependencies are not
+ * live on that chain (or simulated, in a simulation).
+ *
+ * @returns true when no deployment failed
+ */
+async function deployAll(
+  config: Config,
+  env: Env,
+  chains: Record<string, Chain>,
+  chainNames: string[],
+  environment: Environment,
+  broadcast: boolean,
+  args: string[],
+  checkBuild: boolean,
+): Promise<boolean> {
+  const unknown = chainNames.filter((name) => !chains[name]);
+  if (unknown.length > 0) {
+    error(`Unknown chain(s): ${unknown.join(", ")}`);
+    log("");
+    log(
+      `Run ${colors.dim}bun deployment --chains${colors.reset} to see available chains`,
+    );
+    return false;
+  }
+
+  // --confirmations applies to every chain, otherwise each chain's own default
+  const confirmations = Object.fromEntries(
+    chainNames.map((name) => [name, parseConfirmationsArg(args, chains[name])]),
+  );
+  const order = getDeploymentOrder(config);
+
+  log("");
+  log(`${colors.blue}Batch Deployment${colors.reset}`);
+  log("─".repeat(60));
+  log("");
+  log(`  ${colors.bold}Contracts:${colors.reset} ${order.join(" → ")}`);
+  log(`  ${colors.bold}Chains:${colors.reset}    ${chainNames.join(", ")}`);
+  log(`  ${colors.bold}Mode:${colors.reset}      ${broadcast ? `${colors.red}broadcast${colors.reset}` : "simulation"}`);
+  log("");
+
+  let privateKey: string | undefined;
+  if (broadcast) {
+    const allTestnets = chainNames.every((name) => chains[name].testnet);
+    privateKey = (await confirmLiveDeployment(config, allTestnets)) ?? undefined;
+    if (!privateKey) {
+      return false;
+    }
+  }
+
+  const results = await runBatch(config, chainNames, broadcast, async (contractName, chainName) => {
+    try {
+      resolveConstructorArgs(config, contractName, chainName);
+    } catch (e) {
+      return { status: "skipped", reason: (e as Error).message };
+    }
+
+    // An unfinished journal means a previous run still needs to be recorded
+    const address = getContractAddress(config, contractName, chainName)!;
+    const pending = broadcast && loadJournal(contractName, chainName, environment) !== null;
+    if (!pending && (await checkAlreadyDeployed(chains[chainName], address))) {
+      return { status: "already-deployed" };
+    }
+
+    log("");
+    log(`${colors.blue}▶ ${contractName} on ${chainName}${colors.reset}`);
+    const status = await deploy(config, env, chains, contractName, chainName, environment, {
+      broadcast,
+      confirmations: confirmations[chainName],
+      checkBuild,
+      privateKey,
+    });
+    return { status };
+  });
+
+  printBatchMatrix(order, chainNames, results);
+
+  return !Object.values(results).some((byChain) =>
+    Object.values(byChain).some((r) => r.status === "failed"),
+  );
+}
+
+function printBatchMatrix(
+  contracts: string[],
+  chainNames: string[],
+  results: BatchResults,
+): void {
+  const cells: Record<DeployStatus, { label: string; color: string }> = {
+    deployed: { label: "deployed", color: colors.green },
+    "already-deployed": { label: "live", color: colors.green },
+    simulated: { label: "simulated", color: colors.blue },
+    skipped: { label: "skipped", color: colors.dim },
+    failed: { label: "FAILED", color: colors.red },
+  };
+  const cellWidth = 12;
+  const nameWidth = Math.max(...contracts.map((c) => c.length)) + 2;
+
+  log("");
+  log(`${colors.blue}Batch Deployment Results${colors.reset}`);
+  log("─".repeat(nameWidth + chainNames.length * cellWidth));
+  log(
+    `${"".padEnd(nameWidth)}${chainNames.map((c) => c.slice(0, cellWidth - 1).padEnd(cellWidth)).join("")}`,
+  );
+
+  const notes: string[] = [];
+  for (const contractName of contracts) {
+    let row = `${colors.bold}${contractName.padEnd(nameWidth)}${colors.reset}`;
+    for (const chainName of chainNames) {
+      const r = results[contractName][chainName];
+      const { label, color } = cells[r.status];
+      row += `${color}${label}${colors.reset}${" ".repeat(cellWidth - label.length)}`;
+      if (r.reason) {
+        notes.push(`${contractName} on ${chainName}: ${r.reason}`);
+      }
+    }
+    log(row);
+  }
+
+  if (notes.length > 0) {
+    log("");
+    log(`${colors.bold}Skipped:${colors.reset}`);
+    for (const note of notes) {
+      log(`  ${colors.dim}${note}${colors.reset}`);
+    }
+  }
+  log("");
+}
+
+async function recordDeployment(
   config: Config,
   chains: Record<string, Chain>,
   contractName: string,
   chainName: string,
   environment: Environment,
-): void {
+): Promise<void> {
   const chain = chains[chainName];
   if (!chain) {
     error(`Unknown chain: ${chainName}`);
@@ -760,38 +1644,109 @@ function recordDeployment(
   log("");
   info(`Recording ${contractName} deployment on ${chainName} (${environment})...`);
 
-  const address = getContractAddress(config, contractName)!;
+  const address = getContractAddress(config, contractName, chainName)!;
 
   info("Verifying contract exists on-chain...");
-  const deployed = checkAlreadyDeployed(chain, address);
+  const deployed = await checkAlreadyDeployed(chain, address);
   if (!deployed) {
     error(`${contractName} not deployed at ${address} on ${chainName}`);
     process.exit(1);
   }
   success("Contract found on-chain");
 
-  const args = resolveConstructorArgs(config, contractName, chainName);
+  const version = getDeployVersion(config, contractName);
+  const abi = getFrozenAbi(contractName, version);
+  if (!version || !abi) {
+    error(`No frozen ABI found for ${contractName}`);
+    process.exit(1);
+  }
+
+  let constructorArgs: string;
+  try {
+    constructorArgs = encodeConstructorArgs(abi, resolveConstructorArgs(config, contractName, chainName));
+  } catch (e) {
+    error(`Cannot encode constructor args: ${(e as Error).message}`);
+    process.exit(1);
+  }
 
-  addDeploymentRecord(
+  const recorded = addDeploymentRecord(
     contractName,
+    version,
     config.deployer.address,
     address,
     contractConfig.salt,
     environment,
     chainName,
-    args.length > 0 ? args : undefined,
+    {
+      constructorArgs: constructorArgs !== "0x" ? constructorArgs : undefined,
+      recordedAt: new Date().toISOString(),
+    },
   );
-  success(`Recorded ${contractName} at ${address} on ${chainName}`);
+  if (!recorded) {
+    process.exit(1);
+  }
+  success(`Recorded ${contractName} ${version} at ${address} on ${chainName}`);
   log("");
 }
 
-function verifyContract(
+/**
+ * Builds a verifier submission from the frozen package: standard JSON input,
+ * compiler version and compilation target all come from
+ * deployments/<Contract>/<version>/.
+ */
+function getFrozenVerificationInput(
+  contractName: string,
+  version: string,
+): Omit<VerificationSubmission, "chainId" | "address" | "constructorArgs"> | null {
+  const inputPath = join(getPackageDir(contractName, version), "verify", "standard-json-input.json");
+  const metadataPath = getArtifactPath(contractName, version, ".metadata.json");
+  if (!existsSync(inputPath) || !existsSync(metadataPath)) {
+    return null;
+  }
+
+  const compilerMetadata = JSON.parse(readFileSync(metadataPath, "utf8"));
+  const target = Object.entries(
+    compilerMetadata.settings.compilationTarget as Record<string, string>,
+  )[0];
+
+  return {
+    contractIdentifier: `${target[0]}:${target[1]}`,
+    compilerVersion: compilerMetadata.compiler.version,
+    standardJsonInput: JSON.parse(readFileSync(inputPath, "utf8")),
+  };
+}
+
+function getVerifierEndpoints(chain: Chain, env: Env, only?: VerifierName[]): VerifierEndpoint[] {
+  const endpoints: VerifierEndpoint[] = [];
+  for (const name of only ?? chain.verifiers) {
+    if (name === "etherscan") {
+      if (!env.ETHERSCAN_API_KEY) {
+        warn("ETHERSCAN_API_KEY not set, skipping Etherscan");
+        continue;
+      }
+      endpoints.push({ name, url: ETHERSCAN_V2_API, apiKey: env.ETHERSCAN_API_KEY });
+    } else if (name === "blockscout") {
+      if (!chain.blockscoutApi) {
+        warn(`No blockscoutApi configured for ${chain.name}, skipping Blockscout`);
+        continue;
+      }
+      endpoints.push({ name, url: chain.blockscoutApi });
+    } else {
+      endpoints.push({ name, url: SOURCIFY_API });
+    }
+  }
+  return endpoints;
+}
+
+async function verifyContract(
   config: Config,
   env: Env,
   chains: Record<string, Chain>,
   contractName: string,
   chainName: string,
-): void {
+  environment: Environment,
+  only?: VerifierName[],
+): Promise<void> {
   const chain = chains[chainName];
   if (!chain) {
     error(`Unknown chain: ${chainName}`);
@@ -804,41 +1759,110 @@ function verifyContract(
     process.exit(1);
   }
 
-  const address = getContractAddress(config, contractName)!;
-  const args = resolveConstructorArgs(config, contractName, chainName);
-  const etherscanApiKey = env.ETHERSCAN_API_KEY;
+  // The recorded deployment says which version is live; otherwise the one
+  // that would be deployed
+  const recorded = findRecordedVersion(contractName, chainName, environment);
+  const record = recorded?.record;
+  const version = recorded?.version ?? getDeployVersion(config, contractName);
+  const frozen = version ? getFrozenVerificationInput(contractName, version) : null;
+  if (!version || !frozen) {
+    error(`No frozen verification input for ${contractName}`);
+    log(`  Expected deployments/${contractName}/${version ?? "<version>"}/verify/standard-json-input.json`);
+    process.exit(1);
+  }
+
+  // Prefer the args recorded at deployment time over re-resolving the config
+  const address = record?.address ?? getContractAddress(config, contractName, chainName)!;
+
+  let constructorArgs = record?.chains[chainName].constructorArgs;
+  if (!constructorArgs) {
+    try {
+      constructorArgs = encodeConstructorArgs(
+        getFrozenAbi(contractName, version) ?? [],
+        resolveConstructorArgs(config, contractName, chainName),
+      );
+    } catch (e) {
+      error(`Cannot encode constructor args: ${(e as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const endpoints = getVerifierEndpoints(chain, env, only);
+  if (endpoints.length === 0) {
+    error("No verifiers available");
+    process.exit(1);
+  }
 
   log("");
-  info(`Verifying ${contractName} at ${address} on ${chainName}...`);
+  info(`Verifying ${contractName} ${version} at ${address} on ${chainName}...`);
+  log(`  ${colors.dim}${frozen.contractIdentifier} (solc ${frozen.compilerVersion})${colors.reset}`);
   log("");
 
-  let constructorArgsCmd = "";
-  if (args.length > 0) {
-    const types = args.map(() => "address").join(",");
-    const values = args.join(" ");
-    constructorArgsCmd = `--constructor-args $(cast abi-encode "constructor(${types})" ${values})`;
-  }
+  const submission: VerificationSubmission = {
+    ...frozen,
+    chainId: chain.chainId,
+    address,
+    constructorArgs,
+  };
 
-  let verifierArgs = "";
-  if (chain.etherscanApi && etherscanApiKey) {
-    verifierArgs = `--verifier etherscan --verifier-url ${chain.etherscanApi} --etherscan-api-key ${etherscanApiKey}`;
+  const results: VerificationResult[] = [];
+  for (const endpoint of endpoints) {
+    info(`Submitting to ${endpoint.name}...`);
+    const result = await verifyWith(endpoint, submission);
+    results.push(result);
+    if (result.status === "failed") {
+      error(`${endpoint.name}: ${result.message}`);
+    } else {
+      success(`${endpoint.name}: ${result.status}`);
+    }
   }
 
-  const cmd = `forge verify-contract ${address} ${contractName} --chain ${chain.chainId} --watch ${constructorArgsCmd} ${verifierArgs}`;
+  if (record) {
+    const checkedAt = new Date().toISOString();
+    updateMetadata(contractName, version, (m) => {
+      const entry = m.deployments.find((d) => d.id === record.id)!.chains[chainName];
+      entry.verification ??= {};
+      for (const result of results) {
+        entry.verification[result.verifier] = {
+          status: result.status === "failed" ? "failed" : "verified",
+          checkedAt,
+          ...(result.message && { message: result.message }),
+        };
+      }
+    });
+    info("Verification status recorded in metadata.json");
+  } else {
+    warn(`${contractName} has no ${environment} record on ${chainName}; status not recorded`);
+  }
 
-  try {
-    execSync(cmd, { stdio: "inherit", cwd: process.cwd() });
-    success(`${contractName} verified on ${chainName}`);
-  } catch {
-    error(`Failed to verify ${contractName}`);
+  log("");
+  if (results.some((r) => r.status === "failed")) {
     process.exit(1);
   }
 }
 
+/**
+ * Abandons the unfinished journal for a contract/chain, e.g. after its
+ * transaction was dropped, so the next run doesn't resume into it.
+ */
+function abandonDeployment(contractName: string, chainName: string, environment: Environment): void {
+  const journal = loadJournal(contractName, chainName, environment);
+  if (!journal) {
+    info(`No unfinished ${environment} deployment of ${contractName} on ${chainName}`);
+    return;
+  }
+  const txHash = getStepData(journal, "submitted")?.txHash as string | undefined;
+  abandonJournal(journal, "Abandoned by operator");
+  success(`Abandoned the journal after step "${lastStep(journal)}"`);
+  if (txHash) {
+    warn(`Transaction ${txHash} was submitted. If it still lands, record it with --record.`);
+  }
+}
+
 function printUsage(): void {
   log("");
   log(
-    `${colors.blue}Deploy Script${colors.reset} - Deploy Spritz contracts with 1Password`,
+    `${colors.blue}Deploy Script${colors.reset} - Deploy Spritz contracts`,
   );
   log("");
   log(`${colors.bold}Commands:${colors.reset}`);
@@ -849,7 +1873,15 @@ function printUsage(): void {
   log(
     `  ${colors.green}bun deployment <Contract> <chain> --broadcast${colors.reset}`,
   );
-  log(`      Deploy contract to chain (requires 1Password)`);
+  log(`      Deploy contract to chain (requires the deployer key, see keyRef)`);
+  log(`      --confirmations <n>  Blocks to wait for (default 1)`);
+  log(`      --check-build        Rebuild the frozen package first on mainnets (see bun freeze --verify);`);
+  log(`                           always on when config.json sets requireBuildCheck`);
+  log("");
+  log(
+    `  ${colors.green}bun deployment --all --chains <a,b,...> [--broadcast]${colors.reset}`,
+  );
+  log(`      Deploy every configured contract, in dependency order, to each chain`);
   log("");
   log(`  ${colors.green}bun deployment --address <Contract>${colors.reset}`);
   log(`      Show computed address for a contract`);
@@ -866,15 +1898,31 @@ function printUsage(): void {
   log(`      Record an existing deployment`);
   log("");
   log(
-    `  ${colors.green}bun deployment --verify <Contract> <chain>${colors.reset}`,
+    `  ${colors.green}bun deployment --verify <Contract> <chain> [--verifier etherscan,sourcify,blockscout]${colors.reset}`,
+  );
+  log(`      Verify frozen sources on block explorers and record the outcome`);
+  log("");
+  log(
+    `  ${colors.green}bun deployment --abandon <Contract> <chain>${colors.reset}`,
   );
-  log(`      Verify contract on block explorer`);
+  log(`      Give up on an unfinished deployment so the next run starts over instead of resuming`);
+  log("");
+  log(
+    `  ${colors.green}bun deployment --audit [chain] [--rpc <url>]${colors.reset}`,
+  );
+  log(`      Compare recorded deployments with live bytecode (exits 1 on drift)`);
+  log("");
+  log(`  ${colors.green}bun deployment --doctor [chain]${colors.reset}`);
+  log(`      Check chain config (chainId, CreateX, addresses, admin Safe, Safe service) against the RPC`);
+  log("");
+  log(`  ${colors.green}bun deployment --funding [chain]${colors.reset}`);
+  log(`      Show what the deployer needs on each chain to deploy everything pending`);
   log("");
   log(`${colors.bold}Options:${colors.reset}`);
   log("");
   log(`  ${colors.green}--env <environment>${colors.reset}`);
-  log(`      Use environment-specific salts (production | sandbox)`);
-  log(`      Default: production`);
+  log(`      Use environment-specific salts, admin, chains and addresses`);
+  log(`      Known: ${loadEnvironmentNames().join(", ")} (default: production)`);
   log("");
   log(`${colors.bold}Examples:${colors.reset}`);
   log(
@@ -886,6 +1934,9 @@ function printUsage(): void {
   log(
     `  ${colors.dim}bun deployment SpritzPayCore base --env sandbox${colors.reset} # Simulate (sandbox)`,
   );
+  log(
+    `  ${colors.dim}bun deployment --all --chains base,arbitrum --env sandbox${colors.reset}`,
+  );
   log(
     `  ${colors.dim}bun deployment --address SpritzRouter${colors.reset}          # Show address`,
   );
@@ -910,9 +1961,33 @@ function printUsage(): void {
   log("");
 }
 
-function main(): void {
+// config.json's requireBuildCheck makes --check-build the default
+function wantsBuildCheck(config: Config, args: string[]): boolean {
+  return args.includes("--check-build") || config.requireBuildCheck === true;
+}
+
+function parseConfirmationsArg(args: string[], chain?: Chain): number {
+  const index = args.indexOf("--confirmations");
+  if (index === -1) {
+    return chain?.confirmations ?? 1;
+  }
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    error(`Invalid --confirmations value: ${args[index + 1]}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
   const rawArgs = process.argv.slice(2);
-  const environment = parseEnvironmentArg(rawArgs);
+  let environment: Environment;
+  try {
+    environment = parseEnvironmentArg(rawArgs, loadEnvironmentNames());
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
   const args = filterEnvArg(rawArgs);
 
   const env = loadEnv();
@@ -961,6 +2036,31 @@ function main(): void {
     process.exit(0);
   }
 
+  if (args[0] === "--audit") {
+    const chainName = args[1] && !args[1].startsWith("-") ? args[1] : undefined;
+    const rpcIndex = args.indexOf("--rpc");
+    const rpc = rpcIndex === -1 ? undefined : args[rpcIndex + 1];
+    if (rpcIndex !== -1 && (!rpc || !chainName)) {
+      error("--rpc requires a chain and a URL");
+      log(`  Usage: bun deployment --audit <chain> --rpc <url>`);
+      process.exit(1);
+    }
+    const ok = await auditDeployments(config, chains, environment, { chainName, rpc });
+    process.exit(ok ? 0 : 1);
+  }
+
+  if (args[0] === "--doctor") {
+    const chainName = args[1] && !args[1].startsWith("-") ? args[1] : undefined;
+    const ok = await runDoctor(config, env, chains, chainName);
+    process.exit(ok ? 0 : 1);
+  }
+
+  if (args[0] === "--funding") {
+    const chainName = args[1] && !args[1].startsWith("-") ? args[1] : undefined;
+    const ok = await showFunding(config, chains, environment, chainName);
+    process.exit(ok ? 0 : 1);
+  }
+
   if (args[0] === "--record" || args[0] === "-r") {
     const contractName = args[1];
     const chainName = args[2];
@@ -969,7 +2069,19 @@ function main(): void {
       log(`  Usage: bun deployment --record <Contract> <chain>`);
       process.exit(1);
     }
-    recordDeployment(config, chains, contractName, chainName, environment);
+    await recordDeployment(config, chains, contractName, chainName, environment);
+    process.exit(0);
+  }
+
+  if (args[0] === "--abandon") {
+    const contractName = args[1];
+    const chainName = args[2];
+    if (!contractName || !chainName) {
+      error("Missing contract name or chain");
+      log(`  Usage: bun deployment --abandon <Contract> <chain>`);
+      process.exit(1);
+    }
+    abandonDeployment(contractName, chainName, environment);
     process.exit(0);
   }
 
@@ -981,10 +2093,35 @@ function main(): void {
       log(`  Usage: bun deployment --verify <Contract> <chain>`);
       process.exit(1);
     }
-    verifyContract(config, env, chains, contractName, chainName);
+    const verifierIndex = args.indexOf("--verifier");
+    let only: VerifierName[] | undefined;
+    if (verifierIndex !== -1) {
+      only = (args[verifierIndex + 1] ?? "").split(",").filter(Boolean) as VerifierName[];
+      const unknown = only.filter((v) => !VERIFIERS.includes(v));
+      if (only.length === 0 || unknown.length > 0) {
+        error(`Unknown verifier: ${unknown.join(", ") || "(none)"}`);
+        log(`  Available: ${VERIFIERS.join(", ")}`);
+        process.exit(1);
+      }
+    }
+    await verifyContract(config, env, chains, contractName, chainName, environment, only);
     process.exit(0);
   }
 
+  if (args[0] === "--all") {
+    const chainsIndex = args.indexOf("--chains");
+    const chainList = chainsIndex === -1 ? undefined : args[chainsIndex + 1];
+    if (!chainList || chainList.startsWith("-")) {
+      error("Missing chain list");
+      log(`  Usage: bun deployment --all --chains <chain1,chain2,...> [--broadcast]`);
+      process.exit(1);
+    }
+    const chainNames = chainList.split(",").map((c) => c.trim()).filter(Boolean);
+    const broadcast = args.includes("--broadcast") || args.includes("-b");
+    const ok = await deployAll(config, env, chains, chainNames, environment, broadcast, args, wantsBuildCheck(config, args));
+    process.exit(ok ? 0 : 1);
+  }
+
   if (args[0].startsWith("-")) {
     error(`Unknown option: ${args[0]}`);
     printUsage();
@@ -1002,7 +2139,15 @@ function main(): void {
 
   const broadcast = args.includes("--broadcast") || args.includes("-b");
 
-  deploy(config, env, chains, contractName, chainName, environment, broadcast);
+  const status = await deploy(config, env, chains, contractName, chainName, environment, {
+    broadcast,
+    confirmations: parseConfirmationsArg(args, chains[chainName]),
+    checkBuild: wantsBuildCheck(config, args),
+  });
+  process.exit(status === "failed" ? 1 : 0);
 }
 
-main();
+main().catch((e) => {
+  error((e as Error).message);
+  process.exit(1);
+});
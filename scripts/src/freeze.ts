@@ -6,19 +6,55 @@
  * Uses official Forge tools (forge inspect) to extract bytecode reliably.
  *
  * Usage:
- *   bun freeze <ContractName>                Freeze a contract for deployment
- *   bun freeze --delete <Contract>           Delete a frozen build
- *   bun freeze --list                        List all frozen contracts
+ *   bun freeze <ContractName>                  Freeze the next version of a contract
+ *   bun freeze <ContractName> --allow-dirty    Freeze with uncommitted changes in the tree
+ *   bun freeze --current <Contract> <version>  Point current at another frozen version
+ *   bun freeze --delete <Contract> [version]   Delete a frozen version
+ *   bun freeze --diff <Contract> [--against v] Markdown report of working tree changes since a version
+ *   bun freeze --list                          List frozen versions and where they are live
+ *   bun freeze --migrate                       Move packages to versioned dirs and upgrade metadata.json
+ *   bun freeze --verify <Contract> [version]   Rebuild a frozen package and compare bytecode
+ *
+ * Packages live in deployments/<Contract>/<version>/ (v1, v2, ...). Freezing
+ * never touches earlier versions; deployments/<Contract>/current names the
+ * version deployed unless config.json pins one.
  */
 
 import { execSync } from "child_process";
-import { createHash, randomUUID } from "crypto";
-import { existsSync, readFileSync, writeFileSync, readdirSync, mkdirSync, rmSync, statSync, copyFileSync } from "fs";
-import { join, dirname, basename, relative } from "path";
-import { log, success, error, info, warn, colors } from "./lib/console";
+import { keccak256 } from "ethers";
+import { existsSync, readFileSync, writeFileSync, readdirSync, mkdirSync, rmSync, copyFileSync } from "fs";
+import { join, basename, relative } from "path";
+import { extractImmutableReferences } from "./lib/bytecode";
+import { log, success, error, info, progress, warn, colors } from "./lib/console";
+import { compareSizes, diffAbi, diffSources, diffStorageLayout, renderDiffReport, type StorageLayout } from "./lib/diff";
+import {
+  DEPLOYMENTS_DIR,
+  METADATA_SCHEMA_VERSION,
+  compilerSettingsFromMetadata,
+  getArtifactPath,
+  getContractDir,
+  getDeployedChains,
+  getMetadataPath,
+  getPackageDir,
+  listFrozenContracts,
+  listVersions,
+  migrateMetadata,
+  migratePackageLayout,
+  nextVersion,
+  readAllMetadata,
+  readCurrentVersion,
+  readMetadata,
+  writeCurrentVersion,
+  writeMetadata,
+  type FrozenVersion,
+  type Metadata,
+} from "./lib/metadata";
+import { generateChecksums, parseFoundryLock, rebuildFrozenPackage } from "./lib/rebuild";
+import { parseStandardJsonInput, writeSourceTree } from "./lib/sources";
+import { VersionSchema } from "./lib/validation";
 
-const DEPLOYMENTS_DIR = join(process.cwd(), "deployments");
 const SRC_DIR = join(process.cwd(), "src");
+const OUT_DIR = join(process.cwd(), "out");
 
 function run(cmd: string, options: { silent?: boolean; encoding?: BufferEncoding; cwd?: string } = {}): string | null {
   try {
@@ -44,6 +80,13 @@ function forgeInspect(contractName: string, field: string): string {
   return result.trim();
 }
 
+function showStandardJsonInput(contractName: string): string | null {
+  return run(
+    `forge verify-contract --show-standard-json-input --root . 0x0000000000000000000000000000000000000000 ${contractName}`,
+    { silent: true, encoding: "utf8" }
+  );
+}
+
 function findContractSource(contractName: string): string | null {
   const directPath = join(SRC_DIR, `${contractName}.sol`);
   if (existsSync(directPath)) {
@@ -60,142 +103,103 @@ function findContractSource(contractName: string): string | null {
   return null;
 }
 
-function extractImports(sourceCode: string): string[] {
-  const imports: string[] = [];
-  const importRegex = /import\s+(?:{[^}]+}\s+from\s+)?["']([^"']+)["']/g;
-  let match;
-
-  while ((match = importRegex.exec(sourceCode)) !== null) {
-    const importPath = match[1];
-    if (importPath.startsWith("./") || importPath.startsWith("../")) {
-      imports.push(importPath);
-    } else if (
-      importPath.startsWith("./interfaces/") ||
-      importPath.includes("/interfaces/")
-    ) {
-      imports.push(importPath);
-    }
-  }
-
-  return imports;
-}
-
-function copySourceWithDeps(contractName: string, sourcePath: string, destDir: string): void {
-  const srcSubdir = join(destDir, "src");
-  mkdirSync(srcSubdir, { recursive: true });
-
-  const sourceCode = readFileSync(sourcePath, "utf8");
-  writeFileSync(join(srcSubdir, `${contractName}.sol`), sourceCode);
-
-  const imports = extractImports(sourceCode);
-
-  for (const imp of imports) {
-    let resolvedPath: string;
-    if (imp.startsWith("./")) {
-      resolvedPath = join(dirname(sourcePath), imp);
-    } else {
-      resolvedPath = join(SRC_DIR, imp);
-    }
-
-    if (existsSync(resolvedPath)) {
-      const relDir = dirname(imp.replace(/^\.\//, ""));
-      const destSubdir = join(srcSubdir, relDir);
-      mkdirSync(destSubdir, { recursive: true });
-
-      const fileName = basename(resolvedPath);
-      copyFileSync(resolvedPath, join(destSubdir, fileName));
-    }
+function migrateAll(): void {
+  if (!existsSync(DEPLOYMENTS_DIR)) {
+    info("No frozen contracts yet.");
+    return;
   }
 
-  const interfacesDir = join(SRC_DIR, "interfaces");
-  if (existsSync(interfacesDir)) {
-    const destInterfacesDir = join(srcSubdir, "interfaces");
-    mkdirSync(destInterfacesDir, { recursive: true });
+  log("");
+  info(`Migrating packages to versioned dirs and metadata.json files to schema v${METADATA_SCHEMA_VERSION}...`);
+  log("");
 
-    const interfaces = readdirSync(interfacesDir);
-    for (const iface of interfaces) {
-      if (iface.endsWith(".sol")) {
-        copyFileSync(
-          join(interfacesDir, iface),
-          join(destInterfacesDir, iface)
-        );
+  let failed = false;
+  for (const contractName of listFrozenContracts()) {
+    try {
+      if (migratePackageLayout(contractName)) {
+        success(`${contractName}: moved to deployments/${contractName}/v1`);
       }
+    } catch (e) {
+      error(`${contractName}: ${(e as Error).message}`);
+      failed = true;
+      continue;
     }
-  }
-}
 
-function generateChecksums(dir: string): string {
-  const checksums: string[] = [];
-
-  function walkDir(currentDir: string, relativePath: string = ""): void {
-    const files = readdirSync(currentDir);
-    for (const file of files) {
-      const fullPath = join(currentDir, file);
-      const relPath = join(relativePath, file);
-      const stat = statSync(fullPath);
-
-      if (stat.isDirectory()) {
-        walkDir(fullPath, relPath);
-      } else {
-        const content = readFileSync(fullPath);
-        const hash = createHash("sha256").update(content).digest("hex");
-        checksums.push(`${hash}  ./${relPath}`);
+    for (const version of listVersions(contractName)) {
+      const label = `${contractName} ${version}`;
+      try {
+        const migrated = migrateMetadata(JSON.parse(readFileSync(getMetadataPath(contractName, version), "utf8")));
+        if (migrated) {
+          writeMetadata(migrated, version);
+          success(`${label}: migrated`);
+        } else {
+          log(`  ${colors.dim}${label}: already v${METADATA_SCHEMA_VERSION}${colors.reset}`);
+        }
+      } catch (e) {
+        error(`${label}: ${(e as Error).message}`);
+        failed = true;
       }
     }
   }
 
-  walkDir(dir);
-  return checksums.sort().join("\n");
-}
-
-interface DeploymentRecord {
-  id: string;
-  deployer: string;
-  address: string;
-  salt: string;
-  environment?: string;
-  chains: string[];
-  constructorArgs?: string[];
-}
-
-interface Metadata {
-  contract: string;
-  frozenAt: string;
-  gitCommit: string;
-  gitBranch: string;
-  compiler: {
-    solc: string;
-    evmVersion: string;
-    optimizer: boolean;
-    optimizerRuns: number;
-    viaIR: boolean;
-    cborMetadata: boolean;
-    bytecodeHash: string;
-  };
-  initcodeHash: string;
-  deployments: DeploymentRecord[];
+  log("");
+  if (failed) {
+    process.exit(1);
+  }
 }
 
-function getMetadata(contractName: string): Metadata | null {
-  const metadataPath = join(DEPLOYMENTS_DIR, contractName, "metadata.json");
-  if (!existsSync(metadataPath)) {
+/**
+ * Uncommitted changes in the working tree, as `git status --porcelain` lines.
+ * Null if this isn't a git checkout.
+ */
+function getDirtyFiles(): string[] | null {
+  const status = run("git status --porcelain", { silent: true, encoding: "utf8" });
+  if (status === null) {
     return null;
   }
-  return JSON.parse(readFileSync(metadataPath, "utf8"));
+  return status.split("\n").filter(Boolean);
 }
 
-function freezeContract(contractName: string): void {
+function freezeContract(contractName: string, options: { allowDirty: boolean }): void {
   log("");
   info(`Freezing ${contractName}...`);
   log("");
 
-  const deploymentDir = join(DEPLOYMENTS_DIR, contractName);
+  // A package built from uncommitted sources can't be traced back to gitCommit
+  const dirtyFiles = getDirtyFiles();
+  if (dirtyFiles === null) {
+    error("Not a git checkout; the package could not be traced to a commit");
+    process.exit(1);
+  }
+  if (dirtyFiles.length > 0) {
+    if (!options.allowDirty) {
+      error(`Working tree has ${dirtyFiles.length} uncommitted change(s):`);
+      for (const line of dirtyFiles.slice(0, 10)) {
+        log(`  ${colors.dim}${line}${colors.reset}`);
+      }
+      if (dirtyFiles.length > 10) {
+        log(`  ${colors.dim}...and ${dirtyFiles.length - 10} more${colors.reset}`);
+      }
+      log("");
+      log(`  Commit or stash them first, or pass ${colors.dim}--allow-dirty${colors.reset} (recorded in metadata.json)`);
+      log("");
+      process.exit(1);
+    }
+    warn(`Freezing with ${dirtyFiles.length} uncommitted change(s) (--allow-dirty)`);
+  }
+
+  let previous: string | null;
+  try {
+    previous = readCurrentVersion(contractName);
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+  const version = nextVersion(contractName);
+  const deploymentDir = getPackageDir(contractName, version);
   if (existsSync(deploymentDir)) {
-    error(`${contractName} is already frozen.`);
-    log("");
-    log(`  To re-freeze, first delete the existing build:`);
-    log(`  ${colors.dim}bun freeze --delete ${contractName}${colors.reset}`);
-    log("");
+    error(`deployments/${contractName}/${version} exists but has no metadata.json (an interrupted freeze?)`);
+    log(`  Remove it and freeze again.`);
     process.exit(1);
   }
 
@@ -207,8 +211,8 @@ function freezeContract(contractName: string): void {
   }
   success(`Found source: ${relative(process.cwd(), sourcePath)}`);
 
-  info("Building contracts (forge build --force)...");
-  run("forge build --force");
+  info("Building contracts (forge build --force --ast)...");
+  run("forge build --force --ast");
   success("Build complete");
 
   mkdirSync(deploymentDir, { recursive: true });
@@ -237,28 +241,49 @@ function freezeContract(contractName: string): void {
   const artifactJson = forgeInspect(contractName, "metadata");
   writeFileSync(join(artifactsDir, `${contractName}.metadata.json`), artifactJson);
 
-  const abi = forgeInspect(contractName, "abi");
+  const abi = forgeInspect(contractName, "abi --json");
   writeFileSync(join(artifactsDir, `${contractName}.abi.json`), abi);
 
-  success("Bytecode and ABI extracted via forge inspect");
+  const storageLayout = forgeInspect(contractName, "storageLayout --json");
+  writeFileSync(join(artifactsDir, `${contractName}.storage.json`), storageLayout);
+
+  success("Bytecode, ABI and storage layout extracted via forge inspect");
+
+  const buildArtifactPath = join(OUT_DIR, basename(sourcePath), `${contractName}.json`);
+  if (!existsSync(buildArtifactPath)) {
+    error(`Build artifact not found: ${relative(process.cwd(), buildArtifactPath)}`);
+    process.exit(1);
+  }
+  const immutables = extractImmutableReferences(JSON.parse(readFileSync(buildArtifactPath, "utf8")));
+  writeFileSync(join(artifactsDir, `${contractName}.immutables.json`), JSON.stringify(immutables, null, 2));
+  if (immutables.length > 0) {
+    success(`Immutable references captured: ${immutables.map((i) => i.name).join(", ")}`);
+  } else {
+    success("No immutables");
+  }
 
+  // The standard JSON input lists every file solc read, so the package gets
+  // exactly that source set. Without it the package can't be trusted.
   info("Generating verification JSON...");
-  const verifyOutput = run(
-    `forge verify-contract --show-standard-json-input --root . 0x0000000000000000000000000000000000000000 ${contractName}`,
-    { silent: true, encoding: "utf8" }
-  );
-  if (verifyOutput && verifyOutput.trim().startsWith("{")) {
+  const verifyOutput = showStandardJsonInput(contractName);
+  let sourcePaths: string[];
+  try {
+    if (!verifyOutput || !verifyOutput.trim().startsWith("{")) {
+      throw new Error("forge verify-contract --show-standard-json-input produced no JSON");
+    }
+    const standardJson = parseStandardJsonInput(verifyOutput);
     writeFileSync(join(verifyDir, "standard-json-input.json"), verifyOutput);
     success("Verification JSON generated");
-  } else {
-    warn("Could not generate verification JSON (non-fatal)");
-    log(`  ${colors.dim}You can generate it manually with:${colors.reset}`);
-    log(`  ${colors.dim}forge verify-contract --show-standard-json-input <address> ${contractName}${colors.reset}`);
-  }
 
-  info("Copying source files...");
-  copySourceWithDeps(contractName, sourcePath, deploymentDir);
-  success("Source files copied");
+    info("Writing source files from the compiler input...");
+    sourcePaths = writeSourceTree(standardJson, deploymentDir);
+  } catch (e) {
+    rmSync(deploymentDir, { recursive: true, force: true });
+    error(`Could not collect the compiler's sources: ${(e as Error).message}`);
+    process.exit(1);
+  }
+  const libraryCount = sourcePaths.filter((path) => !path.startsWith("src/")).length;
+  success(`Source files written: ${sourcePaths.length - libraryCount} from src/, ${libraryCount} from libraries`);
 
   info("Copying foundry.toml...");
   copyFileSync(join(process.cwd(), "foundry.toml"), join(deploymentDir, "foundry.toml"));
@@ -272,27 +297,37 @@ function freezeContract(contractName: string): void {
     gitBranch = run("git rev-parse --abbrev-ref HEAD", { silent: true, encoding: "utf8" })?.trim() ?? "unknown";
   } catch { /* ignore */ }
 
-  const initcodeHash = run(`cast keccak ${initcode}`, { silent: true, encoding: "utf8" })?.trim() ?? "";
+  const initcodeHash = keccak256(initcode);
+
+  // A version with the same initcode would only be a second name for it
+  const duplicate = readAllMetadata(contractName).find((v) => v.metadata.initcodeHash.toLowerCase() === initcodeHash.toLowerCase());
+  if (duplicate) {
+    rmSync(deploymentDir, { recursive: true, force: true });
+    error(`Initcode is identical to ${contractName} ${duplicate.version}; nothing to freeze`);
+    process.exit(1);
+  }
+
+  // Settings as solc used them, not as foundry.toml is believed to say
+  const forgeVersion = run("forge --version", { silent: true, encoding: "utf8" })?.split("\n")[0].trim();
+  const compiler = compilerSettingsFromMetadata(JSON.parse(artifactJson), forgeVersion);
+
+  const lockPath = join(process.cwd(), "foundry.lock");
+  const dependencies = existsSync(lockPath) ? parseFoundryLock(readFileSync(lockPath, "utf8")) : {};
 
   const metadata: Metadata = {
+    schemaVersion: METADATA_SCHEMA_VERSION,
     contract: contractName,
     frozenAt: new Date().toISOString(),
     gitCommit,
     gitBranch,
-    compiler: {
-      solc: "0.8.30",
-      evmVersion: "cancun",
-      optimizer: true,
-      optimizerRuns: 10000000,
-      viaIR: false,
-      cborMetadata: false,
-      bytecodeHash: "none",
-    },
+    ...(dirtyFiles.length > 0 ? { gitDirty: true } : {}),
+    compiler,
+    dependencies,
     initcodeHash,
     deployments: [],
   };
 
-  writeFileSync(join(deploymentDir, "metadata.json"), JSON.stringify(metadata, null, 2));
+  writeMetadata(metadata, version);
   success("Metadata generated");
 
   info("Generating checksums...");
@@ -300,39 +335,187 @@ function freezeContract(contractName: string): void {
   writeFileSync(join(deploymentDir, "checksums.sha256"), checksums);
   success("Checksums generated");
 
+  writeCurrentVersion(contractName, version);
+
   log("");
   log(`${colors.green}═══════════════════════════════════════════════════════════${colors.reset}`);
-  log(`${colors.green}  ${contractName} frozen successfully${colors.reset}`);
+  log(`${colors.green}  ${contractName} ${version} frozen successfully${colors.reset}`);
   log(`${colors.green}═══════════════════════════════════════════════════════════${colors.reset}`);
   log("");
-  log(`  Location: ${colors.dim}deployments/${contractName}/${colors.reset}`);
+  log(`  Location: ${colors.dim}deployments/${contractName}/${version}/${colors.reset} (now current)`);
   log(`  Initcode hash: ${colors.dim}${initcodeHash.slice(0, 18)}...${colors.reset}`);
+  log(`  Compiler: ${colors.dim}solc ${compiler.solc}, ${compiler.evmVersion}, ${compiler.optimizer ? `${compiler.optimizerRuns} runs` : "no optimizer"}${compiler.viaIR ? ", via-IR" : ""}${colors.reset}`);
   log("");
+  const live = previous ? readMetadata(contractName, previous)!.deployments.length > 0 : false;
+  if (live) {
+    warn(`${contractName} ${previous} has deployments. Pin "version": "${previous}" in config.json for them,`);
+    log(`  or give ${version} a new salt: CREATE3 addresses depend only on the salt.`);
+    log("");
+  }
   log(`  Next steps:`);
-  log(`  1. Generate a vanity salt with createXcrunch`);
-  log(`  2. Update Deploy.s.sol with the salt and initcode hash`);
-  log(`  3. Commit: ${colors.dim}git add deployments/${contractName}${colors.reset}`);
+  log(`  1. Give ${version} a salt in config.json: ${colors.dim}bun salt --pick ${contractName}${colors.reset}`);
+  log(`     or pin "version" in config.json where an earlier version stays deployed`);
+  log(`  2. Regenerate bindings: ${colors.dim}bun bindings${colors.reset}`);
+  log(`  3. Commit: ${colors.dim}git add deployments/${contractName} scripts/src/generated${colors.reset}`);
+  log(`  4. Deploy: ${colors.dim}bun deployment ${contractName} <chain>${colors.reset}`);
   log("");
 }
 
-function deleteContract(contractName: string, force: boolean = false): void {
-  const deploymentDir = join(DEPLOYMENTS_DIR, contractName);
+/**
+ * Resolves an optional version argument against the frozen versions,
+ * defaulting to current. Exits with a message if it can't.
+ */
+function resolveVersionArg(contractName: string, version?: string): string {
+  let versions: string[];
+  let current: string | null;
+  try {
+    versions = listVersions(contractName);
+    current = readCurrentVersion(contractName);
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
 
-  if (!existsSync(deploymentDir)) {
+  if (versions.length === 0) {
     error(`${contractName} is not frozen.`);
     log("");
     log(`  Available frozen contracts:`);
     listContracts();
     process.exit(1);
   }
+  if (version && !versions.includes(version)) {
+    error(`${contractName} ${version} is not frozen (frozen: ${versions.join(", ")})`);
+    process.exit(1);
+  }
+  return version ?? current ?? versions[versions.length - 1];
+}
+
+function verifyContract(contractName: string, requested?: string): void {
+  const version = resolveVersionArg(contractName, requested);
+
+  log("");
+  info(`Rebuilding deployments/${contractName}/${version} in a temp dir...`);
+  log("");
+
+  const checks = rebuildFrozenPackage(contractName, version);
+  for (const check of checks) {
+    const detail = check.detail ? ` ${colors.dim}${check.detail}${colors.reset}` : "";
+    if (check.ok) {
+      success(`${check.name}${detail}`);
+    } else {
+      error(`${check.name}${detail}`);
+    }
+  }
+
+  log("");
+  if (checks.some((c) => !c.ok)) {
+    error(`${contractName} ${version} does not reproduce from its frozen package`);
+    log("");
+    process.exit(1);
+  }
+  success(`${contractName} ${version} rebuilds to the frozen bytecode`);
+  log("");
+}
+
+function setCurrent(contractName: string, version: string): void {
+  resolveVersionArg(contractName, version);
+  writeCurrentVersion(contractName, version);
+  success(`deployments/${contractName}/current now points at ${version}`);
+}
+
+/**
+ * Files under a frozen package's src/, keyed by their compiled path.
+ */
+function readFrozenSources(packageDir: string): Record<string, string> {
+  const sources: Record<string, string> = {};
+  const srcDir = join(packageDir, "src");
+  if (!existsSync(srcDir)) {
+    return sources;
+  }
+  for (const file of readdirSync(srcDir, { recursive: true }) as string[]) {
+    if (file.endsWith(".sol")) {
+      sources[join("src", file)] = readFileSync(join(srcDir, file), "utf8");
+    }
+  }
+  return sources;
+}
+
+/**
+ * Builds the working tree and prints a markdown report of how it differs
+ * from a frozen version. Progress goes to stderr so stdout is the report.
+ */
+function diffContract(contractName: string, requested: string | undefined, outPath: string | undefined): void {
+  const version = resolveVersionArg(contractName, requested);
+
+  progress("Building the working tree (forge build)...");
+  if (run("forge build", { silent: true }) === null) {
+    error("forge build failed");
+    process.exit(1);
+  }
+
+  let markdown: string;
+  try {
+    const standardJson = showStandardJsonInput(contractName);
+    if (!standardJson || !standardJson.trim().startsWith("{")) {
+      throw new Error("forge verify-contract --show-standard-json-input produced no JSON");
+    }
+    const currentSources = Object.fromEntries(
+      Object.entries(parseStandardJsonInput(standardJson).sources)
+        .filter(([path, source]) => path.startsWith("src/") && source.content !== undefined)
+        .map(([path, source]) => [path, source.content!])
+    );
+
+    // Packages frozen before storage layouts were captured have none to compare
+    const storagePath = getArtifactPath(contractName, version, ".storage.json");
+    const frozenStorage = existsSync(storagePath) ? (JSON.parse(readFileSync(storagePath, "utf8")) as StorageLayout) : null;
+    const currentStorage = JSON.parse(forgeInspect(contractName, "storageLayout --json")) as StorageLayout;
+
+    markdown = renderDiffReport({
+      contract: contractName,
+      version,
+      sizes: compareSizes(
+        {
+          initcode: readFileSync(getArtifactPath(contractName, version, ".initcode"), "utf8"),
+          deployed: readFileSync(getArtifactPath(contractName, version, ".deployed"), "utf8"),
+        },
+        { initcode: forgeInspect(contractName, "bytecode"), deployed: forgeInspect(contractName, "deployedBytecode") }
+      ),
+      abi: diffAbi(
+        JSON.parse(readFileSync(getArtifactPath(contractName, version, ".abi.json"), "utf8")),
+        JSON.parse(forgeInspect(contractName, "abi --json"))
+      ),
+      storage: frozenStorage ? diffStorageLayout(frozenStorage, currentStorage) : null,
+      sources: diffSources(readFrozenSources(getPackageDir(contractName, version)), currentSources),
+    });
+  } catch (e) {
+    error(`Could not diff ${contractName} against ${version}: ${(e as Error).message}`);
+    process.exit(1);
+  }
+
+  if (outPath) {
+    writeFileSync(outPath, markdown);
+    success(`Report written to ${outPath}`);
+  } else {
+    process.stdout.write(markdown);
+  }
+}
+
+function deleteContract(contractName: string, requested: string | undefined, force: boolean = false): void {
+  const versions = listVersions(contractName);
+  if (!requested && versions.length > 1) {
+    error(`${contractName} has ${versions.length} frozen versions (${versions.join(", ")}); name the one to delete`);
+    log(`  Usage: bun freeze --delete ${contractName} <version>`);
+    process.exit(1);
+  }
+  const version = resolveVersionArg(contractName, requested);
 
-  const metadata = getMetadata(contractName);
-  if (metadata?.deployments && metadata.deployments.length > 0) {
-    error(`${contractName} has ${metadata.deployments.length} active deployment(s).`);
+  const metadata = readMetadata(contractName, version);
+  if (metadata && metadata.deployments.length > 0) {
+    error(`${contractName} ${version} has ${metadata.deployments.length} active deployment(s).`);
     log("");
     log(`  Deployments:`);
     for (const dep of metadata.deployments) {
-      log(`    ${colors.dim}${dep.id || "unknown"}${colors.reset}: ${dep.address} (${dep.chains.join(", ")})`);
+      log(`    ${colors.dim}${dep.id}${colors.reset}: ${dep.address} (${getDeployedChains(dep).join(", ")})`);
     }
     log("");
     if (!force) {
@@ -343,27 +526,26 @@ function deleteContract(contractName: string, force: boolean = false): void {
     warn("Proceeding with --force flag...");
   }
 
-  info(`Deleting frozen build for ${contractName}...`);
-  rmSync(deploymentDir, { recursive: true });
-  success(`Deleted deployments/${contractName}`);
+  info(`Deleting frozen build ${contractName} ${version}...`);
+  const current = readCurrentVersion(contractName);
+  const remaining = versions.filter((v) => v !== version);
+  if (remaining.length === 0) {
+    rmSync(getContractDir(contractName), { recursive: true });
+    success(`Deleted deployments/${contractName}`);
+  } else {
+    rmSync(getPackageDir(contractName, version), { recursive: true });
+    success(`Deleted deployments/${contractName}/${version}`);
+    if (current === version) {
+      const latest = remaining[remaining.length - 1];
+      writeCurrentVersion(contractName, latest);
+      warn(`current now points at ${latest}`);
+    }
+  }
   log("");
 }
 
 function listContracts(): void {
-  if (!existsSync(DEPLOYMENTS_DIR)) {
-    log("");
-    info("No frozen contracts yet.");
-    log("");
-    return;
-  }
-
-  const entries = readdirSync(DEPLOYMENTS_DIR, { withFileTypes: true });
-  const contracts = entries.filter(
-    (e) =>
-      e.isDirectory() &&
-      existsSync(join(DEPLOYMENTS_DIR, e.name, "metadata.json"))
-  );
-
+  const contracts = listFrozenContracts();
   if (contracts.length === 0) {
     log("");
     info("No frozen contracts yet.");
@@ -375,25 +557,30 @@ function listContracts(): void {
   log(`${colors.blue}Frozen Contracts${colors.reset}`);
   log("─".repeat(60));
 
-  for (const contract of contracts) {
-    const metadata = getMetadata(contract.name);
-    if (!metadata) continue;
-
-    const frozenAt = metadata.frozenAt
-      ? new Date(metadata.frozenAt).toLocaleDateString()
-      : "unknown";
-    const deployments = metadata.deployments || [];
-
+  for (const contractName of contracts) {
     log("");
-    log(`  ${colors.green}${contract.name}${colors.reset}`);
-    log(`  ${colors.dim}Frozen: ${frozenAt}${colors.reset}`);
-    log(`  ${colors.dim}Hash: ${metadata.initcodeHash?.slice(0, 18)}...${colors.reset}`);
+    log(`  ${colors.green}${contractName}${colors.reset}`);
+
+    let current: string | null;
+    let versions: FrozenVersion[];
+    try {
+      current = readCurrentVersion(contractName);
+      versions = readAllMetadata(contractName);
+    } catch (e) {
+      log(`  ${colors.red}${(e as Error).message}${colors.reset}`);
+      continue;
+    }
 
-    if (deployments.length === 0) {
-      log(`  ${colors.dim}Not deployed yet${colors.reset}`);
-    } else {
-      for (const dep of deployments) {
-        log(`  ${colors.dim}${dep.address} (${dep.chains.join(", ")})${colors.reset}`);
+    for (const { version, metadata } of versions) {
+      const frozenAt = metadata.frozenAt ? new Date(metadata.frozenAt).toLocaleDateString() : "unknown";
+      const marker = version === current ? ` ${colors.bold}(current)${colors.reset}` : "";
+      log(`  ${version}${marker} ${colors.dim}frozen ${frozenAt}, hash ${metadata.initcodeHash.slice(0, 18)}...${colors.reset}`);
+
+      if (metadata.deployments.length === 0) {
+        log(`    ${colors.dim}Not deployed yet${colors.reset}`);
+      }
+      for (const dep of metadata.deployments) {
+        log(`    ${colors.dim}${dep.environment}: ${dep.address} (${getDeployedChains(dep).join(", ")})${colors.reset}`);
       }
     }
   }
@@ -406,17 +593,40 @@ function printUsage(): void {
   log(`${colors.blue}Freeze Script${colors.reset} - Create immutable deployment packages`);
   log("");
   log(`Usage:`);
-  log(`  bun freeze <ContractName>                Freeze a contract`);
-  log(`  bun freeze --delete <Contract>           Delete a frozen build`);
-  log(`  bun freeze --delete <Contract> --force   Force delete (even with deployments)`);
-  log(`  bun freeze --list                        List frozen contracts`);
+  log(`  bun freeze <ContractName>                  Freeze the next version of a contract`);
+  log(`  bun freeze <ContractName> --allow-dirty    Freeze with uncommitted changes (recorded)`);
+  log(`  bun freeze --current <Contract> <version>  Point current at another frozen version`);
+  log(`  bun freeze --delete <Contract> [version]   Delete a frozen version`);
+  log(`  bun freeze --delete <Contract> <version> --force  Force delete (even with deployments)`);
+  log(`  bun freeze --diff <Contract> [--against v] Markdown report of changes since a version (default current)`);
+  log(`  bun freeze --diff <Contract> --out <file>  Write the report to a file`);
+  log(`  bun freeze --list                          List frozen versions and where they are live`);
+  log(`  bun freeze --migrate                       Move packages to versioned dirs, upgrade metadata.json`);
+  log(`  bun freeze --verify <Contract> [version]   Rebuild a frozen package and compare bytecode`);
   log("");
   log(`Examples:`);
   log(`  ${colors.dim}bun freeze SpritzPayCore${colors.reset}`);
-  log(`  ${colors.dim}bun freeze --delete SpritzPayCore${colors.reset}`);
+  log(`  ${colors.dim}bun freeze --current SpritzRouter v1${colors.reset}`);
+  log(`  ${colors.dim}bun freeze --delete SpritzRouter v2${colors.reset}`);
+  log(`  ${colors.dim}bun freeze --verify SpritzPayCore v1${colors.reset}`);
+  log(`  ${colors.dim}bun freeze --diff SpritzPayCore --against v1 > diff.md${colors.reset}`);
   log("");
 }
 
+/**
+ * Optional version argument after the contract name, e.g. `--verify C v2`.
+ */
+function parseVersionArg(arg: string | undefined): string | undefined {
+  if (arg === undefined || arg.startsWith("-")) {
+    return undefined;
+  }
+  if (!VersionSchema.safeParse(arg).success) {
+    error(`Invalid version "${arg}" (expected v1, v2, ...)`);
+    process.exit(1);
+  }
+  return arg;
+}
+
 function main(): void {
   const args = process.argv.slice(2);
 
@@ -430,14 +640,60 @@ function main(): void {
     process.exit(0);
   }
 
+  if (args[0] === "--migrate") {
+    migrateAll();
+    process.exit(0);
+  }
+
+  if (args[0] === "--verify") {
+    if (!args[1]) {
+      error("Missing contract name");
+      log(`  Usage: bun freeze --verify <ContractName> [version]`);
+      process.exit(1);
+    }
+    verifyContract(args[1], parseVersionArg(args[2]));
+    process.exit(0);
+  }
+
+  if (args[0] === "--diff") {
+    if (!args[1] || args[1].startsWith("-")) {
+      error("Missing contract name");
+      log(`  Usage: bun freeze --diff <ContractName> [--against <version>] [--out <file>]`);
+      process.exit(1);
+    }
+    const against = args.indexOf("--against");
+    if (against !== -1 && !parseVersionArg(args[against + 1])) {
+      error("Missing version after --against");
+      process.exit(1);
+    }
+    const out = args.indexOf("--out");
+    if (out !== -1 && (!args[out + 1] || args[out + 1].startsWith("-"))) {
+      error("Missing file after --out");
+      process.exit(1);
+    }
+    diffContract(args[1], against === -1 ? undefined : args[against + 1], out === -1 ? undefined : args[out + 1]);
+    process.exit(0);
+  }
+
+  if (args[0] === "--current") {
+    const version = parseVersionArg(args[2]);
+    if (!args[1] || !version) {
+      error("Missing contract name or version");
+      log(`  Usage: bun freeze --current <ContractName> <version>`);
+      process.exit(1);
+    }
+    setCurrent(args[1], version);
+    process.exit(0);
+  }
+
   if (args[0] === "--delete" || args[0] === "-d") {
     if (!args[1]) {
       error("Missing contract name");
-      log(`  Usage: bun freeze --delete <ContractName>`);
+      log(`  Usage: bun freeze --delete <ContractName> [version]`);
       process.exit(1);
     }
     const force = args.includes("--force") || args.includes("-f");
-    deleteContract(args[1], force);
+    deleteContract(args[1], parseVersionArg(args[2]), force);
     process.exit(0);
   }
 
@@ -447,7 +703,7 @@ function main(): void {
     process.exit(1);
   }
 
-  freezeContract(args[0]);
+  freezeContract(args[0], { allowDirty: args.includes("--allow-dirty") });
 }
 
 main();
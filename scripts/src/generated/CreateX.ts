@@ -0,0 +1,111 @@
+/**
+ * CreateX bindings - generated by `bun bindings` from scripts/abi/CreateX.json, do not edit
+ */
+
+import { Contract, Interface, type ContractRunner, type BigNumberish, type BytesLike } from "ethers";
+import type { TypedContract } from "../lib/bindings";
+
+export const CreateXAbi = [
+  {
+    "type": "function",
+    "name": "deployCreate3AndInit",
+    "inputs": [
+      {
+        "name": "salt",
+        "type": "bytes32",
+        "internalType": "bytes32"
+      },
+      {
+        "name": "initCode",
+        "type": "bytes",
+        "internalType": "bytes"
+      },
+      {
+        "name": "data",
+        "type": "bytes",
+        "internalType": "bytes"
+      },
+      {
+        "name": "values",
+        "type": "tuple",
+        "internalType": "struct CreateX.Values",
+        "components": [
+          {
+            "name": "constructorAmount",
+            "type": "uint256",
+            "internalType": "uint256"
+          },
+          {
+            "name": "initCallAmount",
+            "type": "uint256",
+            "internalType": "uint256"
+          }
+        ]
+      }
+    ],
+    "outputs": [
+      {
+        "name": "newContract",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "stateMutability": "payable"
+  },
+  {
+    "type": "event",
+    "name": "ContractCreation",
+    "inputs": [
+      {
+        "name": "newContract",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "Create3ProxyContractCreation",
+    "inputs": [
+      {
+        "name": "newContract",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "salt",
+        "type": "bytes32",
+        "indexed": true,
+        "internalType": "bytes32"
+      }
+    ],
+    "anonymous": false
+  }
+] as const;
+
+export type CreateXFunctions = {
+  deployCreate3AndInit: { inputs: [salt: BytesLike, initCode: BytesLike, data: BytesLike, values: { constructorAmount: BigNumberish; initCallAmount: BigNumberish }]; output: string; mutability: "payable" };
+};
+
+export type CreateXEvents = {
+  ContractCreation: { newContract: string };
+  Create3ProxyContractCreation: { newContract: string; salt: string };
+};
+
+export type CreateX = TypedContract<CreateXFunctions>;
+
+export const CreateXFactory = {
+  abi: CreateXAbi,
+  createInterface(): Interface {
+    return new Interface(CreateXAbi);
+  },
+  connect(address: string, runner?: ContractRunner | null): CreateX {
+    return new Contract(address, CreateXAbi, runner) as unknown as CreateX;
+  },
+  encodeFunctionData<K extends keyof CreateXFunctions & string>(name: K, args: CreateXFunctions[K]["inputs"]): string {
+    return new Interface(CreateXAbi).encodeFunctionData(name, args);
+  },
+};
@@ -0,0 +1,263 @@
+/**
+ * ERC20 bindings - generated by `bun bindings` from scripts/abi/ERC20.json, do not edit
+ */
+
+import { Contract, Interface, type ContractRunner, type BigNumberish } from "ethers";
+import type { TypedContract } from "../lib/bindings";
+
+export const ERC20Abi = [
+  {
+    "type": "function",
+    "name": "allowance",
+    "inputs": [
+      {
+        "name": "owner",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "approve",
+    "inputs": [
+      {
+        "name": "spender",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "balanceOf",
+    "inputs": [
+      {
+        "name": "account",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "decimals",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint8",
+        "internalType": "uint8"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "name",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "string",
+        "internalType": "string"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "symbol",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "string",
+        "internalType": "string"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "totalSupply",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "transfer",
+    "inputs": [
+      {
+        "name": "to",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "function",
+    "name": "transferFrom",
+    "inputs": [
+      {
+        "name": "from",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "to",
+        "type": "address",
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable"
+  },
+  {
+    "type": "event",
+    "name": "Approval",
+    "inputs": [
+      {
+        "name": "owner",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "spender",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  },
+  {
+    "type": "event",
+    "name": "Transfer",
+    "inputs": [
+      {
+        "name": "from",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "to",
+        "type": "address",
+        "indexed": true,
+        "internalType": "address"
+      },
+      {
+        "name": "value",
+        "type": "uint256",
+        "indexed": false,
+        "internalType": "uint256"
+      }
+    ],
+    "anonymous": false
+  }
+] as const;
+
+export type ERC20Functions = {
+  allowance: { inputs: [owner: string, spender: string]; output: bigint; mutability: "view" };
+  approve: { inputs: [spender: string, value: BigNumberish]; output: boolean; mutability: "nonpayable" };
+  balanceOf: { inputs: [account: string]; output: bigint; mutability: "view" };
+  decimals: { inputs: []; output: bigint; mutability: "view" };
+  name: { inputs: []; output: string; mutability: "view" };
+  symbol: { inputs: []; output: string; mutability: "view" };
+  totalSupply: { inputs: []; output: bigint; mutability: "view" };
+  transfer: { inputs: [to: string, value: BigNumberish]; output: boolean; mutability: "nonpayable" };
+  transferFrom: { inputs: [from: string, to: string, value: BigNumberish]; output: boolean; mutability: "nonpayable" };
+};
+
+export type ERC20Events = {
+  Approval: { owner: string; spender: string; value: bigint };
+  Transfer: { from: string; to: string; value: bigint };
+};
+
+export type ERC20 = TypedContract<ERC20Functions>;
+
+export const ERC20Factory = {
+  abi: ERC20Abi,
+  createInterface(): Interface {
+    return new Interface(ERC20Abi);
+  },
+  connect(address: string, runner?: ContractRunner | null): ERC20 {
+    return new Contract(address, ERC20Abi, runner) as unknown as ERC20;
+  },
+  encodeFunctionData<K extends keyof ERC20Functions & string>(name: K, args: ERC20Functions[K]["inputs"]): string {
+    return new Interface(ERC20Abi).encodeFunctionData(name, args);
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Safe bindings - generated by `bun bindings` from scripts/abi/Safe.json, do not edit
+ */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { TypedContract } from "../lib/bindings";
+
+export const SafeAbi = [
+  {
+    "type": "function",
+    "name": "getOwners",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "address[]",
+        "internalType": "address[]"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "getThreshold",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "isOwner",
+    "inputs": [
+      {
+        "name": "owner",
+        "type": "address",
+        "internalType": "address"
+      }
+    ],
+    "outputs": [
+      {
+        "name": "",
+        "type": "bool",
+        "internalType": "bool"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "nonce",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "uint256",
+        "internalType": "uint256"
+      }
+    ],
+    "stateMutability": "view"
+  },
+  {
+    "type": "function",
+    "name": "VERSION",
+    "inputs": [],
+    "outputs": [
+      {
+        "name": "",
+        "type": "string",
+        "internalType": "string"
+      }
+    ],
+    "stateMutability": "view"
+  }
+] as const;
+
+export type SafeFunctions = {
+  getOwners: { inputs: []; output: string[]; mutability: "view" };
+  getThreshold: { inputs: []; output: bigint; mutability: "view" };
+  isOwner: { inputs: [owner: string]; output: boolean; mutability: "view" };
+  nonce: { inputs: []; output: bigint; mutability: "view" };
+  VERSION: { inputs: []; output: string; mutability: "view" };
+};
+
+export type SafeEvents = {
+};
+
+export type Safe = TypedContract<SafeFunctions>;
+
+export const SafeFactory = {
+  abi: SafeAbi,
+  createInterface(): Interface {
+    return new Interface(SafeAbi);
+  },
+  connect(address: string, runner?: ContractRunner | null): Safe {
+    return new Contract(address, SafeAbi, runner) as unknown as Safe;
+  },
+  encodeFunctionData<K extends keyof SafeFunctions & string>(name: K, args: SafeFunctions[K]["inputs"]): string {
+    return new Interface(SafeAbi).encodeFunctionData(name, args);
+  },
+};
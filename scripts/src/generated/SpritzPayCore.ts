@@ -0,0 +1,424 @@
+/**
+ * SpritzPayCore bindings - generated by `bun bindings` from deployments/SpritzPayCore/v1/artifacts/SpritzPayCore.abi.json, do not edit
+ */
+
+import { Contract, Interface, type ContractRunner, type BigNumberish, type BytesLike } from "ethers";
+import type { TypedContract } from "../lib/bindings";
+
+export const SpritzPayCoreAbi = [
+  {
+    "inputs": [],
+    "stateMutability": "payable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "type": "error",
+    "name": "AlreadyInitialized"
+  },
+  {
+    "inputs": [],
+    "type": "error",
+    "name": "NewOwnerIsZeroAddress"
+  },
+  {
+    "inputs": [],
+    "type": "error",
+    "name": "NoHandoverRequest"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "type": "error",
+    "name": "TokenNotAccepted"
+  },
+  {
+    "inputs": [],
+    "type": "error",
+    "name": "Unauthorized"
+  },
+  {
+    "inputs": [],
+    "type": "error",
+    "name": "ZeroAddress"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "pendingOwner",
+        "type": "address",
+        "indexed": true
+      }
+    ],
+    "type": "event",
+    "name": "OwnershipHandoverCanceled",
+    "anonymous": false
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "pendingOwner",
+        "type": "address",
+        "indexed": true
+      }
+    ],
+    "type": "event",
+    "name": "OwnershipHandoverRequested",
+    "anonymous": false
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "oldOwner",
+        "type": "address",
+        "indexed": true
+      },
+      {
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address",
+        "indexed": true
+      }
+    ],
+    "type": "event",
+    "name": "OwnershipTransferred",
+    "anonymous": false
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address",
+        "indexed": false
+      },
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address",
+        "indexed": true
+      },
+      {
+        "internalType": "address",
+        "name": "sourceToken",
+        "type": "address",
+        "indexed": true
+      },
+      {
+        "internalType": "uint256",
+        "name": "sourceTokenAmount",
+        "type": "uint256",
+        "indexed": false
+      },
+      {
+        "internalType": "address",
+        "name": "paymentToken",
+        "type": "address",
+        "indexed": false
+      },
+      {
+        "internalType": "uint256",
+        "name": "paymentTokenAmount",
+        "type": "uint256",
+        "indexed": false
+      },
+      {
+        "internalType": "bytes32",
+        "name": "paymentReference",
+        "type": "bytes32",
+        "indexed": true
+      }
+    ],
+    "type": "event",
+    "name": "Payment",
+    "anonymous": false
+  },
+  {
+    "inputs": [],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "acceptedPaymentTokens",
+    "outputs": [
+      {
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
+      }
+    ]
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "recipient",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function",
+    "name": "addPaymentToken"
+  },
+  {
+    "inputs": [],
+    "stateMutability": "payable",
+    "type": "function",
+    "name": "cancelOwnershipHandover"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "pendingOwner",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function",
+    "name": "completeOwnershipHandover"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "admin",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function",
+    "name": "initialize"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "tokenAddress",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "isAcceptedToken",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ]
+  },
+  {
+    "inputs": [],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "result",
+        "type": "address"
+      }
+    ]
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "pendingOwner",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "ownershipHandoverExpiresAt",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "result",
+        "type": "uint256"
+      }
+    ]
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "caller",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "paymentToken",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "paymentAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "sourceToken",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "sourceTokenSpent",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "paymentReference",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function",
+    "name": "pay"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "tokenAddress",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "paymentRecipient",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ]
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function",
+    "name": "removePaymentToken"
+  },
+  {
+    "inputs": [],
+    "stateMutability": "payable",
+    "type": "function",
+    "name": "renounceOwnership"
+  },
+  {
+    "inputs": [],
+    "stateMutability": "payable",
+    "type": "function",
+    "name": "requestOwnershipHandover"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function",
+    "name": "sweep"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function",
+    "name": "tokenRecipients",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ]
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function",
+    "name": "transferOwnership"
+  }
+] as const;
+
+export type SpritzPayCoreFunctions = {
+  acceptedPaymentTokens: { inputs: []; output: string[]; mutability: "view" };
+  addPaymentToken: { inputs: [token: string, recipient: string]; output: void; mutability: "nonpayable" };
+  cancelOwnershipHandover: { inputs: []; output: void; mutability: "payable" };
+  completeOwnershipHandover: { inputs: [pendingOwner: string]; output: void; mutability: "payable" };
+  initialize: { inputs: [admin: string]; output: void; mutability: "nonpayable" };
+  isAcceptedToken: { inputs: [tokenAddress: string]; output: boolean; mutability: "view" };
+  owner: { inputs: []; output: string; mutability: "view" };
+  ownershipHandoverExpiresAt: { inputs: [pendingOwner: string]; output: bigint; mutability: "view" };
+  pay: { inputs: [caller: string, paymentToken: string, paymentAmount: BigNumberish, sourceToken: string, sourceTokenSpent: BigNumberish, paymentReference: BytesLike]; output: void; mutability: "nonpayable" };
+  paymentRecipient: { inputs: [tokenAddress: string]; output: string; mutability: "view" };
+  removePaymentToken: { inputs: [token: string]; output: void; mutability: "nonpayable" };
+  renounceOwnership: { inputs: []; output: void; mutability: "payable" };
+  requestOwnershipHandover: { inputs: []; output: void; mutability: "payable" };
+  sweep: { inputs: [token: string, to: string]; output: void; mutability: "nonpayable" };
+  tokenRecipients: { inputs: [arg0: string]; output: string; mutability: "view" };
+  transferOwnership: { inputs: [newOwner: string]; output: void; mutability: "payable" };
+};
+
+export type SpritzPayCoreEvents = {
+  OwnershipHandoverCanceled: { pendingOwner: string };
+  OwnershipHandoverRequested: { pendingOwner: string };
+  OwnershipTransferred: { oldOwner: string; newOwner: string };
+  Payment: { to: string; from: string; sourceToken: string; sourceTokenAmount: bigint; paymentToken: string; paymentTokenAmount: bigint; paymentReference: string };
+};
+
+export type SpritzPayCore = TypedContract<SpritzPayCoreFunctions>;
+
+export const SpritzPayCoreFactory = {
+  abi: SpritzPayCoreAbi,
+  createInterface(): Interface {
+    return new Interface(SpritzPayCoreAbi);
+  },
+  connect(address: string, runner?: ContractRunner | null): SpritzPayCore {
+    return new Contract(address, SpritzPayCoreAbi, runner) as unknown as SpritzPayCore;
+  },
+  encodeFunctionData<K extends keyof SpritzPayCoreFunctions & string>(name: K, args: SpritzPayCoreFunctions[K]["inputs"]): string {
+    return new Interface(SpritzPayCoreAbi).encodeFunctionData(name, args);
+  },
+};
@@ -0,0 +1,9 @@
+/**
+ * Contract bindings - generated by `bun bindings`, do not edit
+ */
+
+export * from "./SpritzPayCore";
+export * from "./CreateX";
+export * from "./ERC20";
+export * from "./Safe";
+export * from "./WETH";
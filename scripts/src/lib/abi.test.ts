@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { AbiCoder } from "ethers";
+import { decodeConstructorArgs, encodeConstructorArgs, normalizeConstructorArgs } from "./abi";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const POOL_ID = "0x" + "ab".repeat(32);
+
+const constructorAbi = (inputs: { name: string; type: string }[]) => [
+  { type: "constructor", inputs, stateMutability: "payable" },
+];
+
+const ABI = constructorAbi([
+  { name: "_weth", type: "address" },
+  { name: "_feeBps", type: "uint16" },
+  { name: "_poolId", type: "bytes32" },
+  { name: "_strict", type: "bool" },
+  { name: "_routes", type: "address[]" },
+  { name: "_data", type: "bytes" },
+]);
+
+describe("encodeConstructorArgs", () => {
+  test("encodes every supported type", () => {
+    const encoded = encodeConstructorArgs(ABI, [WETH, 250, POOL_ID, true, [WETH, WETH], "0x1234"]);
+    const expected = AbiCoder.defaultAbiCoder().encode(
+      ["address", "uint16", "bytes32", "bool", "address[]", "bytes"],
+      [WETH, 250, POOL_ID, true, [WETH, WETH], "0x1234"],
+    );
+    expect(encoded).toBe(expected);
+  });
+
+  test("returns 0x for a constructor without inputs", () => {
+    expect(encodeConstructorArgs(constructorAbi([]), [])).toBe("0x");
+  });
+
+  test("accepts large integers as decimal strings", () => {
+    const abi = constructorAbi([{ name: "_cap", type: "uint256" }]);
+    const [cap] = normalizeConstructorArgs(abi, ["1000000000000000000000000"]);
+    expect(cap).toBe(10n ** 24n);
+  });
+});
+
+describe("normalizeConstructorArgs", () => {
+  test("rejects a wrong number of args", () => {
+    expect(() => normalizeConstructorArgs(ABI, [WETH])).toThrow("expects 6 arg(s), got 1");
+  });
+
+  test("names the offending arg", () => {
+    expect(() => normalizeConstructorArgs(ABI, [WETH, 70000, POOL_ID, true, [], "0x"])).toThrow(
+      "Constructor arg _feeBps (uint16): 70000 is out of range for uint16",
+    );
+    expect(() => normalizeConstructorArgs(ABI, [WETH, 250, "0x1234", true, [], "0x"])).toThrow("_poolId (bytes32)");
+    expect(() => normalizeConstructorArgs(ABI, [WETH, 250, POOL_ID, "true", [], "0x"])).toThrow("_strict (bool)");
+    expect(() => normalizeConstructorArgs(ABI, [WETH, 250, POOL_ID, true, ["SpritzPayCore"], "0x"])).toThrow(
+      "_routes (address[]): [0]: expected an address",
+    );
+  });
+});
+
+describe("decodeConstructorArgs", () => {
+  test("round-trips recorded args to the values they were encoded from", () => {
+    const encoded = encodeConstructorArgs(ABI, [WETH, 250, POOL_ID, true, [WETH], "0x1234"]);
+    const [weth, feeBps, poolId, strict, routes, data] = decodeConstructorArgs(ABI, encoded);
+
+    expect([weth, feeBps, poolId, strict, data]).toEqual([WETH, 250n, POOL_ID, true, "0x1234"]);
+    expect([...(routes as string[])]).toEqual([WETH]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Constructor args - checks config.json args against a frozen ABI and ABI-encodes them
+ */
+
+import { AbiCoder, Interface, ParamType, isAddress, isHexString, type InterfaceAbi } from "ethers";
+import type { ConstructorArg } from "./config";
+
+type AbiValue = string | bigint | boolean | AbiValue[];
+
+function parseInteger(value: ConstructorArg, param: ParamType): bigint {
+  let parsed: bigint;
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`${value} is not a safe integer; write it as a decimal string`);
+    }
+    parsed = BigInt(value);
+  } else if (typeof value === "string" && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+    parsed = BigInt(value);
+  } else {
+    throw new Error(`expected an integer, got ${JSON.stringify(value)}`);
+  }
+
+  const bits = BigInt(param.type.replace(/^u?int/, "") || "256");
+  const [min, max] = param.type.startsWith("uint")
+    ? [0n, (1n << bits) - 1n]
+    : [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n];
+  if (parsed < min || parsed > max) {
+    throw new Error(`${parsed} is out of range for ${param.type}`);
+  }
+  return parsed;
+}
+
+function normalize(value: ConstructorArg, param: ParamType): AbiValue {
+  if (param.isArray()) {
+    if (!Array.isArray(value)) {
+      throw new Error(`expected an array, got ${JSON.stringify(value)}`);
+    }
+    if (param.arrayLength !== -1 && value.length !== param.arrayLength) {
+      throw new Error(`expected ${param.arrayLength} element(s), got ${value.length}`);
+    }
+    return value.map((item, i) => {
+      try {
+        return normalize(item, param.arrayChildren);
+      } catch (e) {
+        throw new Error(`[${i}]: ${(e as Error).message}`);
+      }
+    });
+  }
+
+  if (param.isTuple()) {
+    throw new Error("tuple constructor inputs are not supported in config.json");
+  }
+
+  if (param.type === "address") {
+    if (typeof value !== "string" || !isAddress(value)) {
+      throw new Error(`expected an address, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  if (param.type === "bool") {
+    if (typeof value !== "boolean") {
+      throw new Error(`expected true or false, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  if (param.type === "string") {
+    if (typeof value !== "string") {
+      throw new Error(`expected a string, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  if (param.type === "bytes") {
+    if (typeof value !== "string" || !isHexString(value)) {
+      throw new Error(`expected 0x-prefixed hex bytes, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  const fixedBytes = param.type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    const size = Number(fixedBytes[1]);
+    if (typeof value !== "string" || !isHexString(value, size)) {
+      throw new Error(`expected ${size} bytes of 0x-prefixed hex, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    return parseInteger(value, param);
+  }
+
+  throw new Error(`unsupported type ${param.type}`);
+}
+
+/**
+ * Checks resolved config args against the constructor inputs of a frozen ABI
+ * and converts them to the values ethers expects (integers become bigints).
+ * Throws naming the offending arg.
+ */
+export function normalizeConstructorArgs(abi: InterfaceAbi, args: ConstructorArg[]): AbiValue[] {
+  const inputs = new Interface(abi).deploy.inputs;
+  if (args.length !== inputs.length) {
+    throw new Error(`Constructor expects ${inputs.length} arg(s), got ${args.length}`);
+  }
+
+  return inputs.map((input, i) => {
+    try {
+      return normalize(args[i], input);
+    } catch (e) {
+      throw new Error(`Constructor arg ${input.name || i} (${input.type}): ${(e as Error).message}`);
+    }
+  });
+}
+
+/**
+ * ABI-encodes constructor args as they are appended to initcode.
+ * Returns "0x" for a constructor without inputs.
+ */
+export function encodeConstructorArgs(abi: InterfaceAbi, args: ConstructorArg[]): string {
+  const values = normalizeConstructorArgs(abi, args);
+  if (values.length === 0) {
+    return "0x";
+  }
+  return new Interface(abi).encodeDeploy(values);
+}
+
+/**
+ * Decodes constructor args as stored ABI-encoded in a deployment record.
+ */
+export function decodeConstructorArgs(abi: InterfaceAbi, encoded: string): unknown[] {
+  const inputs = new Interface(abi).deploy.inputs;
+  return [...AbiCoder.defaultAbiCoder().decode(inputs, encoded)];
+}
+
+/**
+ * Constructor inputs paired with their resolved values, for display.
+ */
+export function describeConstructorArgs(
+  abi: InterfaceAbi | null,
+  args: ConstructorArg[],
+): { label: string; value: string }[] {
+  const inputs = abi ? new Interface(abi).deploy.inputs : [];
+  return args.map((arg, i) => ({
+    label: inputs[i] ? `${inputs[i].name || `arg${i}`} (${inputs[i].type})` : `arg${i}`,
+    value: typeof arg === "string" ? arg : JSON.stringify(arg),
+  }));
+}
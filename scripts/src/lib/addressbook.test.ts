@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { buildAddressBook, renderAddressBookModule } from "./addressbook";
+import { METADATA_SCHEMA_VERSION, type Metadata } from "./metadata";
+
+const CORE = "0x000000000012f55170d4a2ab5ace512eeb925dca";
+const ROUTER = "0x0A2d7D9BFE42D5146Af53dce8ef4956F148C2a5F";
+const SANDBOX_CORE = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+const DEPLOYER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+const SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c00a4f2755e904c6f005ce60c";
+const TX = `0x${"ab".repeat(32)}`;
+
+const CHAINS = {
+  base: { chainId: 8453, explorer: "https://basescan.org" },
+  arbitrum: { chainId: 42161, explorer: "https://arbiscan.io" },
+};
+
+function metadata(contract: string, deployments: Metadata["deployments"]): Metadata {
+  return {
+    schemaVersion: METADATA_SCHEMA_VERSION,
+    contract,
+    frozenAt: "2025-01-01T00:00:00.000Z",
+    gitCommit: "abc",
+    gitBranch: "main",
+    compiler: {
+      solc: "0.8.30",
+      evmVersion: "prague",
+      optimizer: true,
+      optimizerRuns: 200,
+      viaIR: false,
+      cborMetadata: false,
+      bytecodeHash: "none",
+    },
+    initcodeHash: `0x${"00".repeat(32)}`,
+    deployments,
+  };
+}
+
+const record = (address: string, environment: string, chains: Metadata["deployments"][number]["chains"]) => ({
+  id: `${environment}-${address}`,
+  deployer: DEPLOYER,
+  address,
+  salt: SALT,
+  environment,
+  chains,
+});
+
+describe("buildAddressBook", () => {
+  test("keys recorded deployments by environment, chain and contract", () => {
+    const book = buildAddressBook(
+      [
+        metadata("SpritzRouter", [record(ROUTER, "production", { base: {} })]),
+        metadata("SpritzPayCore", [
+          record(CORE, "production", { base: { txHash: TX, blockNumber: 12 }, arbitrum: {} }),
+          record(SANDBOX_CORE, "sandbox", { base: {} }),
+        ]),
+        metadata("OpenOceanModule", []),
+      ],
+      CHAINS,
+    );
+
+    expect(book.version).toBe(1);
+    expect(Object.keys(book.environments)).toEqual(["production", "sandbox"]);
+    expect(Object.keys(book.environments.production)).toEqual(["arbitrum", "base"]);
+
+    const base = book.environments.production.base;
+    expect(base.chainId).toBe(8453);
+    expect(Object.keys(base.contracts)).toEqual(["SpritzPayCore", "SpritzRouter"]);
+    expect(base.contracts.SpritzPayCore).toEqual({
+      address: "0x000000000012F55170d4A2aB5ace512Eeb925Dca",
+      explorer: "https://basescan.org/address/0x000000000012F55170d4A2aB5ace512Eeb925Dca",
+      txHash: TX,
+      blockNumber: 12,
+    });
+    expect(book.environments.sandbox.base.contracts.SpritzPayCore.address).toBe(SANDBOX_CORE);
+  });
+
+  test("has no entry for contracts without a recorded deployment", () => {
+    const book = buildAddressBook([metadata("OpenOceanModule", [])], CHAINS);
+    expect(book.environments).toEqual({});
+  });
+
+  test("rejects chains missing from config", () => {
+    expect(() => buildAddressBook([metadata("SpritzPayCore", [record(CORE, "production", { solana: {} })])], CHAINS)).toThrow(
+      "SpritzPayCore is recorded on solana, which is not in config.json",
+    );
+  });
+});
+
+test("renderAddressBookModule exports ABIs as const", () => {
+  const abi = [{ type: "function", name: "owner", inputs: [], outputs: [{ type: "address" }], stateMutability: "view" }];
+  const source = renderAddressBookModule({ version: 1, environments: {} }, { SpritzPayCore: abi });
+
+  expect(source).toContain("export const addressBook = {");
+  expect(source).toContain("export const spritzPayCoreAbi = [");
+  expect(source).toContain("  SpritzPayCore: spritzPayCoreAbi,");
+  expect(source).toContain("export type ContractName = keyof typeof abis;");
+});
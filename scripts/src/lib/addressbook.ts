@@ -0,0 +1,123 @@
+/**
+ * Address book - recorded deployments and frozen ABIs for apps to import
+ *
+ * Built only from deployments/<Contract>/<version>/metadata.json, so an address appears
+ * once a deployment has been recorded and never just because it can be
+ * computed from a salt.
+ */
+
+import { join } from "path";
+import { getAddress } from "ethers";
+import type { Metadata } from "./metadata";
+
+export const ADDRESS_BOOK_DIR = join(process.cwd(), "addressbook");
+
+// Bump when the shape of addresses.json changes
+export const ADDRESS_BOOK_VERSION = 1;
+
+export interface ChainInfo {
+  chainId: number;
+  explorer: string;
+}
+
+export interface AddressBookEntry {
+  address: string;
+  explorer: string;
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface AddressBookChain {
+  chainId: number;
+  explorer: string;
+  contracts: Record<string, AddressBookEntry>;
+}
+
+export interface AddressBook {
+  version: number;
+  // environment -> chain -> contract
+  environments: Record<string, Record<string, AddressBookChain>>;
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Collects every recorded deployment. If a contract was recorded more than
+ * once for the same environment and chain, the latest record wins. Throws if
+ * a record names a chain that isn't in config.json.
+ */
+export function buildAddressBook(metadata: Metadata[], chains: Record<string, ChainInfo>): AddressBook {
+  const environments: AddressBook["environments"] = {};
+
+  for (const { contract, deployments } of metadata) {
+    for (const record of deployments) {
+      for (const [chainName, deployment] of Object.entries(record.chains)) {
+        const chain = chains[chainName];
+        if (!chain) {
+          throw new Error(`${contract} is recorded on ${chainName}, which is not in config.json`);
+        }
+
+        const envBook = (environments[record.environment] ??= {});
+        const chainBook = (envBook[chainName] ??= {
+          chainId: chain.chainId,
+          explorer: chain.explorer,
+          contracts: {},
+        });
+        const address = getAddress(record.address);
+        chainBook.contracts[contract] = {
+          address,
+          explorer: `${chain.explorer}/address/${address}`,
+          ...(deployment.txHash && { txHash: deployment.txHash }),
+          ...(deployment.blockNumber !== undefined && { blockNumber: deployment.blockNumber }),
+        };
+      }
+    }
+  }
+
+  for (const [env, envBook] of Object.entries(environments)) {
+    for (const chainBook of Object.values(envBook)) {
+      chainBook.contracts = sortKeys(chainBook.contracts);
+    }
+    environments[env] = sortKeys(envBook);
+  }
+
+  return { version: ADDRESS_BOOK_VERSION, environments: sortKeys(environments) };
+}
+
+function abiExportName(contractName: string): string {
+  return `${contractName[0].toLowerCase()}${contractName.slice(1)}Abi`;
+}
+
+/**
+ * TypeScript module exporting the address book and each ABI `as const`, so
+ * viem/wagmi-style clients infer function names and argument types.
+ */
+export function renderAddressBookModule(book: AddressBook, abis: Record<string, unknown[]>): string {
+  const names = Object.keys(abis).sort();
+  const lines = [
+    "/**",
+    " * Spritz address book - generated by `bun addressbook` from deployments/, do not edit",
+    " */",
+    "",
+    `export const addressBook = ${JSON.stringify(book, null, 2)} as const;`,
+    "",
+  ];
+
+  for (const name of names) {
+    lines.push(`export const ${abiExportName(name)} = ${JSON.stringify(abis[name], null, 2)} as const;`, "");
+  }
+
+  lines.push(
+    "export const abis = {",
+    ...names.map((name) => `  ${name}: ${abiExportName(name)},`),
+    "} as const;",
+    "",
+    "export type Environment = keyof typeof addressBook.environments;",
+    "export type ContractName = keyof typeof abis;",
+    "",
+  );
+
+  return lines.join("\n");
+}
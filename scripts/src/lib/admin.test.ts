@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { compareSafeOwnership } from "./admin";
+
+const ALICE = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+const BOB = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+const CAROL = "0x000000000000000000000000000000000000dEaD";
+
+describe("compareSafeOwnership", () => {
+  test("accepts a matching Safe regardless of case and order", () => {
+    const problems = compareSafeOwnership(
+      { owners: [BOB, ALICE.toLowerCase()], threshold: 2 },
+      { threshold: 2, owners: [ALICE, BOB], signers: [BOB.toLowerCase()] },
+    );
+    expect(problems).toEqual([]);
+  });
+
+  test("only checks threshold and signers when owners are not configured", () => {
+    const problems = compareSafeOwnership({ owners: [ALICE, BOB, CAROL], threshold: 2 }, { threshold: 2, signers: [] });
+    expect(problems).toEqual([]);
+  });
+
+  test("flags threshold, owner and signer drift", () => {
+    const problems = compareSafeOwnership(
+      { owners: [ALICE, CAROL], threshold: 1 },
+      { threshold: 2, owners: [ALICE, BOB], signers: [BOB] },
+    );
+    expect(problems).toEqual([
+      "Threshold is 1, config expects 2",
+      `Configured owner ${BOB} is not an owner`,
+      `Owner ${CAROL} is not in config`,
+      `Signer ${BOB} is not an owner`,
+    ]);
+  });
+});
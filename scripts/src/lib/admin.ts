@@ -0,0 +1,95 @@
+/**
+ * Admin Safe checks - compares each chain's admin Safe against config
+ *
+ * The owners and threshold read from the Safe must match the admin block that
+ * applies to the chain (see getChainAdmin). Every SIGNER_n_ADDRESS in .env must
+ * also be an owner, otherwise that signer can't propose or confirm anything.
+ */
+
+import { JsonRpcProvider } from "ethers";
+import { SafeFactory } from "../generated";
+import type { Chain } from "./chains";
+
+export interface SafeOwnership {
+  owners: string[];
+  threshold: number;
+}
+
+export interface AdminExpectation {
+  threshold: number;
+  // Exact owner set from config; unchecked if omitted
+  owners?: string[];
+  // SIGNER_n_ADDRESS values that should all be owners
+  signers: string[];
+}
+
+/**
+ * Differences between a Safe's live owners/threshold and what config expects.
+ * Address comparison ignores case and order.
+ */
+export function compareSafeOwnership(live: SafeOwnership, expected: AdminExpectation): string[] {
+  const problems: string[] = [];
+  const isOwner = (address: string) => live.owners.some((o) => o.toLowerCase() === address.toLowerCase());
+
+  if (live.threshold !== expected.threshold) {
+    problems.push(`Threshold is ${live.threshold}, config expects ${expected.threshold}`);
+  }
+
+  if (expected.owners) {
+    for (const owner of expected.owners) {
+      if (!isOwner(owner)) {
+        problems.push(`Configured owner ${owner} is not an owner`);
+      }
+    }
+    for (const owner of live.owners) {
+      if (!expected.owners.some((o) => o.toLowerCase() === owner.toLowerCase())) {
+        problems.push(`Owner ${owner} is not in config`);
+      }
+    }
+  }
+
+  for (const signer of expected.signers) {
+    if (!isOwner(signer)) {
+      problems.push(`Signer ${signer} is not an owner`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Reads owners and threshold from a Safe. Returns null if there is no code at
+ * the address.
+ */
+export async function readSafeOwnership(rpc: string, safe: string): Promise<SafeOwnership | null> {
+  const provider = new JsonRpcProvider(rpc);
+  try {
+    if ((await provider.getCode(safe)) === "0x") {
+      return null;
+    }
+    const contract = SafeFactory.connect(safe, provider);
+    const [owners, threshold] = await Promise.all([contract.getOwners(), contract.getThreshold()]);
+    return { owners: [...owners], threshold: Number(threshold) };
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Checks a chain's admin Safe on-chain. RPC failures are reported as a problem
+ * rather than thrown so callers can show them alongside other results.
+ */
+export async function checkAdminSafe(chain: Chain, signers: string[]): Promise<string[]> {
+  let live: SafeOwnership | null;
+  try {
+    live = await readSafeOwnership(chain.rpc, chain.admin);
+  } catch (e) {
+    return [`Could not read Safe ${chain.admin}: ${(e as Error).message}`];
+  }
+
+  if (!live) {
+    return [`No Safe deployed at ${chain.admin} on ${chain.name}`];
+  }
+
+  return compareSafeOwnership(live, { threshold: chain.threshold, owners: chain.owners, signers });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { isDependencySatisfied, runBatch, type BatchResults } from "./batch";
+import type { Config } from "./config";
+
+const SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c00a4f2755e904c6f005ce60c";
+const ADDRESS = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+
+const chain = (chainId: number) => ({ chainId, rpc: "https://rpc.example", explorer: "https://explorer.example" });
+
+const CONFIG: Config = {
+  admin: { safe: ADDRESS, threshold: 2 },
+  deployer: { address: ADDRESS, keyRef: "op://vault/item/field" },
+  contracts: {
+    SpritzRouter: { salt: SALT, args: ["SpritzPayCore"] },
+    SpritzPayCore: { salt: SALT },
+  },
+  chains: { base: chain(8453), arbitrum: chain(42161) },
+};
+
+function statuses(results: BatchResults): Record<string, Record<string, string>> {
+  return Object.fromEntries(
+    Object.entries(results).map(([contract, byChain]) => [
+      contract,
+      Object.fromEntries(Object.entries(byChain).map(([chainName, r]) => [chainName, r.reason ? `${r.status}: ${r.reason}` : r.status])),
+    ]),
+  );
+}
+
+describe("isDependencySatisfied", () => {
+  test("needs a live dependency when broadcasting", () => {
+    expect(isDependencySatisfied("deployed", true)).toBe(true);
+    expect(isDependencySatisfied("already-deployed", true)).toBe(true);
+    expect(isDependencySatisfied("simulated", true)).toBe(false);
+    expect(isDependencySatisfied("failed", true)).toBe(false);
+    expect(isDependencySatisfied(undefined, true)).toBe(false);
+  });
+
+  test("accepts a simulated dependency in a simulation", () => {
+    expect(isDependencySatisfied("simulated", false)).toBe(true);
+    expect(isDependencySatisfied("skipped", false)).toBe(false);
+  });
+});
+
+describe("runBatch", () => {
+  test("simulates dependents of simulated contracts in a fresh environment", async () => {
+    const steps: string[] = [];
+    const results = await runBatch(CONFIG, ["base", "arbitrum"], false, async (contractName, chainName) => {
+      steps.push(`${contractName}@${chainName}`);
+      return { status: "simulated" };
+    });
+
+    expect(steps).toEqual(["SpritzPayCore@base", "SpritzRouter@base", "SpritzPayCore@arbitrum", "SpritzRouter@arbitrum"]);
+    expect(statuses(results)).toEqual({
+      SpritzPayCore: { base: "simulated", arbitrum: "simulated" },
+      SpritzRouter: { base: "simulated", arbitrum: "simulated" },
+    });
+  });
+
+  test("skips dependents on chains where a dependency did not land", async () => {
+    const results = await runBatch(CONFIG, ["base", "arbitrum"], true, async (contractName, chainName) => ({
+      status: contractName === "SpritzPayCore" && chainName === "arbitrum" ? "failed" : "deployed",
+    }));
+
+    expect(statuses(results)).toEqual({
+      SpritzPayCore: { base: "deployed", arbitrum: "failed" },
+      SpritzRouter: { base: "deployed", arbitrum: "skipped: SpritzPayCore not deployed" },
+    });
+  });
+});
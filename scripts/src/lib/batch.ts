@@ -0,0 +1,65 @@
+/**
+ * Batch deployment - walks every configured contract across chains
+ *
+ * Contracts go in getDeploymentOrder so dependencies come first. A contract is
+ * skipped on a chain where one of its dependencies did not make it; the step
+ * callback does the actual work for everything else.
+ */
+
+import type { Config } from "./config";
+import { getContractDependencies, getDeploymentOrder } from "./createx";
+
+export type DeployStatus =
+  | "deployed"
+  | "already-deployed"
+  | "simulated"
+  | "skipped"
+  | "failed";
+
+export interface BatchResult {
+  status: DeployStatus;
+  reason?: string;
+}
+
+// contract -> chain -> result
+export type BatchResults = Record<string, Record<string, BatchResult>>;
+
+const LIVE_STATUSES: DeployStatus[] = ["deployed", "already-deployed"];
+
+/**
+ * Whether a dependency with this status lets its dependents go ahead. A
+ * simulation deploys nothing, so there a simulated dependency is enough.
+ */
+export function isDependencySatisfied(status: DeployStatus | undefined, broadcast: boolean): boolean {
+  if (status === undefined) {
+    return false;
+  }
+  return LIVE_STATUSES.includes(status) || (!broadcast && status === "simulated");
+}
+
+export async function runBatch(
+  config: Config,
+  chainNames: string[],
+  broadcast: boolean,
+  step: (contractName: string, chainName: string) => Promise<BatchResult>,
+): Promise<BatchResults> {
+  const order = getDeploymentOrder(config);
+  const results: BatchResults = {};
+  for (const contractName of order) {
+    results[contractName] = {};
+  }
+
+  for (const chainName of chainNames) {
+    for (const contractName of order) {
+      const blockedBy = getContractDependencies(config, contractName).filter(
+        (dep) => !isDependencySatisfied(results[dep]?.[chainName]?.status, broadcast),
+      );
+      results[contractName][chainName] =
+        blockedBy.length > 0
+          ? { status: "skipped", reason: `${blockedBy.join(", ")} not deployed` }
+          : await step(contractName, chainName);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { findStaleBindings, generateBindings, renderBinding } from "./bindings";
+
+describe("generated bindings", () => {
+  test("match the frozen and third-party ABIs (run `bun bindings` if this fails)", () => {
+    expect(findStaleBindings(generateBindings())).toEqual([]);
+  });
+});
+
+describe("renderBinding", () => {
+  const source = {
+    name: "Router",
+    path: "test",
+    abi: [
+      {
+        type: "function",
+        name: "payWithToken",
+        inputs: [
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint256" },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable" as const,
+      },
+      {
+        type: "function",
+        name: "payWithToken",
+        inputs: [
+          { name: "token", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "reference", type: "bytes32" },
+        ],
+        outputs: [],
+        stateMutability: "nonpayable" as const,
+      },
+      {
+        type: "function",
+        name: "quote",
+        inputs: [
+          {
+            name: "route",
+            type: "tuple[]",
+            components: [
+              { name: "pool", type: "address" },
+              { name: "fee", type: "uint24" },
+            ],
+          },
+        ],
+        outputs: [{ name: "", type: "uint256[2]" }],
+        stateMutability: "view" as const,
+      },
+      {
+        type: "event",
+        name: "Swapped",
+        inputs: [{ name: "", type: "bool" }],
+      },
+    ],
+  };
+
+  test("keys overloaded functions by signature", () => {
+    const out = renderBinding(source);
+    expect(out).toContain(`  "payWithToken(address,uint256)": { inputs: [token: string, amount: BigNumberish]; output: void;`);
+    expect(out).toContain(`  "payWithToken(address,uint256,bytes32)": {`);
+    expect(out).toContain("reference: BytesLike]");
+  });
+
+  test("maps tuples, arrays and unnamed params", () => {
+    const out = renderBinding(source);
+    expect(out).toContain(
+      `  quote: { inputs: [route: readonly { pool: string; fee: BigNumberish }[]]; output: bigint[]; mutability: "view" };`,
+    );
+    expect(out).toContain("  Swapped: { arg0: boolean };");
+    expect(out).toContain(`import { Contract, Interface, type ContractRunner, type BigNumberish, type BytesLike } from "ethers";`);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Contract bindings - typed ethers factories generated from ABIs
+ *
+ * Sources are the current frozen deployments/<Contract>/<version>/artifacts/<Contract>.abi.json
+ * plus third-party ABIs in scripts/abi/<Name>.json (ERC20, ...). Output goes to
+ * scripts/src/generated/, one module per contract. Tooling imports those
+ * modules instead of writing ABI fragments by hand; `bun bindings --check`
+ * and the bindings test fail when an ABI changed without regenerating.
+ *
+ * The runtime types the generated modules use are defined here too.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import type { BaseContract, ContractTransaction, ContractTransactionResponse, Overrides } from "ethers";
+import { getArtifactPath, listFrozenContracts, readCurrentVersion } from "./metadata";
+
+export const GENERATED_DIR = join(import.meta.dir, "..", "generated");
+export const EXTERNAL_ABI_DIR = join(import.meta.dir, "..", "..", "abi");
+
+// Runtime types referenced by generated modules
+
+export interface FunctionSpec {
+  inputs: unknown[];
+  output: unknown;
+  mutability: "pure" | "view" | "nonpayable" | "payable";
+}
+
+export type FunctionMap = Record<string, FunctionSpec>;
+
+export interface ViewMethod<A extends unknown[], R> {
+  (...args: [...A, Overrides?]): Promise<R>;
+  staticCall(...args: [...A, Overrides?]): Promise<R>;
+}
+
+export interface WriteMethod<A extends unknown[], R> {
+  (...args: [...A, Overrides?]): Promise<ContractTransactionResponse>;
+  staticCall(...args: [...A, Overrides?]): Promise<R>;
+  estimateGas(...args: [...A, Overrides?]): Promise<bigint>;
+  populateTransaction(...args: [...A, Overrides?]): Promise<ContractTransaction>;
+}
+
+export type TypedContract<F extends FunctionMap> = BaseContract & {
+  [K in keyof F]: F[K]["mutability"] extends "view" | "pure"
+    ? ViewMethod<F[K]["inputs"], F[K]["output"]>
+    : WriteMethod<F[K]["inputs"], F[K]["output"]>;
+};
+
+// Codegen
+
+interface AbiParam {
+  name?: string;
+  type: string;
+  components?: AbiParam[];
+}
+
+interface AbiEntry {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: FunctionSpec["mutability"];
+}
+
+export interface BindingSource {
+  name: string;
+  // Repo-relative path of the ABI, for the generated header
+  path: string;
+  abi: AbiEntry[];
+}
+
+// Names that can't be used as tuple labels or property keys without quoting
+const RESERVED = new Set(["default", "function", "new", "delete", "in", "return", "var", "class", "this"]);
+
+function paramType(param: AbiParam, direction: "input" | "output"): string {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    const inner = paramType({ ...param, type: array[1] }, direction);
+    return direction === "input" ? `readonly ${inner}[]` : `${inner}[]`;
+  }
+  if (param.type === "tuple") {
+    if (direction === "output") {
+      return "Result";
+    }
+    const fields = (param.components ?? []).map((c, i) => `${label(c.name, i)}: ${paramType(c, direction)}`);
+    return `{ ${fields.join("; ")} }`;
+  }
+  if (param.type === "address" || param.type === "string") {
+    return "string";
+  }
+  if (param.type === "bool") {
+    return "boolean";
+  }
+  if (param.type.startsWith("bytes")) {
+    return direction === "input" ? "BytesLike" : "string";
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return direction === "input" ? "BigNumberish" : "bigint";
+  }
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+function label(name: string | undefined, index: number): string {
+  if (!name) {
+    return `arg${index}`;
+  }
+  return RESERVED.has(name) ? `${name}_` : name;
+}
+
+function canonicalType(param: AbiParam): string {
+  if (param.type.startsWith("tuple")) {
+    return `(${(param.components ?? []).map(canonicalType).join(",")})${param.type.slice("tuple".length)}`;
+  }
+  return param.type;
+}
+
+function signature(entry: AbiEntry): string {
+  return `${entry.name}(${(entry.inputs ?? []).map(canonicalType).join(",")})`;
+}
+
+function outputType(outputs: AbiParam[]): string {
+  if (outputs.length === 0) {
+    return "void";
+  }
+  return outputs.length === 1 ? paramType(outputs[0], "output") : "Result";
+}
+
+/**
+ * One generated module: the ABI `as const`, a function map type, event arg
+ * types and a factory that connects a typed ethers Contract.
+ */
+export function renderBinding(source: BindingSource): string {
+  const { name, abi } = source;
+  const functions = abi.filter((e) => e.type === "function");
+  const events = abi.filter((e) => e.type === "event");
+
+  const counts = new Map<string, number>();
+  for (const fn of functions) {
+    counts.set(fn.name!, (counts.get(fn.name!) ?? 0) + 1);
+  }
+
+  const functionLines = functions.map((fn) => {
+    // Overloaded functions are only reachable by signature on an ethers Contract
+    const key = counts.get(fn.name!)! > 1 ? JSON.stringify(signature(fn)) : fn.name!;
+    const inputs = (fn.inputs ?? []).map((p, i) => `${label(p.name, i)}: ${paramType(p, "input")}`);
+    return `  ${key}: { inputs: [${inputs.join(", ")}]; output: ${outputType(fn.outputs ?? [])}; mutability: "${fn.stateMutability}" };`;
+  });
+
+  const eventLines = events.map((event) => {
+    const fields = (event.inputs ?? []).map((p, i) => `${label(p.name, i)}: ${paramType(p, "output")}`);
+    return `  ${event.name}: { ${fields.join("; ")} };`;
+  });
+
+  const types = [...functionLines, ...eventLines].join("\n");
+  const typeImports = ["BigNumberish", "BytesLike", "Result"]
+    .filter((type) => new RegExp(`\\b${type}\\b`).test(types))
+    .map((type) => `, type ${type}`)
+    .join("");
+
+  return [
+    "/**",
+    ` * ${name} bindings - generated by \`bun bindings\` from ${source.path}, do not edit`,
+    " */",
+    "",
+    `import { Contract, Interface, type ContractRunner${typeImports} } from "ethers";`,
+    `import type { TypedContract } from "../lib/bindings";`,
+    "",
+    `export const ${name}Abi = ${JSON.stringify(abi, null, 2)} as const;`,
+    "",
+    `export type ${name}Functions = {`,
+    ...functionLines,
+    "};",
+    "",
+    `export type ${name}Events = {`,
+    ...eventLines,
+    "};",
+    "",
+    `export type ${name} = TypedContract<${name}Functions>;`,
+    "",
+    `export const ${name}Factory = {`,
+    `  abi: ${name}Abi,`,
+    "  createInterface(): Interface {",
+    `    return new Interface(${name}Abi);`,
+    "  },",
+    `  connect(address: string, runner?: ContractRunner | null): ${name} {`,
+    `    return new Contract(address, ${name}Abi, runner) as unknown as ${name};`,
+    "  },",
+    `  encodeFunctionData<K extends keyof ${name}Functions & string>(name: K, args: ${name}Functions[K]["inputs"]): string {`,
+    `    return new Interface(${name}Abi).encodeFunctionData(name, args);`,
+    "  },",
+    "};",
+    "",
+  ].join("\n");
+}
+
+export function renderIndex(names: string[]): string {
+  return [
+    "/**",
+    " * Contract bindings - generated by `bun bindings`, do not edit",
+    " */",
+    "",
+    ...names.map((name) => `export * from "./${name}";`),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Every ABI bindings are generated from, frozen contracts first.
+ */
+export function listBindingSources(): BindingSource[] {
+  const sources: BindingSource[] = [];
+
+  for (const name of listFrozenContracts()) {
+    const version = readCurrentVersion(name)!;
+    const path = getArtifactPath(name, version, ".abi.json");
+    if (existsSync(path)) {
+      sources.push({ name, path: `deployments/${name}/${version}/artifacts/${name}.abi.json`, abi: JSON.parse(readFileSync(path, "utf8")) });
+    }
+  }
+
+  if (existsSync(EXTERNAL_ABI_DIR)) {
+    for (const file of readdirSync(EXTERNAL_ABI_DIR).filter((f) => f.endsWith(".json")).sort()) {
+      const name = file.slice(0, -".json".length);
+      if (sources.some((s) => s.name === name)) {
+        throw new Error(`scripts/abi/${file} clashes with frozen contract ${name}`);
+      }
+      sources.push({ name, path: `scripts/abi/${file}`, abi: JSON.parse(readFileSync(join(EXTERNAL_ABI_DIR, file), "utf8")) });
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * File name -> contents for everything in scripts/src/generated/.
+ */
+export function generateBindings(sources: BindingSource[] = listBindingSources()): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const source of sources) {
+    files[`${source.name}.ts`] = renderBinding(source);
+  }
+  files["index.ts"] = renderIndex(sources.map((s) => s.name));
+  return files;
+}
+
+/**
+ * Generated files that are missing, stale or no longer produced.
+ */
+export function findStaleBindings(files: Record<string, string>, dir: string = GENERATED_DIR): string[] {
+  const stale = Object.entries(files)
+    .filter(([file, contents]) => !existsSync(join(dir, file)) || readFileSync(join(dir, file), "utf8") !== contents)
+    .map(([file]) => file);
+
+  if (existsSync(dir)) {
+    for (const file of readdirSync(dir)) {
+      if (!(file in files)) {
+        stale.push(file);
+      }
+    }
+  }
+
+  return stale.sort();
+}
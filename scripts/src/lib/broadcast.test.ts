@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { JsonRpcProvider } from "ethers";
+import { estimateDeploymentCost, heuristicDeploymentGas, isTransactionReverted, type CostRequest } from "./broadcast";
+
+const GWEI = 1_000_000_000n;
+
+// Behaviour of the stub node, set per test
+let estimateFails = false;
+let balance = 10n ** 18n;
+// null: the node doesn't know the transaction
+let receiptStatus: "0x0" | "0x1" | null = "0x1";
+
+let server: Server<undefined>;
+let request: CostRequest;
+
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+const BLOCK = {
+  hash: `0x${"11".repeat(32)}`,
+  parentHash: `0x${"22".repeat(32)}`,
+  number: "0x10",
+  timestamp: "0x6500000",
+  nonce: "0x0000000000000000",
+  difficulty: "0x0",
+  gasLimit: "0x1c9c380",
+  gasUsed: "0x0",
+  miner: "0x0000000000000000000000000000000000000000",
+  extraData: "0x",
+  baseFeePerGas: `0x${(10n * GWEI).toString(16)}`,
+  transactions: [],
+};
+
+function rpc(method: string): unknown {
+  switch (method) {
+    case "eth_chainId":
+      return "0x2105";
+    case "eth_getBalance":
+      return `0x${balance.toString(16)}`;
+    case "eth_estimateGas":
+      if (estimateFails) throw new Error("execution reverted");
+      return `0x${(500_000).toString(16)}`;
+    case "eth_getBlockByNumber":
+      return BLOCK;
+    case "eth_gasPrice":
+      return `0x${(11n * GWEI).toString(16)}`;
+    case "eth_maxPriorityFeePerGas":
+      return `0x${GWEI.toString(16)}`;
+    case "eth_getTransactionReceipt":
+      return receiptStatus && {
+        transactionHash: TX_HASH,
+        transactionIndex: "0x0",
+        blockHash: BLOCK.hash,
+        blockNumber: BLOCK.number,
+        from: "0xbadfaceB351045374d7fd1d3915e62501BA9916C",
+        to: "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
+        contractAddress: null,
+        cumulativeGasUsed: "0x5208",
+        gasUsed: "0x5208",
+        effectiveGasPrice: BLOCK.baseFeePerGas,
+        logs: [],
+        logsBloom: `0x${"00".repeat(256)}`,
+        type: "0x2",
+        status: receiptStatus,
+      };
+    default:
+      throw new Error(`Unexpected ${method}`);
+  }
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = await req.json();
+      const handle = ({ id, method }: { id: number; method: string }) => {
+        try {
+          return { jsonrpc: "2.0", id, result: rpc(method) };
+        } catch (e) {
+          return { jsonrpc: "2.0", id, error: { code: 3, message: (e as Error).message } };
+        }
+      };
+      return Response.json(Array.isArray(body) ? body.map(handle) : handle(body));
+    },
+  });
+  request = {
+    rpc: `http://localhost:${server.port}`,
+    from: "0xbadfaceB351045374d7fd1d3915e62501BA9916C",
+    salt: "0xbadfaceb351045374d7fd1d3915e62501ba9916c00a4f2755e904c6f005ce60c",
+    initcode: "0x6080604052348015600e575f5ffd5b50",
+    admin: "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F",
+    deployedSize: 1000,
+  };
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  estimateFails = false;
+  balance = 10n ** 18n;
+  receiptStatus = "0x1";
+});
+
+describe("estimateDeploymentCost", () => {
+  test("multiplies estimated gas by maxFeePerGas", async () => {
+    const cost = await estimateDeploymentCost(request);
+
+    // ethers: maxFeePerGas = 2 * baseFee + priority fee
+    const feePerGas = 21n * GWEI;
+    expect(cost).toEqual({ gas: 500_000n, feePerGas, cost: 500_000n * feePerGas, balance, heuristic: false });
+  });
+
+  test("falls back to the heuristic when estimation reverts", async () => {
+    estimateFails = true;
+    balance = 0n;
+    const cost = await estimateDeploymentCost(request);
+
+    expect(cost.heuristic).toBe(true);
+    expect(cost.gas).toBe(heuristicDeploymentGas(request.initcode, request.deployedSize));
+    expect(cost.balance).toBe(0n);
+  });
+});
+
+describe("isTransactionReverted", () => {
+  test("is true only for a mined transaction that reverted", async () => {
+    // cacheTimeout: -1 so each call reaches the stub instead of ethers' request cache
+    const provider = new JsonRpcProvider(request.rpc, undefined, { staticNetwork: true, cacheTimeout: -1 });
+    try {
+      expect(await isTransactionReverted(provider, TX_HASH)).toBe(false);
+      receiptStatus = "0x0";
+      expect(await isTransactionReverted(provider, TX_HASH)).toBe(true);
+      receiptStatus = null;
+      expect(await isTransactionReverted(provider, TX_HASH)).toBe(false);
+    } finally {
+      provider.destroy();
+    }
+  });
+});
+
+describe("heuristicDeploymentGas", () => {
+  test("grows with code size and charges less for zero calldata bytes", () => {
+    const small = heuristicDeploymentGas("0x6080", 100);
+    expect(heuristicDeploymentGas("0x6080", 5000)).toBeGreaterThan(small);
+    expect(heuristicDeploymentGas("0x0000", 100)).toBeLessThan(small);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Deployment broadcaster - sends CreateX deployCreate3AndInit transactions with ethers
+ *
+ * The deployer key is only ever held in memory: it is never placed on a command
+ * line or in the environment of a child process.
+ */
+
+import { JsonRpcProvider, Wallet, concat, getBytes, type InterfaceAbi } from "ethers";
+import { CreateXFactory, SpritzPayCoreFactory, type CreateXFunctions } from "../generated";
+import { encodeConstructorArgs } from "./abi";
+import type { ConstructorArg } from "./config";
+import { CREATEX_ADDRESS } from "./createx";
+
+export interface DeploymentRequest {
+  rpc: string;
+  privateKey: string;
+  salt: string;
+  // Frozen initcode with ABI-encoded constructor args already appended
+  initcode: string;
+  admin: string;
+  expectedAddress: string;
+  confirmations: number;
+  // Called as soon as the transaction hash is known, before waiting for inclusion
+  onSubmitted?: (txHash: string) => void;
+}
+
+export interface CostRequest {
+  rpc: string;
+  from: string;
+  salt: string;
+  // Frozen initcode with ABI-encoded constructor args already appended
+  initcode: string;
+  admin: string;
+  // Frozen runtime bytecode size, for the fallback estimate
+  deployedSize: number;
+}
+
+export interface DeploymentCost {
+  gas: bigint;
+  // maxFeePerGas on EIP-1559 chains, else gasPrice
+  feePerGas: bigint;
+  cost: bigint;
+  balance: bigint;
+  // True if eth_estimateGas failed and the gas is heuristicEstimateGas
+  heuristic: boolean;
+}
+
+export interface DeploymentReceipt {
+  txHash: string;
+  blockNumber: number;
+  blockHash: string;
+  // Block timestamp in seconds
+  timestamp: number;
+  from: string;
+  address: string;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  confirmations: number;
+}
+
+/**
+ * Appends ABI-encoded constructor args to frozen initcode, using the
+ * constructor inputs from the frozen ABI.
+ */
+export function buildInitcode(initcode: string, abi: InterfaceAbi, args: ConstructorArg[]): string {
+  return concat([initcode, encodeConstructorArgs(abi, args)]);
+}
+
+// Every Spritz contract is initialized with initialize(address), the same call as SpritzPayCore's
+export function encodeInitializeCall(admin: string): string {
+  return SpritzPayCoreFactory.encodeFunctionData("initialize", [admin]);
+}
+
+/**
+ * Rough gas for deployCreate3AndInit when the node can't estimate it, e.g.
+ * because a constructor dependency isn't deployed yet: intrinsic and calldata
+ * gas, the CREATE2 proxy plus CREATE, code deposit, initialize() and a rough
+ * allowance for the constructor, with 25% headroom.
+ */
+export function heuristicDeploymentGas(initcode: string, deployedSize: number): bigint {
+  const bytes = getBytes(initcode);
+  const zeroBytes = bytes.filter((b) => b === 0).length;
+  const calldata = 4 * zeroBytes + 16 * (bytes.length - zeroBytes);
+
+  const intrinsic = 21_000 + calldata;
+  const creates = 2 * 32_000 + 50_000;
+  const codeDeposit = 200 * deployedSize;
+  const initialize = 50_000;
+  const constructor = 100_000;
+
+  return (BigInt(intrinsic + creates + codeDeposit + initialize + constructor) * 125n) / 100n;
+}
+
+/**
+ * Estimates what a deployCreate3AndInit call will cost at current fees and
+ * reads the deployer's native balance to compare it with.
+ */
+export async function estimateDeploymentCost(request: CostRequest): Promise<DeploymentCost> {
+  const provider = new JsonRpcProvider(request.rpc);
+  try {
+    const data = CreateXFactory.encodeFunctionData("deployCreate3AndInit", [
+      request.salt,
+      request.initcode,
+      encodeInitializeCall(request.admin),
+      { constructorAmount: 0, initCallAmount: 0 },
+    ]);
+
+    const [feeData, balance, estimate] = await Promise.all([
+      provider.getFeeData(),
+      provider.getBalance(request.from),
+      provider.estimateGas({ from: request.from, to: CREATEX_ADDRESS, data }).catch(() => null),
+    ]);
+
+    const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    const gas = estimate ?? heuristicDeploymentGas(request.initcode, request.deployedSize);
+
+    return { gas, feePerGas, cost: gas * feePerGas, balance, heuristic: estimate === null };
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Simulates, sends and waits for a CreateX deployCreate3AndInit call.
+ * Throws if the simulated address differs from expectedAddress or the
+ * transaction reverts.
+ */
+export async function broadcastDeployment(request: DeploymentRequest): Promise<DeploymentReceipt> {
+  const provider = new JsonRpcProvider(request.rpc);
+  try {
+    const wallet = new Wallet(request.privateKey, provider);
+    const createx = CreateXFactory.connect(CREATEX_ADDRESS, wallet);
+
+    const callArgs: CreateXFunctions["deployCreate3AndInit"]["inputs"] = [
+      request.salt,
+      request.initcode,
+      encodeInitializeCall(request.admin),
+      { constructorAmount: 0, initCallAmount: 0 },
+    ];
+
+    const simulated = await createx.deployCreate3AndInit.staticCall(...callArgs);
+    if (simulated.toLowerCase() !== request.expectedAddress.toLowerCase()) {
+      throw new Error(`Address mismatch: CreateX would deploy to ${simulated}, expected ${request.expectedAddress}`);
+    }
+
+    const tx = await createx.deployCreate3AndInit(...callArgs);
+    request.onSubmitted?.(tx.hash);
+
+    return await waitForDeployment(provider, tx.hash, request.expectedAddress, request.confirmations);
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * True when the transaction was mined and reverted. A transaction the node
+ * doesn't know (dropped, or not propagated yet) is not reported as reverted.
+ */
+export async function isTransactionReverted(provider: JsonRpcProvider, txHash: string): Promise<boolean> {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  return receipt !== null && receipt.status === 0;
+}
+
+/**
+ * Waits for a previously submitted deployment transaction and builds its receipt.
+ * Throws if the node doesn't know the transaction or it reverted.
+ */
+export async function waitForDeployment(
+  provider: JsonRpcProvider,
+  txHash: string,
+  address: string,
+  confirmations: number,
+): Promise<DeploymentReceipt> {
+  if (!(await provider.getTransaction(txHash))) {
+    throw new Error(`Transaction ${txHash} not found (dropped or not yet propagated)`);
+  }
+
+  const receipt = await provider.waitForTransaction(txHash, confirmations);
+  if (!receipt) {
+    throw new Error(`Transaction ${txHash} not found`);
+  }
+  if (receipt.status !== 1) {
+    throw new Error(`Transaction ${txHash} reverted`);
+  }
+
+  const block = await provider.getBlock(receipt.blockNumber);
+
+  return {
+    txHash,
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    timestamp: block?.timestamp ?? 0,
+    from: receipt.from,
+    address,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.gasPrice,
+    confirmations,
+  };
+}
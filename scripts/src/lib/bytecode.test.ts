@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { checkImmutableValues, compareDeployedBytecode, extractImmutableReferences } from "./bytecode";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const EXCHANGE = "0x6352a56caadC4F1E25CD6c75970Fa768A3304e64";
+
+const ABI = [
+  {
+    type: "constructor",
+    inputs: [
+      { name: "_openOceanExchange", type: "address" },
+      { name: "_weth", type: "address" },
+    ],
+    stateMutability: "payable",
+  },
+];
+
+const word = (address: string) => address.toLowerCase().slice(2).padStart(64, "0");
+const zeros = "0".repeat(64);
+
+// 0x6080 | weth (32) | 0x5b | exchange (32) | 0x5b | weth (32) | 0x00
+const frozen = `0x6080${zeros}5b${zeros}5b${zeros}00`;
+const immutables = [
+  { name: "weth", astId: 7, offsets: [{ start: 2, length: 32 }, { start: 68, length: 32 }] },
+  { name: "openOceanExchange", astId: 9, offsets: [{ start: 35, length: 32 }] },
+];
+
+describe("compareDeployedBytecode", () => {
+  test("masks immutables and returns their values", () => {
+    const live = `0x6080${word(WETH)}5b${word(EXCHANGE)}5b${word(WETH)}00`;
+    const result = compareDeployedBytecode(live, frozen, immutables);
+    expect(result.valid).toBe(true);
+    expect(result.immutables).toEqual([
+      { name: "weth", value: `0x${word(WETH)}` },
+      { name: "openOceanExchange", value: `0x${word(EXCHANGE)}` },
+    ]);
+  });
+
+  test("rejects differences outside immutables", () => {
+    const live = `0x6080${word(WETH)}5c${word(EXCHANGE)}5b${word(WETH)}00`;
+    const result = compareDeployedBytecode(live, frozen, immutables);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain("byte 34");
+  });
+
+  test("rejects an immutable with inconsistent references", () => {
+    const live = `0x6080${word(WETH)}5b${word(EXCHANGE)}5b${word(EXCHANGE)}00`;
+    expect(compareDeployedBytecode(live, frozen, immutables).valid).toBe(false);
+  });
+
+  test("requires an exact match without immutables", () => {
+    expect(compareDeployedBytecode("0x6080", "0x6080", []).valid).toBe(true);
+    expect(compareDeployedBytecode("0x6080", "0x6081", []).valid).toBe(false);
+  });
+});
+
+describe("checkImmutableValues", () => {
+  const values = [
+    { name: "weth", value: `0x${word(WETH)}` },
+    { name: "openOceanExchange", value: `0x${word(EXCHANGE)}` },
+  ];
+
+  test("accepts immutables matching the constructor args", () => {
+    expect(checkImmutableValues(values, ABI, [EXCHANGE, WETH])).toEqual([]);
+  });
+
+  test("flags immutables that don't match the args for the chain", () => {
+    const otherWeth = "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1";
+    const problems = checkImmutableValues(values, ABI, [EXCHANGE, otherWeth]);
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toContain("Immutable weth");
+    expect(problems[1]).toContain("_weth");
+  });
+});
+
+describe("extractImmutableReferences", () => {
+  test("names references from the AST", () => {
+    const artifact = {
+      deployedBytecode: { immutableReferences: { "12": [{ start: 40, length: 32 }] } },
+      ast: { nodes: [{ nodeType: "ContractDefinition", nodes: [{ nodeType: "VariableDeclaration", id: 12, name: "core" }] }] },
+    };
+    expect(extractImmutableReferences(artifact)).toEqual([
+      { name: "core", astId: 12, offsets: [{ start: 40, length: 32 }] },
+    ]);
+  });
+
+  test("falls back to the AST id without an AST", () => {
+    const artifact = { deployedBytecode: { immutableReferences: { "12": [{ start: 40, length: 32 }] } } };
+    expect(extractImmutableReferences(artifact)[0].name).toBe("immutable_12");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Bytecode comparison - exact runtime bytecode checks that understand immutables
+ *
+ * solc leaves zeroed placeholders in the deployed bytecode for every immutable
+ * and the constructor fills them in. Freezing records where those placeholders
+ * are (immutableReferences), so live code can be compared byte-for-byte outside
+ * them and the values inside them checked against the constructor args.
+ */
+
+import { AbiCoder, Interface, dataSlice, type InterfaceAbi } from "ethers";
+
+export interface ImmutableReference {
+  // Solidity variable name, or `immutable_<astId>` if the AST was unavailable
+  name: string;
+  astId: number;
+  // Byte offsets into the deployed bytecode
+  offsets: { start: number; length: number }[];
+}
+
+export interface ImmutableValue {
+  name: string;
+  value: string;
+}
+
+export interface BytecodeComparison {
+  valid: boolean;
+  error?: string;
+  immutables: ImmutableValue[];
+}
+
+interface AstNode {
+  id?: number;
+  nodeType?: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+function findVariableNames(node: unknown, ids: Set<number>, names: Map<number, string>): void {
+  if (Array.isArray(node)) {
+    for (const child of node) findVariableNames(child, ids, names);
+    return;
+  }
+  if (!node || typeof node !== "object") {
+    return;
+  }
+  const ast = node as AstNode;
+  if (ast.nodeType === "VariableDeclaration" && ast.id !== undefined && ids.has(ast.id) && ast.name) {
+    names.set(ast.id, ast.name);
+  }
+  for (const value of Object.values(ast)) {
+    if (value && typeof value === "object") findVariableNames(value, ids, names);
+  }
+}
+
+/**
+ * Reads immutableReferences from a forge build artifact (out/<File>.sol/<Contract>.json),
+ * naming each one from the artifact's AST when it was built with --ast.
+ */
+export function extractImmutableReferences(artifact: {
+  deployedBytecode?: { immutableReferences?: Record<string, { start: number; length: number }[]> };
+  ast?: unknown;
+}): ImmutableReference[] {
+  const refs = artifact.deployedBytecode?.immutableReferences ?? {};
+  const ids = new Set(Object.keys(refs).map(Number));
+
+  const names = new Map<number, string>();
+  if (artifact.ast) {
+    findVariableNames(artifact.ast, ids, names);
+  }
+
+  return Object.entries(refs)
+    .map(([id, offsets]) => ({
+      name: names.get(Number(id)) ?? `immutable_${id}`,
+      astId: Number(id),
+      offsets: [...offsets].sort((a, b) => a.start - b.start),
+    }))
+    .sort((a, b) => a.offsets[0].start - b.offsets[0].start);
+}
+
+/**
+ * Compares live runtime code with frozen deployed bytecode. Bytes outside the
+ * immutable ranges must match exactly; the values inside them are returned.
+ */
+export function compareDeployedBytecode(
+  onChain: string,
+  frozen: string,
+  immutables: ImmutableReference[],
+): BytecodeComparison {
+  const live = onChain.toLowerCase().replace(/^0x/, "");
+  const expected = frozen.toLowerCase().replace(/^0x/, "");
+
+  if (live.length !== expected.length) {
+    return {
+      valid: false,
+      error: `Length differs: ${live.length / 2} bytes on-chain, ${expected.length / 2} frozen`,
+      immutables: [],
+    };
+  }
+
+  let maskedLive = live;
+  let maskedExpected = expected;
+  const values: ImmutableValue[] = [];
+
+  for (const ref of immutables) {
+    let value: string | undefined;
+    for (const { start, length } of ref.offsets) {
+      const from = start * 2;
+      const to = from + length * 2;
+      if (to > live.length) {
+        return { valid: false, error: `Immutable ${ref.name} is out of range`, immutables: [] };
+      }
+      const slot = "0x" + live.slice(from, to);
+      if (value !== undefined && value !== slot) {
+        return { valid: false, error: `Immutable ${ref.name} differs between its references`, immutables: [] };
+      }
+      value = slot;
+      const zeros = "0".repeat(to - from);
+      maskedLive = maskedLive.slice(0, from) + zeros + maskedLive.slice(to);
+      maskedExpected = maskedExpected.slice(0, from) + zeros + maskedExpected.slice(to);
+    }
+    if (value !== undefined) {
+      values.push({ name: ref.name, value });
+    }
+  }
+
+  if (maskedLive !== maskedExpected) {
+    const index = [...maskedLive].findIndex((c, i) => c !== maskedExpected[i]);
+    return {
+      valid: false,
+      error: `Bytecode differs from frozen at byte ${Math.floor(index / 2)} (outside immutables)`,
+      immutables: values,
+    };
+  }
+
+  return { valid: true, immutables: values };
+}
+
+/**
+ * Checks decoded immutable values against the resolved constructor args: every
+ * immutable must hold one of the args, and every address arg must end up in
+ * some immutable. Returns a list of problems (empty if consistent).
+ */
+export function checkImmutableValues(
+  values: ImmutableValue[],
+  abi: InterfaceAbi,
+  args: unknown[],
+): string[] {
+  const inputs = new Interface(abi).deploy.inputs;
+  const coder = AbiCoder.defaultAbiCoder();
+
+  const encoded = inputs.map((input, i) => ({
+    name: input.name || `arg${i}`,
+    type: input.type,
+    // Only single-word value types can be stored in an immutable
+    word:
+      input.isTuple() || input.isArray() || input.baseType === "string" || input.baseType === "bytes"
+        ? null
+        : coder.encode([input.type], [args[i]]).toLowerCase(),
+  }));
+
+  const problems: string[] = [];
+
+  for (const { name, value } of values) {
+    const padded = value.length === 66 ? value : "0x" + value.slice(2).padStart(64, "0");
+    if (!encoded.some((e) => e.word === padded)) {
+      problems.push(`Immutable ${name} holds ${describeWord(padded)}, which is not a constructor arg`);
+    }
+  }
+
+  for (const arg of encoded) {
+    if (arg.type !== "address" || !arg.word) continue;
+    if (!values.some((v) => v.value.toLowerCase() === arg.word)) {
+      problems.push(`Constructor arg ${arg.name} (${describeWord(arg.word)}) is not stored in any immutable`);
+    }
+  }
+
+  return problems;
+}
+
+function describeWord(word: string): string {
+  // Left-padded 20-byte values are shown as addresses
+  return /^0x0{24}/.test(word) ? dataSlice(word, 12) : word;
+}
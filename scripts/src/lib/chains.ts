@@ -2,17 +2,23 @@
  * Chain utilities - build runtime chain objects with resolved values
  */
 
-import type { Config, ChainConfig } from "./config";
+import { getChainAdmin, type Config, type ChainConfig } from "./config";
+import type { VerifierName } from "./verifier";
 
 export interface Chain {
   name: string;
   chainId: number;
   rpc: string;
   explorer: string;
-  etherscanApi?: string;
+  blockscoutApi?: string;
+  verifiers: VerifierName[];
   safeService?: string;
+  // Admin Safe address, its expected threshold and (optionally) owners
   admin: string;
+  threshold: number;
+  owners?: string[];
   testnet: boolean;
+  confirmations?: number;
 }
 
 export function buildChains(
@@ -23,15 +29,24 @@ export function buildChains(
 
   for (const [name, chainConfig] of Object.entries(config.chains)) {
     const rpc = chainConfig.rpc.replace("${RPC_KEY}", rpcKey);
+    const admin = getChainAdmin(config, name);
     chains[name] = {
       name,
       chainId: chainConfig.chainId,
       rpc,
       explorer: chainConfig.explorer,
-      etherscanApi: chainConfig.etherscanApi,
+      blockscoutApi: chainConfig.blockscoutApi,
+      verifiers: chainConfig.verifiers ?? [
+        "etherscan",
+        "sourcify",
+        ...(chainConfig.blockscoutApi ? (["blockscout"] as const) : []),
+      ],
       safeService: chainConfig.safeService,
-      admin: config.admin.safe,
+      admin: admin.safe,
+      threshold: admin.threshold,
+      owners: admin.owners,
       testnet: chainConfig.testnet ?? false,
+      confirmations: chainConfig.confirmations,
     };
   }
 
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  applyEnvironment,
+  ConfigSchema,
+  formatConfigJson,
+  getChainAdmin,
+  listConfiguredSalts,
+  listEnvironments,
+  parseEnvironmentArg,
+  setContractSalt,
+  type Config,
+} from "./config";
+
+const DEPLOYER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+const SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c00a4f2755e904c6f005ce60c";
+const STAGING_SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c0089a6794af580cbf4a3df8f";
+const SAFE = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+const STAGING_SAFE = "0x000000000000000000000000000000000000dEaD";
+const WETH = "0x4200000000000000000000000000000000000006";
+const TEST_WETH = "0x1111111111111111111111111111111111111111";
+
+const chain = (chainId: number) => ({
+  chainId,
+  rpc: "https://rpc.example",
+  explorer: "https://explorer.example",
+  addresses: { weth: WETH, openOcean: WETH },
+});
+
+const CONFIG: Config = {
+  admin: { safe: SAFE, threshold: 2 },
+  deployer: { address: DEPLOYER, keyRef: "op://vault/item/field" },
+  contracts: { SpritzPayCore: { salt: SALT } },
+  chains: { base: chain(8453), arbitrum: chain(42161) },
+  environments: {
+    staging: {
+      admin: { safe: STAGING_SAFE, threshold: 1 },
+      enabledChains: ["base"],
+      chains: { base: { addresses: { weth: TEST_WETH } } },
+      contracts: { SpritzPayCore: { salt: STAGING_SALT } },
+    },
+    sandbox: {
+      contracts: {},
+    },
+  },
+};
+
+describe("ConfigSchema", () => {
+  test("rejects unknown chain keys, naming removed ones", () => {
+    const withKey = (key: string) => ({ ...CONFIG, chains: { base: { ...chain(8453), [key]: "https://api.basescan.org/api" } } });
+
+    expect(() => ConfigSchema.parse(withKey("etherscanApi"))).toThrow("etherscanApi is no longer supported");
+    expect(() => ConfigSchema.parse(withKey("blockscoutAPI"))).toThrow("Unknown key blockscoutAPI");
+    expect(ConfigSchema.parse(CONFIG).chains.base.chainId).toBe(8453);
+  });
+});
+
+describe("applyEnvironment", () => {
+  test("returns production unchanged", () => {
+    expect(applyEnvironment(CONFIG, "production")).toBe(CONFIG);
+  });
+
+  test("merges admin, chains, addresses and salts", () => {
+    const staging = applyEnvironment(CONFIG, "staging");
+
+    expect(staging.admin).toEqual({ safe: STAGING_SAFE, threshold: 1 });
+    expect(Object.keys(staging.chains)).toEqual(["base"]);
+    expect(staging.chains.base.addresses).toEqual({ weth: TEST_WETH, openOcean: WETH });
+    expect(staging.contracts.SpritzPayCore.salt).toBe(STAGING_SALT);
+    expect(CONFIG.chains.base.addresses!.weth).toBe(WETH);
+  });
+
+  test("resolves the admin Safe per chain and environment", () => {
+    const HYPER_SAFE = "0x2222222222222222222222222222222222222222";
+    const withChainAdmin: Config = {
+      ...CONFIG,
+      chains: { ...CONFIG.chains, arbitrum: { ...chain(42161), admin: { safe: HYPER_SAFE, threshold: 1 } } },
+      environments: {
+        ...CONFIG.environments,
+        sandbox: { chains: { base: { admin: { safe: STAGING_SAFE, threshold: 1 } } } },
+      },
+    };
+
+    const production = applyEnvironment(withChainAdmin, "production");
+    expect(getChainAdmin(production, "base").safe).toBe(SAFE);
+    expect(getChainAdmin(production, "arbitrum").safe).toBe(HYPER_SAFE);
+
+    const sandbox = applyEnvironment(withChainAdmin, "sandbox");
+    expect(getChainAdmin(sandbox, "base").safe).toBe(STAGING_SAFE);
+    expect(getChainAdmin(sandbox, "arbitrum").safe).toBe(HYPER_SAFE);
+
+    // An environment-wide admin replaces chain admins from the base config
+    const staging = applyEnvironment({ ...withChainAdmin, environments: { staging: { admin: { safe: STAGING_SAFE, threshold: 1 } } } }, "staging");
+    expect(getChainAdmin(staging, "arbitrum").safe).toBe(STAGING_SAFE);
+  });
+
+  test("lets an environment pin a frozen version", () => {
+    const pinned = applyEnvironment(
+      { ...CONFIG, environments: { staging: { contracts: { SpritzPayCore: { version: "v2" } } } } },
+      "staging",
+    );
+    expect(pinned.contracts.SpritzPayCore).toEqual({ salt: SALT, version: "v2" });
+  });
+
+  test("rejects unknown environments and chains", () => {
+    expect(() => applyEnvironment(CONFIG, "partner-x")).toThrow("Known environments: production, sandbox, staging");
+
+    const broken = { ...CONFIG, environments: { audit: { enabledChains: ["solana"] } } };
+    expect(() => applyEnvironment(broken, "audit")).toThrow("unknown chain(s): solana");
+  });
+});
+
+describe("parseEnvironmentArg", () => {
+  const known = listEnvironments(CONFIG);
+
+  test("defaults to production", () => {
+    expect(parseEnvironmentArg(["--list"], known)).toBe("production");
+  });
+
+  test("accepts declared environments", () => {
+    expect(parseEnvironmentArg(["--list", "--env", "staging"], known)).toBe("staging");
+    expect(parseEnvironmentArg(["-e", "sandbox"], known)).toBe("sandbox");
+  });
+
+  test("rejects unknown or missing names", () => {
+    expect(() => parseEnvironmentArg(["--env", "partner-x"], known)).toThrow('Unknown environment "partner-x"');
+    expect(() => parseEnvironmentArg(["--env"], known)).toThrow("Missing environment");
+  });
+});
+
+describe("setContractSalt", () => {
+  const NEW_SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c0050378273bf5c7e02172697";
+
+  test("writes production and environment salts without touching the input", () => {
+    const production = setContractSalt(CONFIG, "production", "SpritzRouter", NEW_SALT);
+    expect(production.contracts.SpritzRouter).toEqual({ salt: NEW_SALT });
+
+    const sandbox = setContractSalt(CONFIG, "sandbox", "SpritzPayCore", NEW_SALT);
+    expect(sandbox.environments!.sandbox.contracts!.SpritzPayCore).toEqual({ salt: NEW_SALT });
+    expect(listConfiguredSalts(sandbox)).toEqual([SALT, STAGING_SALT, NEW_SALT]);
+    expect(CONFIG.environments!.sandbox.contracts).toEqual({});
+  });
+
+  test("refuses to replace a salt", () => {
+    expect(() => setContractSalt(CONFIG, "production", "SpritzPayCore", NEW_SALT)).toThrow("already has a salt in contracts");
+    expect(() => setContractSalt(CONFIG, "staging", "SpritzPayCore", NEW_SALT)).toThrow(
+      "already has a salt in environments.staging.contracts",
+    );
+  });
+});
+
+describe("formatConfigJson", () => {
+  test("round-trips config.json byte for byte", () => {
+    const text = readFileSync(join(import.meta.dir, "../../../config.json"), "utf8");
+    expect(formatConfigJson(JSON.parse(text))).toBe(text);
+  });
+});
@@ -2,40 +2,99 @@
  * Config loading - config.json loading with Zod schemas
  */
 
-import { existsSync, readFileSync } from "fs";
+import { existsSync, readFileSync, writeFileSync } from "fs";
 import { join } from "path";
 import { z } from "zod";
-import { AddressSchema, SaltSchema, OpRefSchema, getDeployerFromSalt } from "./validation";
-
-const ChainConfigSchema = z.object({
-  chainId: z.number(),
-  rpc: z.string(),
-  explorer: z.string().url(),
-  etherscanApi: z.string().url().optional(),
-  safeService: z.string().url().optional(),
-  testnet: z.boolean().optional(),
-  // Chain-specific addresses for contracts with chain-dependent constructor args
-  addresses: z.record(z.string(), AddressSchema).optional(),
+import { checkSaltGuard } from "./createx";
+import { VERIFIERS } from "./verifier";
+import { AddressSchema, SaltSchema, KeyRefSchema, VersionSchema, getDeployerFromSalt } from "./validation";
+
+const AdminConfigSchema = z.object({
+  safe: AddressSchema,
+  threshold: z.number().min(1),
+  // Expected Safe owners; when set, the on-chain owner list must match exactly
+  owners: z.array(AddressSchema).optional(),
 });
 
+// Removed chain keys, with what replaced them
+const REMOVED_CHAIN_KEYS: Record<string, string> = {
+  etherscanApi: "verification uses the Etherscan v2 API, which selects the chain by chainId",
+};
+
+// Unknown keys are rejected so a removed or misspelled setting isn't silently ignored
+const ChainConfigSchema = z.strictObject(
+  {
+    chainId: z.number(),
+    rpc: z.string(),
+    explorer: z.string().url(),
+    // Blockscout's Etherscan-compatible API, e.g. https://base.blockscout.com/api
+    blockscoutApi: z.string().url().optional(),
+    // Where to submit source verification (default: etherscan, sourcify, and blockscout if configured)
+    verifiers: z.array(z.enum(VERIFIERS)).optional(),
+    safeService: z.string().url().optional(),
+    testnet: z.boolean().optional(),
+    // Block confirmations to wait for after a deployment (default 1)
+    confirmations: z.number().int().min(1).optional(),
+    // Chain-specific addresses for contracts with chain-dependent constructor args
+    addresses: z.record(z.string(), AddressSchema).optional(),
+    // Admin Safe for this chain when it can't use the shared one
+    admin: AdminConfigSchema.optional(),
+  },
+  {
+    error: (issue) => {
+      if (issue.code !== "unrecognized_keys") return undefined;
+      return issue.keys
+        .map((key) => (REMOVED_CHAIN_KEYS[key] ? `${key} is no longer supported: ${REMOVED_CHAIN_KEYS[key]}` : `Unknown key ${key}`))
+        .join("; ");
+    },
+  },
+);
+
+/**
+ * A constructor arg as written in config.json. Strings may be contract names or
+ * ${chain.<key>} references; everything is checked against the frozen ABI.
+ */
+export type ConstructorArg = string | number | boolean | ConstructorArg[];
+
+const ConstructorArgSchema: z.ZodType<ConstructorArg> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.array(ConstructorArgSchema)]),
+);
+
 const ContractConfigSchema = z.object({
   salt: SaltSchema,
-  args: z.array(z.string()).optional(),
+  args: z.array(ConstructorArgSchema).optional(),
+  // Whether the address must be the same on every chain (default true); false needs a 0x01 salt
+  crossChain: z.boolean().optional(),
+  // Frozen version to deploy (default: deployments/<Contract>/current)
+  version: VersionSchema.optional(),
 });
 
 const EnvironmentConfigSchema = z.object({
-  contracts: z.record(z.string(), ContractConfigSchema.partial()),
+  // Replaces the top-level admin Safe for this environment
+  admin: AdminConfigSchema.optional(),
+  // Restricts the environment to these chains (default: every chain)
+  enabledChains: z.array(z.string()).optional(),
+  // Per-chain overrides: addresses are merged over chains.<name>.addresses
+  chains: z
+    .record(
+      z.string(),
+      z.object({
+        addresses: z.record(z.string(), AddressSchema).optional(),
+        admin: AdminConfigSchema.optional(),
+      }),
+    )
+    .optional(),
+  contracts: z.record(z.string(), ContractConfigSchema.partial()).optional(),
 });
 
 export const ConfigSchema = z.object({
-  admin: z.object({
-    safe: AddressSchema,
-    threshold: z.number().min(1),
-  }),
+  admin: AdminConfigSchema,
   deployer: z.object({
     address: AddressSchema,
-    keyRef: OpRefSchema,
+    keyRef: KeyRefSchema,
   }),
+  // Rebuild frozen packages before every mainnet broadcast, as if --check-build were passed
+  requireBuildCheck: z.boolean().optional(),
   contracts: z.record(z.string(), ContractConfigSchema),
   environments: z.record(z.string(), EnvironmentConfigSchema).optional(),
   etherscan: z
@@ -46,45 +105,154 @@ export const ConfigSchema = z.object({
   chains: z.record(z.string(), ChainConfigSchema),
 });
 
-export type Environment = "production" | "sandbox";
+/**
+ * Environment name. "production" always exists and uses the top-level config;
+ * any other name must be declared under environments in config.json.
+ */
+export type Environment = string;
+
+export const DEFAULT_ENVIRONMENT = "production";
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type ChainConfig = z.infer<typeof ChainConfigSchema>;
 export type ContractConfig = z.infer<typeof ContractConfigSchema>;
+export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>;
+export type AdminConfig = z.infer<typeof AdminConfigSchema>;
 
 export interface LoadConfigOptions {
   configPath?: string;
   environment?: Environment;
 }
 
-export function loadConfig(options?: LoadConfigOptions): Config {
-  const resolvedPath = options?.configPath ?? join(process.cwd(), "config.json");
-  const environment = options?.environment ?? "production";
-
+function resolveConfigPath(configPath?: string): string {
+  const resolvedPath = configPath ?? join(process.cwd(), "config.json");
   if (!existsSync(resolvedPath)) {
     throw new Error(`config.json not found at ${resolvedPath}. Run from project root.`);
   }
+  return resolvedPath;
+}
+
+function readConfigFile(configPath?: string): Config {
+  return ConfigSchema.parse(JSON.parse(readFileSync(resolveConfigPath(configPath), "utf8")));
+}
 
-  const content = readFileSync(resolvedPath, "utf8");
-  const raw = JSON.parse(content);
-  const config = ConfigSchema.parse(raw);
+// A JSON string, number, boolean or null, as JSON.stringify writes them
+const JSON_SCALAR = String.raw`(?:"(?:[^"\\]|\\.)*"|-?[\d.eE+-]+|true|false|null)`;
+const SCALAR_ARRAY = new RegExp(String.raw`\[\n\s+(${JSON_SCALAR}(?:,\n\s+${JSON_SCALAR})*)\n\s*\]`, "g");
 
-  // For production, use contracts as-is
-  if (environment === "production") {
-    return config;
+/**
+ * Serializes config the way config.json is written by hand: 2-space indent,
+ * with arrays of scalars (args, enabledChains, ...) kept on one line.
+ */
+export function formatConfigJson(config: Config): string {
+  const json = JSON.stringify(config, null, 2);
+  return json.replace(SCALAR_ARRAY, (_match, items: string) => `[${items.split(/,\n\s+/).join(", ")}]`) + "\n";
+}
+
+/**
+ * Applies an edit to the unmerged config.json and writes it back. The edit
+ * sees the file as written, not as parsed, so key order is preserved; the
+ * result is validated before anything is written.
+ */
+export function updateConfigFile(update: (config: Config) => Config, configPath?: string): void {
+  const resolvedPath = resolveConfigPath(configPath);
+  const updated = update(JSON.parse(readFileSync(resolvedPath, "utf8")) as Config);
+  ConfigSchema.parse(updated);
+  writeFileSync(resolvedPath, formatConfigJson(updated));
+}
+
+/**
+ * Sets a contract's salt in `contracts` (production) or
+ * `environments.<env>.contracts`. Refuses to replace an existing salt, since
+ * that would move the contract's address.
+ */
+export function setContractSalt(config: Config, environment: Environment, contractName: string, salt: string): Config {
+  if (environment === DEFAULT_ENVIRONMENT) {
+    const existing = config.contracts[contractName];
+    if (existing?.salt) {
+      throw new Error(`${contractName} already has a salt in contracts`);
+    }
+    return { ...config, contracts: { ...config.contracts, [contractName]: { ...existing, salt } } };
   }
 
-  // For other environments, merge environment-specific contract overrides
   const envConfig = config.environments?.[environment];
   if (!envConfig) {
-    throw new Error(`Environment "${environment}" not found in config.json`);
+    throw new Error(`Unknown environment "${environment}"`);
+  }
+  const existing = envConfig.contracts?.[contractName];
+  if (existing?.salt) {
+    throw new Error(`${contractName} already has a salt in environments.${environment}.contracts`);
   }
+  const contracts = { ...envConfig.contracts, [contractName]: { ...existing, salt } };
+  return { ...config, environments: { ...config.environments, [environment]: { ...envConfig, contracts } } };
+}
 
-  const mergedContracts = { ...config.contracts };
-  for (const [name, overrides] of Object.entries(envConfig.contracts)) {
-    if (mergedContracts[name]) {
-      mergedContracts[name] = {
-        ...mergedContracts[name],
+/**
+ * Every salt in config.json, across production and all environments.
+ */
+export function listConfiguredSalts(config: Config): string[] {
+  const salts = Object.values(config.contracts).map((c) => c.salt);
+  for (const envConfig of Object.values(config.environments ?? {})) {
+    for (const contract of Object.values(envConfig.contracts ?? {})) {
+      if (contract.salt) {
+        salts.push(contract.salt);
+      }
+    }
+  }
+  return salts;
+}
+
+/**
+ * Names of all environments in config.json, production first.
+ */
+export function listEnvironments(config: Pick<Config, "environments">): Environment[] {
+  const declared = Object.keys(config.environments ?? {}).filter((name) => name !== DEFAULT_ENVIRONMENT);
+  return [DEFAULT_ENVIRONMENT, ...declared.sort()];
+}
+
+/**
+ * Merges an environment's overrides (admin, enabled chains, chain addresses,
+ * contract salts/args) over the top-level config.
+ *
+ * Admin precedence, most specific first: environment chain admin, environment
+ * admin, chain admin, top-level admin. The result keeps only what applies, so
+ * callers just check chains.<name>.admin before falling back to admin.
+ */
+export function applyEnvironment(config: Config, environment: Environment): Config {
+  const envConfig = config.environments?.[environment];
+  if (!envConfig) {
+    if (environment === DEFAULT_ENVIRONMENT) {
+      return config;
+    }
+    throw new Error(
+      `Unknown environment "${environment}". Known environments: ${listEnvironments(config).join(", ")}`
+    );
+  }
+
+  const unknownChains = [
+    ...(envConfig.enabledChains ?? []),
+    ...Object.keys(envConfig.chains ?? {}),
+  ].filter((name) => !config.chains[name]);
+  if (unknownChains.length > 0) {
+    throw new Error(`Environment "${environment}" references unknown chain(s): ${unknownChains.join(", ")}`);
+  }
+
+  const chains: Config["chains"] = {};
+  for (const [name, chainConfig] of Object.entries(config.chains)) {
+    if (envConfig.enabledChains && !envConfig.enabledChains.includes(name)) continue;
+    const overrides = envConfig.chains?.[name];
+    chains[name] = {
+      ...chainConfig,
+      addresses: overrides?.addresses ? { ...chainConfig.addresses, ...overrides.addresses } : chainConfig.addresses,
+      admin: overrides?.admin ?? (envConfig.admin ? undefined : chainConfig.admin),
+    };
+  }
+
+  const contracts = { ...config.contracts };
+  for (const [name, overrides] of Object.entries(envConfig.contracts ?? {})) {
+    if (contracts[name]) {
+      contracts[name] = {
+        ...contracts[name],
         ...overrides,
       };
     }
@@ -92,10 +260,29 @@ export function loadConfig(options?: LoadConfigOptions): Config {
 
   return {
     ...config,
-    contracts: mergedContracts,
+    admin: envConfig.admin ?? config.admin,
+    contracts,
+    chains,
   };
 }
 
+export function loadConfig(options?: LoadConfigOptions): Config {
+  const config = readConfigFile(options?.configPath);
+  return applyEnvironment(config, options?.environment ?? DEFAULT_ENVIRONMENT);
+}
+
+/**
+ * Environments declared in config.json, for CLI help and --env validation.
+ * Returns just production if config.json can't be read.
+ */
+export function loadEnvironmentNames(configPath?: string): Environment[] {
+  try {
+    return listEnvironments(readConfigFile(configPath));
+  } catch {
+    return [DEFAULT_ENVIRONMENT];
+  }
+}
+
 export function loadConfigSafe(options?: LoadConfigOptions): Config | null {
   try {
     return loadConfig(options);
@@ -104,18 +291,32 @@ export function loadConfigSafe(options?: LoadConfigOptions): Config | null {
   }
 }
 
+/**
+ * The admin Safe for a chain in an already environment-merged config.
+ */
+export function getChainAdmin(config: Config, chainName: string): AdminConfig {
+  return config.chains[chainName]?.admin ?? config.admin;
+}
+
 export function getContractConfig(config: Config, contractName: string): ContractConfig | null {
   return config.contracts[contractName] ?? null;
 }
 
-export function parseEnvironmentArg(args: string[]): Environment {
+/**
+ * Reads --env/-e from the args (default production) and checks it against the
+ * known environments.
+ */
+export function parseEnvironmentArg(args: string[], known: Environment[]): Environment {
   const envIndex = args.findIndex((a) => a === "--env" || a === "-e");
-  if (envIndex === -1 || envIndex === args.length - 1) {
-    return "production";
+  if (envIndex === -1) {
+    return DEFAULT_ENVIRONMENT;
   }
   const envValue = args[envIndex + 1];
-  if (envValue !== "production" && envValue !== "sandbox") {
-    throw new Error(`Invalid environment: ${envValue}. Must be "production" or "sandbox"`);
+  if (!envValue || envValue.startsWith("-")) {
+    throw new Error(`Missing environment after ${args[envIndex]}. Known environments: ${known.join(", ")}`);
+  }
+  if (!known.includes(envValue)) {
+    throw new Error(`Unknown environment "${envValue}". Known environments: ${known.join(", ")}`);
   }
   return envValue;
 }
@@ -166,25 +367,29 @@ export function applyEnvOverrides(config: Config, env: EnvOverrides): ApplyEnvRe
     }
   }
 
+  const newConfig: Config = {
+    ...config,
+    deployer: {
+      address: newDeployer,
+      keyRef: env.DEPLOYER_KEY_REF ?? config.deployer.keyRef,
+    },
+    contracts: newContracts,
+  };
+
   for (const [contractName, contractConfig] of Object.entries(newContracts)) {
     const saltDeployer = getDeployerFromSalt(contractConfig.salt);
-    if (saltDeployer.toLowerCase() !== newDeployer.toLowerCase()) {
+    // Zero-address salts aren't tied to a deployer (see GUARD_MODES)
+    if (!/^0x0{40}$/.test(saltDeployer) && saltDeployer.toLowerCase() !== newDeployer.toLowerCase()) {
       warnings.push(
         `${contractName}: salt deployer (${saltDeployer.slice(0, 10)}...) doesn't match deployer (${newDeployer.slice(0, 10)}...). ` +
-        `CreateX will reject this deployment.`
+        `CreateX will treat it as an unguarded salt and deploy to a different address.`
       );
     }
+    const guardProblem = checkSaltGuard(newConfig, contractName);
+    if (guardProblem) {
+      warnings.push(guardProblem);
+    }
   }
 
-  return {
-    config: {
-      ...config,
-      deployer: {
-        address: newDeployer,
-        keyRef: env.DEPLOYER_KEY_REF ?? config.deployer.keyRef,
-      },
-      contracts: newContracts,
-    },
-    warnings,
-  };
+  return { config: newConfig, warnings };
 }
@@ -28,6 +28,11 @@ export function info(msg: string): void {
   console.log(`${colors.blue}ℹ${colors.reset} ${msg}`);
 }
 
+// info on stderr, for commands whose stdout is their output
+export function progress(msg: string): void {
+  console.error(`${colors.blue}ℹ${colors.reset} ${msg}`);
+}
+
 export function warn(msg: string): void {
   console.log(`${colors.yellow}!${colors.reset} ${msg}`);
 }
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { AbiCoder, keccak256 } from "ethers";
+import type { Config } from "./config";
+import {
+  checkSaltGuard,
+  checksumAddress,
+  computeCreate3Address,
+  computeGuardedSalt,
+  generateSalt,
+  getContractAddress,
+  getContractAddresses,
+  getSaltGuardMode,
+  hasChainSpecificArgs,
+} from "./createx";
+import { parseSaltInventory, SALTS_FILE } from "./salts";
+import { getDeployerFromSalt } from "./validation";
+
+// Pre-mined `salt => address` pairs produced by createXcrunch
+const SALT_VECTORS = parseSaltInventory(readFileSync(SALTS_FILE, "utf8"));
+
+describe("computeCreate3Address", () => {
+  test("salts.txt has vectors", () => {
+    expect(SALT_VECTORS.length).toBeGreaterThan(0);
+  });
+
+  test("matches every pre-mined address in salts.txt", () => {
+    for (const { salt, address } of SALT_VECTORS) {
+      const deployer = getDeployerFromSalt(salt);
+      expect(computeCreate3Address(deployer, salt)).toBe(address.toLowerCase());
+    }
+  });
+
+  test("ignores deployer address casing", () => {
+    const { salt, address } = SALT_VECTORS[0];
+    const deployer = checksumAddress(getDeployerFromSalt(salt));
+    expect(computeCreate3Address(deployer, salt)).toBe(address.toLowerCase());
+  });
+});
+
+describe("checksumAddress", () => {
+  test("returns the EIP-55 form", () => {
+    expect(checksumAddress("0x000000000012f55170d4a2ab5ace512eeb925dca")).toBe(
+      "0x000000000012F55170d4A2aB5ace512Eeb925Dca",
+    );
+  });
+});
+
+const DEPLOYER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+const ENTROPY = "a4f2755e904c6f005ce60c";
+const salt = (prefix: string, flag: string) => `0x${prefix}${flag}${ENTROPY}`;
+const DEPLOYER_SALT = salt(DEPLOYER.slice(2).toLowerCase(), "00");
+const DEPLOYER_CHAIN_SALT = salt(DEPLOYER.slice(2).toLowerCase(), "01");
+const NONE_SALT = salt("00".repeat(20), "00");
+const CHAIN_SALT = salt("00".repeat(20), "01");
+const abi = AbiCoder.defaultAbiCoder();
+
+describe("CreateX guard modes", () => {
+  test("reads the guard from the salt prefix and flag byte", () => {
+    expect(getSaltGuardMode(DEPLOYER, DEPLOYER_SALT)).toBe("deployer");
+    expect(getSaltGuardMode(DEPLOYER, DEPLOYER_CHAIN_SALT)).toBe("deployer-chain");
+    expect(getSaltGuardMode(DEPLOYER, NONE_SALT)).toBe("none");
+    expect(getSaltGuardMode(DEPLOYER, CHAIN_SALT)).toBe("chain");
+    // Someone else's salt is unguarded for us, whatever its flag
+    expect(getSaltGuardMode(DEPLOYER, salt("11".repeat(20), "07"))).toBe("none");
+  });
+
+  test("rejects flag bytes CreateX reverts on", () => {
+    expect(() => getSaltGuardMode(DEPLOYER, salt(DEPLOYER.slice(2), "02"))).toThrow("CreateX only accepts 0x00 or 0x01");
+    expect(() => getSaltGuardMode(DEPLOYER, salt("00".repeat(20), "ff"))).toThrow("CreateX only accepts 0x00 or 0x01");
+  });
+
+  test("guards salts like CreateX's _guard", () => {
+    expect(computeGuardedSalt(DEPLOYER, DEPLOYER_SALT)).toBe(keccak256(abi.encode(["address", "bytes32"], [DEPLOYER, DEPLOYER_SALT])));
+    expect(computeGuardedSalt(DEPLOYER, DEPLOYER_CHAIN_SALT, 8453)).toBe(
+      keccak256(abi.encode(["address", "uint256", "bytes32"], [DEPLOYER, 8453, DEPLOYER_CHAIN_SALT])),
+    );
+    expect(computeGuardedSalt(DEPLOYER, CHAIN_SALT, 8453)).toBe(keccak256(abi.encode(["uint256", "bytes32"], [8453, CHAIN_SALT])));
+    expect(computeGuardedSalt(DEPLOYER, NONE_SALT)).toBe(keccak256(abi.encode(["bytes32"], [NONE_SALT])));
+  });
+
+  test("chain-specific salts need a chain id and differ per chain", () => {
+    expect(() => computeCreate3Address(DEPLOYER, CHAIN_SALT)).toThrow("chain-specific (chain)");
+    expect(computeCreate3Address(DEPLOYER, CHAIN_SALT, 1)).not.toBe(computeCreate3Address(DEPLOYER, CHAIN_SALT, 8453));
+    expect(computeCreate3Address(DEPLOYER, DEPLOYER_SALT, 1)).toBe(computeCreate3Address(DEPLOYER, DEPLOYER_SALT, 8453));
+  });
+
+  test("generates salts for each guard", () => {
+    expect(getSaltGuardMode(DEPLOYER, generateSalt(DEPLOYER))).toBe("deployer");
+    expect(getSaltGuardMode(DEPLOYER, generateSalt(DEPLOYER, "deployer-chain"))).toBe("deployer-chain");
+    expect(getSaltGuardMode(DEPLOYER, generateSalt(DEPLOYER, "none"))).toBe("none");
+    expect(getSaltGuardMode(DEPLOYER, generateSalt(DEPLOYER, "chain"))).toBe("chain");
+  });
+});
+
+describe("getContractAddress", () => {
+  const chain = (chainId: number) => ({ chainId, rpc: "https://rpc.example", explorer: "https://explorer.example" });
+  const config: Config = {
+    admin: { safe: DEPLOYER, threshold: 1 },
+    deployer: { address: DEPLOYER, keyRef: "op://vault/item/field" },
+    contracts: {
+      Core: { salt: DEPLOYER_SALT },
+      Local: { salt: DEPLOYER_CHAIN_SALT, crossChain: false },
+      Router: { salt: NONE_SALT, args: ["Local"] },
+    },
+    chains: { base: chain(8453), arbitrum: chain(42161) },
+  };
+
+  test("resolves chain-specific addresses per chain", () => {
+    expect(() => getContractAddress(config, "Local")).toThrow("Local has a chain-specific salt");
+    expect(getContractAddress(config, "Local", "base")).toBe(
+      checksumAddress(computeCreate3Address(DEPLOYER, DEPLOYER_CHAIN_SALT, 8453)),
+    );
+
+    const addresses = getContractAddresses(config, "Local");
+    expect(Object.keys(addresses)).toEqual(["base", "arbitrum"]);
+    expect(addresses.base).not.toBe(addresses.arbitrum);
+
+    expect(getContractAddress(config, "Core")).toBe(getContractAddress(config, "Core", "base"));
+  });
+
+  test("treats args referencing a chain-specific contract as chain-specific", () => {
+    expect(hasChainSpecificArgs(config, "Router")).toBe(true);
+    expect(hasChainSpecificArgs(config, "Core")).toBe(false);
+  });
+
+  test("checks salts against the crossChain setting", () => {
+    expect(checkSaltGuard(config, "Core")).toBeNull();
+    expect(checkSaltGuard(config, "Local")).toBeNull();
+    expect(checkSaltGuard({ ...config, contracts: { Local: { salt: DEPLOYER_CHAIN_SALT } } }, "Local")).toContain(
+      "salt is chain-specific (deployer-chain) but the contract is crossChain",
+    );
+    expect(checkSaltGuard({ ...config, contracts: { Core: { salt: DEPLOYER_SALT, crossChain: false } } }, "Core")).toContain(
+      '"crossChain": false but the salt gives the same address on every chain',
+    );
+  });
+});
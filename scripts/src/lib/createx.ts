@@ -2,69 +2,205 @@
  * CreateX utilities - CREATE3 address computation and salt generation
  */
 
-import { execSync } from "child_process";
 import { randomBytes } from "crypto";
-import type { Config } from "./config";
+import { concat, getAddress, keccak256, toBeHex, zeroPadValue } from "ethers";
+import type { Config, ConstructorArg } from "./config";
 
 export const CREATEX_ADDRESS = "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed";
 
-export function generateSalt(deployerAddress: string): string {
-  const deployer = deployerAddress.toLowerCase().slice(2);
-  const crossChainByte = "00";
+// keccak256 of CreateX's runtime code, identical on every chain it is deployed to
+export const CREATEX_CODEHASH =
+  "0xbd8a7ea8cfca7b4e5f5041d7d4b17bc317c5ce42cfbc42066a00cf26b43eb53f";
+
+// keccak256 of the CREATE3 proxy initcode CreateX deploys before the real contract
+export const CREATE3_PROXY_INITCODE_HASH =
+  "0x21c35dbe1b344a2488cf3321d6ce542f8e9f305544ff09e4993a62319a497c1f";
+
+/**
+ * CreateX salt guards, selected by the salt's first 21 bytes:
+ *
+ *   deployer        <deployer><0x00>  only the deployer can use it, same address on every chain
+ *   deployer-chain  <deployer><0x01>  only the deployer, address differs per chain
+ *   none            <0x00..00><0x00>  anyone can use it, same address on every chain
+ *   chain           <0x00..00><0x01>  anyone, address differs per chain
+ *
+ * A salt starting with any other address is unguarded (none) for every caller
+ * but that address.
+ */
+export const GUARD_MODES = ["deployer", "deployer-chain", "none", "chain"] as const;
+
+export type GuardMode = (typeof GUARD_MODES)[number];
+
+const ZERO_ADDRESS = "0x" + "00".repeat(20);
+
+/**
+ * Whether a guard gives the same address on every chain.
+ */
+export function isCrossChainGuard(mode: GuardMode): boolean {
+  return mode === "deployer" || mode === "none";
+}
+
+export function generateSalt(deployerAddress: string, mode: GuardMode = "deployer"): string {
+  const prefix = mode.startsWith("deployer") ? deployerAddress.toLowerCase().slice(2) : ZERO_ADDRESS.slice(2);
+  const flag = isCrossChainGuard(mode) ? "00" : "01";
   const entropy = randomBytes(11).toString("hex");
-  return "0x" + deployer + crossChainByte + entropy;
+  return "0x" + prefix + flag + entropy;
 }
 
-export function computeCreate3Address(deployer: string, salt: string): string {
-  const deployerPadded = deployer.toLowerCase().slice(2).padStart(64, "0");
-  const saltHex = salt.slice(2);
-  const guardedSalt = execSync(`cast keccak 0x${deployerPadded}${saltHex}`, {
-    encoding: "utf8",
-  }).trim();
-
-  const proxyInitCodeHash =
-    "0x21c35dbe1b344a2488cf3321d6ce542f8e9f305544ff09e4993a62319a497c1f";
-
-  const factoryHex = CREATEX_ADDRESS.toLowerCase().slice(2);
-  const guardedSaltHex = guardedSalt.slice(2);
-  const proxyInputHex = `ff${factoryHex}${guardedSaltHex}${proxyInitCodeHash.slice(2)}`;
-  const proxyHash = execSync(`cast keccak 0x${proxyInputHex}`, {
-    encoding: "utf8",
-  }).trim();
-  const proxyAddress = "0x" + proxyHash.slice(-40);
+/**
+ * How CreateX guards `salt` when `deployer` deploys with it. Throws for salts
+ * CreateX rejects: a deployer or zero-address prefix with a flag byte other
+ * than 0x00 or 0x01 (the zero address also accepts only those two).
+ */
+export function getSaltGuardMode(deployer: string, salt: string): GuardMode {
+  const prefix = salt.slice(0, 42).toLowerCase();
+  const flag = salt.slice(42, 44);
+
+  if (prefix === deployer.toLowerCase() || prefix === ZERO_ADDRESS) {
+    if (flag !== "00" && flag !== "01") {
+      throw new Error(`Salt ${salt} has cross-chain byte 0x${flag}; CreateX only accepts 0x00 or 0x01`);
+    }
+    if (prefix === ZERO_ADDRESS) {
+      return flag === "00" ? "none" : "chain";
+    }
+    return flag === "00" ? "deployer" : "deployer-chain";
+  }
+
+  return "none";
+}
+
+/**
+ * CreateX's _guard: the salt actually used for deployment.
+ * Chain-specific guards need the chain id.
+ */
+export function computeGuardedSalt(deployer: string, salt: string, chainId?: number): string {
+  const mode = getSaltGuardMode(deployer, salt);
 
-  const deployedInputHex = `d694${proxyAddress.slice(2)}01`;
-  const deployedHash = execSync(`cast keccak 0x${deployedInputHex}`, {
-    encoding: "utf8",
-  }).trim();
-  const deployedAddress = "0x" + deployedHash.slice(-40);
+  if (!isCrossChainGuard(mode) && chainId === undefined) {
+    throw new Error(`Salt ${salt} is chain-specific (${mode}); a chain id is needed to compute its address`);
+  }
 
-  return deployedAddress;
+  switch (mode) {
+    case "deployer":
+      return keccak256(concat([zeroPadValue(deployer.toLowerCase(), 32), salt]));
+    case "deployer-chain":
+      return keccak256(concat([zeroPadValue(deployer.toLowerCase(), 32), toBeHex(chainId!, 32), salt]));
+    case "chain":
+      return keccak256(concat([toBeHex(chainId!, 32), salt]));
+    case "none":
+      return keccak256(salt);
+  }
+}
+
+/**
+ * Computes the CREATE3 address CreateX deploys to for a deployer and salt.
+ * Returns a lowercase address; use checksumAddress for display.
+ */
+export function computeCreate3Address(deployer: string, salt: string, chainId?: number): string {
+  const guardedSalt = computeGuardedSalt(deployer, salt, chainId);
+
+  const proxyHash = keccak256(
+    concat(["0xff", CREATEX_ADDRESS.toLowerCase(), guardedSalt, CREATE3_PROXY_INITCODE_HASH]),
+  );
+  const proxyAddress = "0x" + proxyHash.slice(-40);
+
+  // RLP([proxy, nonce 1]): 0xd6 0x94 <proxy> 0x01
+  const deployedHash = keccak256(concat(["0xd694", proxyAddress, "0x01"]));
+  return "0x" + deployedHash.slice(-40);
 }
 
 export function checksumAddress(address: string): string {
-  return execSync(`cast to-check-sum-address ${address}`, {
-    encoding: "utf8",
-  }).trim();
+  return getAddress(address);
+}
+
+/**
+ * Whether a contract's address depends on the chain (its salt has a
+ * chain-specific guard).
+ */
+export function isChainSpecificAddress(config: Config, contractName: string): boolean {
+  const contractConfig = config.contracts[contractName];
+  if (!contractConfig) {
+    return false;
+  }
+  return !isCrossChainGuard(getSaltGuardMode(config.deployer.address, contractConfig.salt));
 }
 
-export function getContractAddress(config: Config, contractName: string): string | null {
+/**
+ * Checksummed CREATE3 address of a configured contract, or null if it isn't
+ * configured. Contracts with chain-specific salts need `chainName`.
+ */
+export function getContractAddress(config: Config, contractName: string, chainName?: string): string | null {
   const contractConfig = config.contracts[contractName];
   if (!contractConfig) {
     return null;
   }
 
-  const address = computeCreate3Address(config.deployer.address, contractConfig.salt);
+  if (isChainSpecificAddress(config, contractName)) {
+    if (!chainName) {
+      throw new Error(`${contractName} has a chain-specific salt; its address depends on the chain`);
+    }
+    if (!config.chains[chainName]) {
+      throw new Error(`Unknown chain: ${chainName}`);
+    }
+  }
+
+  const chainId = chainName ? config.chains[chainName]?.chainId : undefined;
+  const address = computeCreate3Address(config.deployer.address, contractConfig.salt, chainId);
   return checksumAddress(address);
 }
 
+/**
+ * A contract's address on every configured chain.
+ */
+export function getContractAddresses(config: Config, contractName: string): Record<string, string> {
+  const addresses: Record<string, string> = {};
+  for (const chainName of Object.keys(config.chains)) {
+    const address = getContractAddress(config, contractName, chainName);
+    if (address) {
+      addresses[chainName] = address;
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Why a contract's salt can't be used as configured, or null if it can:
+ * CreateX would reject it, or its guard disagrees with the contract's
+ * crossChain setting (default true).
+ */
+export function checkSaltGuard(config: Config, contractName: string): string | null {
+  const contractConfig = config.contracts[contractName];
+  if (!contractConfig) {
+    return null;
+  }
+
+  let mode: GuardMode;
+  try {
+    mode = getSaltGuardMode(config.deployer.address, contractConfig.salt);
+  } catch (e) {
+    return `${contractName}: ${(e as Error).message}`;
+  }
+
+  const crossChain = contractConfig.crossChain ?? true;
+  if (crossChain && !isCrossChainGuard(mode)) {
+    return `${contractName}: salt is chain-specific (${mode}) but the contract is crossChain. Set "crossChain": false or use a 0x00 salt`;
+  }
+  if (!crossChain && isCrossChainGuard(mode)) {
+    return `${contractName}: "crossChain": false but the salt gives the same address on every chain (${mode}). Use a 0x01 salt`;
+  }
+  return null;
+}
+
 /**
  * Resolves constructor arguments for a contract.
  *
  * Supports three types of arguments:
  * 1. Contract references: "SpritzPayCore" -> resolved to deployed address
  * 2. Chain-specific references: "${chain.weth}" -> resolved from chain config
- * 3. Literal values: "0x123..." -> passed through unchanged
+ * 3. Literal values: "0x123...", 250, true -> passed through unchanged
+ *
+ * References are resolved inside arrays too. Values are not type-checked here;
+ * see encodeConstructorArgs in ./abi.
  *
  * @param config - The deployment config
  * @param contractName - Name of the contract to resolve args for
@@ -75,13 +211,20 @@ export function resolveConstructorArgs(
   config: Config,
   contractName: string,
   chainName?: string
-): string[] {
+): ConstructorArg[] {
   const contractConfig = config.contracts[contractName];
   if (!contractConfig?.args) {
     return [];
   }
 
-  return contractConfig.args.map((arg) => {
+  const resolve = (arg: ConstructorArg): ConstructorArg => {
+    if (Array.isArray(arg)) {
+      return arg.map(resolve);
+    }
+    if (typeof arg !== "string") {
+      return arg;
+    }
+
     // Check if it's a chain-specific reference: ${chain.weth}
     const chainMatch = arg.match(/^\$\{chain\.(\w+)\}$/);
     if (chainMatch) {
@@ -108,7 +251,7 @@ export function resolveConstructorArgs(
 
     // Check if it's a contract reference
     if (config.contracts[arg]) {
-      const address = getContractAddress(config, arg);
+      const address = getContractAddress(config, arg, chainName);
       if (!address) {
         throw new Error(`Cannot resolve address for dependency: ${arg}`);
       }
@@ -117,19 +260,33 @@ export function resolveConstructorArgs(
 
     // Literal value - pass through unchanged
     return arg;
-  });
+  };
+
+  return contractConfig.args.map(resolve);
+}
+
+/**
+ * All string values in a contract's args, including those nested in arrays.
+ */
+function flattenStringArgs(args: ConstructorArg[]): string[] {
+  return args.flatMap((arg) =>
+    Array.isArray(arg) ? flattenStringArgs(arg) : typeof arg === "string" ? [arg] : [],
+  );
 }
 
 /**
  * Checks if a contract has chain-specific constructor arguments.
- * These contracts will have different constructor args per chain.
+ * These contracts will have different constructor args per chain: they
+ * reference ${chain.*} values or a contract whose address is chain-specific.
  */
 export function hasChainSpecificArgs(config: Config, contractName: string): boolean {
   const contractConfig = config.contracts[contractName];
   if (!contractConfig?.args) {
     return false;
   }
-  return contractConfig.args.some((arg) => arg.startsWith("${chain."));
+  return flattenStringArgs(contractConfig.args).some(
+    (arg) => arg.startsWith("${chain.") || (config.contracts[arg] !== undefined && isChainSpecificAddress(config, arg)),
+  );
 }
 
 export function getContractDependencies(config: Config, contractName: string): string[] {
@@ -138,7 +295,7 @@ export function getContractDependencies(config: Config, contractName: string): s
     return [];
   }
 
-  return contractConfig.args.filter((arg) => config.contracts[arg] !== undefined);
+  return [...new Set(flattenStringArgs(contractConfig.args).filter((arg) => config.contracts[arg] !== undefined))];
 }
 
 export function getDeploymentOrder(config: Config): string[] {
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import type { JsonFragment } from "ethers";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  compareSizes,
+  diffAbi,
+  diffSources,
+  diffStorageLayout,
+  renderDiffReport,
+  unifiedDiff,
+  type StorageLayout,
+} from "./diff";
+
+const PACKAGE_DIR = join(import.meta.dir, "../../../deployments/SpritzPayCore/v1");
+const ABI: JsonFragment[] = JSON.parse(readFileSync(join(PACKAGE_DIR, "artifacts", "SpritzPayCore.abi.json"), "utf8"));
+
+function layout(storage: [string, string, number, string][]): StorageLayout {
+  return {
+    storage: storage.map(([label, slot, offset, type]) => ({ label, slot, offset, type })),
+    types: { t_uint256: { label: "uint256" }, t_address: { label: "address" }, t_bool: { label: "bool" } },
+  };
+}
+
+describe("diffAbi", () => {
+  test("reports nothing for the same ABI", () => {
+    expect(diffAbi(ABI, ABI)).toEqual({ added: [], removed: [], selectorChanges: [], behaviourChanges: [] });
+  });
+
+  test("reports added and removed functions, events and errors", () => {
+    const current: JsonFragment[] = [
+      ...ABI.filter((f) => f.name !== "addPaymentToken"),
+      { type: "function", name: "pause", inputs: [], outputs: [], stateMutability: "nonpayable" },
+      { type: "event", name: "Paused", inputs: [{ name: "by", type: "address", indexed: true }], anonymous: false },
+      { type: "error", name: "IsPaused", inputs: [] },
+    ];
+    const diff = diffAbi(ABI, current);
+
+    expect(diff.added.map((e) => `${e.kind} ${e.signature}`)).toEqual(["function pause()", "event Paused(address)", "error IsPaused()"]);
+    expect(diff.added[0].selector).toBe("0x8456cb59");
+    expect(diff.removed.map((e) => e.signature)).toEqual(["addPaymentToken(address,address)"]);
+  });
+
+  test("reports a changed signature as a selector change", () => {
+    const current = ABI.map((f) =>
+      f.name === "addPaymentToken" ? { ...f, inputs: [...(f.inputs ?? []), { name: "cap", type: "uint256" }] } : f
+    );
+    const diff = diffAbi(ABI, current);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.selectorChanges).toHaveLength(1);
+    expect(diff.selectorChanges[0].before.signature).toBe("addPaymentToken(address,address)");
+    expect(diff.selectorChanges[0].after.signature).toBe("addPaymentToken(address,address,uint256)");
+  });
+
+  test("reports mutability and return type changes under the same selector", () => {
+    const current = ABI.map((f) => (f.name === "addPaymentToken" ? { ...f, outputs: [{ name: "", type: "bool" }] } : f));
+
+    expect(diffAbi(ABI, current).behaviourChanges).toEqual([
+      { signature: "addPaymentToken(address,address)", before: "nonpayable", after: "nonpayable returns (bool)" },
+    ]);
+  });
+});
+
+describe("diffStorageLayout", () => {
+  const frozen = layout([
+    ["owner", "0", 0, "t_address"],
+    ["paused", "0", 20, "t_bool"],
+    ["fee", "1", 0, "t_uint256"],
+  ]);
+
+  test("reports nothing for the same layout", () => {
+    expect(diffStorageLayout(frozen, frozen)).toEqual([]);
+  });
+
+  test("reports moved, retyped, removed and added variables", () => {
+    const current = layout([
+      ["owner", "0", 0, "t_address"],
+      ["fee", "1", 0, "t_address"],
+      ["limit", "2", 0, "t_uint256"],
+    ]);
+
+    expect(diffStorageLayout(frozen, current)).toEqual([
+      { label: "paused", status: "removed", before: "slot 0, offset 20, bool" },
+      { label: "fee", status: "changed", before: "slot 1, offset 0, uint256", after: "slot 1, offset 0, address" },
+      { label: "limit", status: "added", after: "slot 2, offset 0, uint256" },
+    ]);
+  });
+});
+
+describe("compareSizes", () => {
+  test("measures bytes against the EIP-170 and EIP-3860 limits", () => {
+    const rows = compareSizes({ initcode: "0x6080", deployed: "0x60" }, { initcode: "0x608060", deployed: "0x6080" });
+
+    expect(rows).toEqual([
+      { name: "Runtime", frozen: 1, current: 2, limit: 24576, eip: "EIP-170" },
+      { name: "Initcode", frozen: 2, current: 3, limit: 49152, eip: "EIP-3860" },
+    ]);
+  });
+});
+
+describe("unifiedDiff", () => {
+  test("returns nothing for equal texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  test("writes hunks with context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n");
+    const after = ["1", "2", "3", "4", "five", "6", "7", "8", "9", "10", "11"].join("\n");
+
+    expect(unifiedDiff(before, after, 1)).toBe(["@@ -4,3 +4,3 @@", " 4", "-5", "+five", " 6", "@@ -10,1 +10,2 @@", " 10", "+11"].join("\n"));
+  });
+
+  test("merges changes whose context overlaps", () => {
+    expect(unifiedDiff("a\nb\nc\nd", "A\nb\nc\nD", 1)).toBe(["@@ -1,4 +1,4 @@", "-a", "+A", " b", " c", "-d", "+D"].join("\n"));
+  });
+});
+
+describe("diffSources", () => {
+  test("lists changed, added and removed files", () => {
+    const diffs = diffSources(
+      { "src/A.sol": "a\nb", "src/B.sol": "same", "src/Old.sol": "x" },
+      { "src/A.sol": "a\nc", "src/B.sol": "same", "src/New.sol": "y" }
+    );
+
+    expect(diffs.map((d) => [d.path, d.status, d.additions, d.deletions])).toEqual([
+      ["src/A.sol", "changed", 1, 1],
+      ["src/New.sol", "added", 1, 0],
+      ["src/Old.sol", "removed", 0, 1],
+    ]);
+    expect(diffs[1].diff).toBe("@@ -0,0 +1,1 @@\n+y");
+  });
+});
+
+describe("renderDiffReport", () => {
+  test("renders a PR-ready markdown report", () => {
+    const markdown = renderDiffReport({
+      contract: "SpritzPayCore",
+      version: "v1",
+      sizes: compareSizes({ initcode: "0x6080", deployed: "0x60" }, { initcode: "0x608060", deployed: "0x6080" }),
+      abi: diffAbi(ABI, [...ABI, { type: "function", name: "pause", inputs: [], outputs: [], stateMutability: "nonpayable" }]),
+      storage: null,
+      sources: diffSources({ "src/A.sol": "a" }, { "src/A.sol": "b" }),
+    });
+
+    expect(markdown).toStartWith("## SpritzPayCore: working tree vs v1\n");
+    expect(markdown).toContain("| Runtime | 1 | 2 | +1 | 24,576 (EIP-170) | 24,574 |");
+    expect(markdown).toContain("**Functions added**\n\n- `pause()` `0x8456cb59`");
+    expect(markdown).toContain("v1 was frozen before storage layouts were captured; not compared.");
+    expect(markdown).toContain("<summary><code>src/A.sol</code> (changed, +1 −1)</summary>\n\n```diff\n@@ -1,1 +1,1 @@\n-a\n+b\n```");
+  });
+});
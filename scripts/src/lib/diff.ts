@@ -0,0 +1,370 @@
+/**
+ * Freeze diff - compares a frozen package with a build of the working tree
+ *
+ * Covers what reviewers ask about before a refreeze: ABI entries added and
+ * removed, function selectors that changed, storage layout, bytecode size
+ * against the EIP-170 / EIP-3860 limits, and a unified diff of every source
+ * file. renderDiffReport turns the result into markdown for a PR description.
+ */
+
+import { ErrorFragment, EventFragment, FunctionFragment, Interface, type InterfaceAbi } from "ethers";
+
+// Runtime code size limit (EIP-170) and initcode size limit (EIP-3860)
+export const MAX_RUNTIME_SIZE = 24576;
+export const MAX_INITCODE_SIZE = 49152;
+
+export type AbiEntryKind = "function" | "event" | "error";
+
+export interface AbiEntrySummary {
+  kind: AbiEntryKind;
+  name: string;
+  signature: string;
+  // 4-byte selector for functions and errors, topic hash for events
+  selector: string;
+  // Functions only: "view returns (uint256)"
+  behaviour?: string;
+}
+
+export interface AbiDiff {
+  added: AbiEntrySummary[];
+  removed: AbiEntrySummary[];
+  // Functions whose only signature changed, so callers hit a new selector
+  selectorChanges: { name: string; before: AbiEntrySummary; after: AbiEntrySummary }[];
+  // Same selector, different mutability or return types
+  behaviourChanges: { signature: string; before: string; after: string }[];
+}
+
+// forge inspect <Contract> storageLayout --json
+export interface StorageLayout {
+  storage: { label: string; slot: string; offset: number; type: string }[];
+  types?: Record<string, { label: string }> | null;
+}
+
+export interface StorageChange {
+  label: string;
+  status: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+export interface SizeRow {
+  name: string;
+  frozen: number;
+  current: number;
+  limit: number;
+  eip: string;
+}
+
+export interface SourceDiff {
+  path: string;
+  status: "changed" | "added" | "removed";
+  additions: number;
+  deletions: number;
+  diff: string;
+}
+
+export interface FreezeDiffReport {
+  contract: string;
+  version: string;
+  sizes: SizeRow[];
+  abi: AbiDiff;
+  // Null when the frozen package predates storage layout capture
+  storage: StorageChange[] | null;
+  sources: SourceDiff[];
+}
+
+export function byteLength(hex: string): number {
+  const trimmed = hex.trim();
+  return (trimmed.startsWith("0x") ? trimmed.length - 2 : trimmed.length) / 2;
+}
+
+/**
+ * Functions, events and errors of an ABI with their selectors.
+ */
+export function summarizeAbi(abi: InterfaceAbi): AbiEntrySummary[] {
+  const entries: AbiEntrySummary[] = [];
+  for (const fragment of new Interface(abi).fragments) {
+    if (fragment instanceof FunctionFragment) {
+      const outputs = fragment.outputs.map((o) => o.format("sighash")).join(",");
+      entries.push({
+        kind: "function",
+        name: fragment.name,
+        signature: fragment.format("sighash"),
+        selector: fragment.selector,
+        behaviour: `${fragment.stateMutability}${outputs ? ` returns (${outputs})` : ""}`,
+      });
+    } else if (fragment instanceof EventFragment) {
+      entries.push({ kind: "event", name: fragment.name, signature: fragment.format("sighash"), selector: fragment.topicHash });
+    } else if (fragment instanceof ErrorFragment) {
+      entries.push({ kind: "error", name: fragment.name, signature: fragment.format("sighash"), selector: fragment.selector });
+    }
+  }
+  return entries;
+}
+
+export function diffAbi(frozen: InterfaceAbi, current: InterfaceAbi): AbiDiff {
+  const before = summarizeAbi(frozen);
+  const after = summarizeAbi(current);
+  const key = (e: AbiEntrySummary) => `${e.kind}:${e.signature}`;
+  const beforeKeys = new Map(before.map((e) => [key(e), e]));
+  const afterKeys = new Map(after.map((e) => [key(e), e]));
+
+  let added = after.filter((e) => !beforeKeys.has(key(e)));
+  let removed = before.filter((e) => !afterKeys.has(key(e)));
+
+  const selectorChanges: AbiDiff["selectorChanges"] = [];
+  for (const old of removed.filter((e) => e.kind === "function")) {
+    const sameName = (list: AbiEntrySummary[]) => list.filter((e) => e.kind === "function" && e.name === old.name);
+    const replacement = sameName(added);
+    if (replacement.length === 1 && sameName(removed).length === 1) {
+      selectorChanges.push({ name: old.name, before: old, after: replacement[0] });
+    }
+  }
+  added = added.filter((e) => !selectorChanges.some((c) => c.after === e));
+  removed = removed.filter((e) => !selectorChanges.some((c) => c.before === e));
+
+  const behaviourChanges: AbiDiff["behaviourChanges"] = [];
+  for (const entry of before) {
+    const match = afterKeys.get(key(entry));
+    if (match && entry.behaviour !== match.behaviour) {
+      behaviourChanges.push({ signature: entry.signature, before: entry.behaviour!, after: match.behaviour! });
+    }
+  }
+
+  return { added, removed, selectorChanges, behaviourChanges };
+}
+
+function describeSlot(layout: StorageLayout, entry: StorageLayout["storage"][number]): string {
+  const type = layout.types?.[entry.type]?.label ?? entry.type;
+  return `slot ${entry.slot}, offset ${entry.offset}, ${type}`;
+}
+
+/**
+ * Storage variables added, removed, or moved to another slot, offset or type.
+ */
+export function diffStorageLayout(frozen: StorageLayout, current: StorageLayout): StorageChange[] {
+  const changes: StorageChange[] = [];
+  const after = new Map(current.storage.map((e) => [e.label, e]));
+  const beforeLabels = new Set(frozen.storage.map((e) => e.label));
+
+  for (const entry of frozen.storage) {
+    const match = after.get(entry.label);
+    const before = describeSlot(frozen, entry);
+    if (!match) {
+      changes.push({ label: entry.label, status: "removed", before });
+    } else if (describeSlot(current, match) !== before) {
+      changes.push({ label: entry.label, status: "changed", before, after: describeSlot(current, match) });
+    }
+  }
+  for (const entry of current.storage) {
+    if (!beforeLabels.has(entry.label)) {
+      changes.push({ label: entry.label, status: "added", after: describeSlot(current, entry) });
+    }
+  }
+  return changes;
+}
+
+export function compareSizes(
+  frozen: { initcode: string; deployed: string },
+  current: { initcode: string; deployed: string },
+): SizeRow[] {
+  return [
+    { name: "Runtime", frozen: byteLength(frozen.deployed), current: byteLength(current.deployed), limit: MAX_RUNTIME_SIZE, eip: "EIP-170" },
+    { name: "Initcode", frozen: byteLength(frozen.initcode), current: byteLength(current.initcode), limit: MAX_INITCODE_SIZE, eip: "EIP-3860" },
+  ];
+}
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+// Line ops from an LCS table over the part between the common prefix and suffix
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ kind: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ kind: " ", line: midA[i++] });
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: "-", line: midA[i++] });
+    } else {
+      ops.push({ kind: "+", line: midB[j++] });
+    }
+  }
+  ops.push(...a.slice(endA).map((line) => ({ kind: " " as const, line })));
+  return ops;
+}
+
+/**
+ * Unified diff (hunks only, no file headers). Empty if the texts are equal.
+ */
+export function unifiedDiff(before: string, after: string, context: number = 3): string {
+  if (before === after) {
+    return "";
+  }
+
+  const lines = (text: string) => (text === "" ? [] : text.split("\n"));
+  const ops = diffLines(lines(before), lines(after));
+  const changed = ops.flatMap((op, index) => (op.kind === " " ? [] : [index]));
+
+  // Group changes whose context windows touch into hunks
+  const ranges: [number, number][] = [];
+  for (const index of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - context <= last[1]) {
+      last[1] = Math.min(ops.length, index + context + 1);
+    } else {
+      ranges.push([Math.max(0, index - context), Math.min(ops.length, index + context + 1)]);
+    }
+  }
+
+  const hunks: string[] = [];
+  for (const [from, to] of ranges) {
+    const preceding = ops.slice(0, from);
+    const aStart = preceding.filter((op) => op.kind !== "+").length;
+    const bStart = preceding.filter((op) => op.kind !== "-").length;
+    const hunk = ops.slice(from, to);
+    const aLength = hunk.filter((op) => op.kind !== "+").length;
+    const bLength = hunk.filter((op) => op.kind !== "-").length;
+    hunks.push(`@@ -${aLength ? aStart + 1 : aStart},${aLength} +${bLength ? bStart + 1 : bStart},${bLength} @@`);
+    hunks.push(...hunk.map((op) => `${op.kind}${op.line}`));
+  }
+  return hunks.join("\n");
+}
+
+/**
+ * Per-file diffs between two path -> content maps.
+ */
+export function diffSources(frozen: Record<string, string>, current: Record<string, string>): SourceDiff[] {
+  const paths = [...new Set([...Object.keys(frozen), ...Object.keys(current)])].sort();
+  const diffs: SourceDiff[] = [];
+
+  for (const path of paths) {
+    const before = frozen[path];
+    const after = current[path];
+    if (before === after) continue;
+
+    const diff = unifiedDiff(before ?? "", after ?? "");
+    const lines = diff.split("\n");
+    diffs.push({
+      path,
+      status: before === undefined ? "added" : after === undefined ? "removed" : "changed",
+      additions: lines.filter((l) => l.startsWith("+")).length,
+      deletions: lines.filter((l) => l.startsWith("-")).length,
+      diff,
+    });
+  }
+  return diffs;
+}
+
+function formatDelta(delta: number): string {
+  return delta === 0 ? "0" : `${delta > 0 ? "+" : "−"}${Math.abs(delta).toLocaleString("en-US")}`;
+}
+
+function entryLine(e: AbiEntrySummary): string {
+  return `- \`${e.signature}\` \`${e.kind === "event" ? e.selector.slice(0, 10) + "…" : e.selector}\``;
+}
+
+/**
+ * Markdown for a PR description.
+ */
+export function renderDiffReport(report: FreezeDiffReport): string {
+  const { abi, storage, sources } = report;
+  const lines: string[] = [`## ${report.contract}: working tree vs ${report.version}`, ""];
+
+  lines.push("### Bytecode size", "");
+  lines.push(`| | ${report.version} | Working tree | Change | Limit | Headroom |`);
+  lines.push("|---|---:|---:|---:|---:|---:|");
+  for (const row of report.sizes) {
+    const headroom = row.limit - row.current;
+    const flag = headroom < 0 ? " ⚠️ over limit" : "";
+    lines.push(
+      `| ${row.name} | ${row.frozen.toLocaleString("en-US")} | ${row.current.toLocaleString("en-US")} | ${formatDelta(row.current - row.frozen)} | ${row.limit.toLocaleString("en-US")} (${row.eip}) | ${headroom.toLocaleString("en-US")}${flag} |`,
+    );
+  }
+  lines.push("");
+
+  lines.push("### ABI", "");
+  const abiChanged = abi.added.length + abi.removed.length + abi.selectorChanges.length + abi.behaviourChanges.length > 0;
+  if (!abiChanged) {
+    lines.push("No changes.", "");
+  }
+  for (const kind of ["function", "event", "error"] as const) {
+    const title = { function: "Functions", event: "Events", error: "Errors" }[kind];
+    const added = abi.added.filter((e) => e.kind === kind);
+    const removed = abi.removed.filter((e) => e.kind === kind);
+    if (added.length > 0) {
+      lines.push(`**${title} added**`, "", ...added.map(entryLine), "");
+    }
+    if (removed.length > 0) {
+      lines.push(`**${title} removed**`, "", ...removed.map(entryLine), "");
+    }
+  }
+  if (abi.selectorChanges.length > 0) {
+    lines.push("**Selector changes**", "", `| Function | ${report.version} | Working tree |`, "|---|---|---|");
+    for (const change of abi.selectorChanges) {
+      lines.push(
+        `| \`${change.name}\` | \`${change.before.signature}\` \`${change.before.selector}\` | \`${change.after.signature}\` \`${change.after.selector}\` |`,
+      );
+    }
+    lines.push("");
+  }
+  if (abi.behaviourChanges.length > 0) {
+    lines.push("**Mutability or return type changes**", "");
+    for (const change of abi.behaviourChanges) {
+      lines.push(`- \`${change.signature}\`: ${change.before} → ${change.after}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("### Storage layout", "");
+  if (storage === null) {
+    lines.push(`${report.version} was frozen before storage layouts were captured; not compared.`, "");
+  } else if (storage.length === 0) {
+    lines.push("No changes.", "");
+  } else {
+    lines.push(`| Variable | Change | ${report.version} | Working tree |`, "|---|---|---|---|");
+    for (const change of storage) {
+      lines.push(`| \`${change.label}\` | ${change.status} | ${change.before ?? "—"} | ${change.after ?? "—"} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push("### Sources", "");
+  if (sources.length === 0) {
+    lines.push("No changes.", "");
+  }
+  for (const source of sources) {
+    lines.push(
+      "<details>",
+      `<summary><code>${source.path}</code> (${source.status}, +${source.additions} −${source.deletions})</summary>`,
+      "",
+      "```diff",
+      source.diff,
+      "```",
+      "",
+      "</details>",
+      "",
+    );
+  }
+
+  return lines.join("\n");
+}
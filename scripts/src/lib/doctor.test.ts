@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { AbiCoder } from "ethers";
+import type { Chain } from "./chains";
+import { CREATEX_ADDRESS } from "./createx";
+import { diagnoseChain } from "./doctor";
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const ROUTER = "0x6352a56caadC4F1E25CD6c75970Fa768A3304e64";
+const SAFE = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+const OWNER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+// Behaviour of the stub node, set per test
+let rpcChainId = 8453;
+let serviceChainId = 8453;
+let deployed: Set<string>;
+
+let server: Server<undefined>;
+let chain: Chain;
+
+function call(to: string, data: string): string {
+  switch (data.slice(0, 10)) {
+    case "0x95d89b41": // symbol()
+      return coder.encode(["string"], ["WETH"]);
+    case "0xd0e30db0": // deposit()
+      return "0x";
+    case "0xa0e67e2b": // getOwners()
+      return coder.encode(["address[]"], [[OWNER]]);
+    case "0xe75235b8": // getThreshold()
+      return coder.encode(["uint256"], [1]);
+    default:
+      throw new Error(`Unexpected call to ${to}`);
+  }
+}
+
+function rpc(method: string, params: unknown[]): unknown {
+  switch (method) {
+    case "eth_chainId":
+      return `0x${rpcChainId.toString(16)}`;
+    case "eth_getCode":
+      return deployed.has((params[0] as string).toLowerCase()) ? "0x6080" : "0x";
+    case "eth_call": {
+      const { to, data } = params[0] as { to: string; data: string };
+      return call(to, data);
+    }
+    default:
+      throw new Error(`Unexpected ${method}`);
+  }
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === "/api/v1/about/ethereum-rpc/") {
+        return Response.json({ version: "5.0.0", chain_id: serviceChainId });
+      }
+      const body = await req.json();
+      const handle = ({ id, method, params }: { id: number; method: string; params: unknown[] }) => {
+        try {
+          return { jsonrpc: "2.0", id, result: rpc(method, params) };
+        } catch (e) {
+          return { jsonrpc: "2.0", id, error: { code: 3, message: (e as Error).message } };
+        }
+      };
+      return Response.json(Array.isArray(body) ? body.map(handle) : handle(body));
+    },
+  });
+  const url = `http://localhost:${server.port}`;
+  chain = {
+    name: "base",
+    chainId: 8453,
+    rpc: url,
+    explorer: "https://basescan.org",
+    verifiers: [],
+    safeService: url,
+    admin: SAFE,
+    threshold: 1,
+    testnet: false,
+  };
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  rpcChainId = 8453;
+  serviceChainId = 8453;
+  deployed = new Set([WETH, ROUTER, SAFE, CREATEX_ADDRESS].map((a) => a.toLowerCase()));
+});
+
+const byName = (checks: { name: string; ok: boolean; detail?: string }[]) =>
+  Object.fromEntries(checks.map((c) => [c.name, c]));
+
+describe("diagnoseChain", () => {
+  test("checks addresses, WETH, the admin Safe and the Safe service", async () => {
+    const checks = byName(await diagnoseChain(chain, { addresses: { weth: WETH, openOcean: ROUTER } }));
+
+    expect(Object.keys(checks)).toEqual([
+      "chainId",
+      "CreateX",
+      "addresses.weth",
+      "addresses.openOcean",
+      "admin Safe",
+      "Safe service",
+    ]);
+    expect(checks.chainId.ok).toBe(true);
+    expect(checks["addresses.weth"]).toEqual({ name: "addresses.weth", ok: true, detail: `${WETH} (WETH)` });
+    expect(checks["addresses.openOcean"].ok).toBe(true);
+    expect(checks["admin Safe"]).toMatchObject({ ok: true, detail: `${SAFE} (1 of 1)` });
+    expect(checks["Safe service"].ok).toBe(true);
+  });
+
+  test("rejects non-canonical CreateX code", async () => {
+    const checks = byName(await diagnoseChain(chain, { addresses: {} }));
+    expect(checks.CreateX.ok).toBe(false);
+    expect(checks.CreateX.detail).toContain("not the canonical CreateX");
+  });
+
+  test("flags missing code and a missing Safe", async () => {
+    deployed.delete(ROUTER.toLowerCase());
+    deployed.delete(SAFE.toLowerCase());
+    const checks = byName(await diagnoseChain(chain, { addresses: { openOcean: ROUTER } }));
+
+    expect(checks["addresses.openOcean"]).toMatchObject({ ok: false, detail: `No code at ${ROUTER}` });
+    expect(checks["admin Safe"]).toMatchObject({ ok: false, detail: `No Safe deployed at ${SAFE}` });
+  });
+
+  test("stops at a chainId mismatch", async () => {
+    rpcChainId = 1;
+    const checks = await diagnoseChain(chain, { addresses: { weth: WETH } });
+    expect(checks).toEqual([{ name: "chainId", ok: false, detail: "RPC reports 1, config has 8453" }]);
+  });
+
+  test("flags a Safe service for another chain", async () => {
+    serviceChainId = 10;
+    const checks = byName(await diagnoseChain(chain, { addresses: {} }));
+    expect(checks["Safe service"]).toMatchObject({ ok: false, detail: "Service is for chainId 10, expected 8453" });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Chain doctor - checks a chain's config.json entry against the live chain
+ *
+ * Everything in a chain entry is typed by hand, so each value is confirmed
+ * against the RPC (and the Safe transaction service) before it is relied on.
+ */
+
+import { JsonRpcProvider, keccak256 } from "ethers";
+import { WETHFactory } from "../generated";
+import { readSafeOwnership } from "./admin";
+import type { Chain } from "./chains";
+import { CREATEX_ADDRESS, CREATEX_CODEHASH } from "./createx";
+
+export interface DoctorCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface DoctorOptions {
+  // chains.<name>.addresses from config.json
+  addresses: Record<string, string>;
+  safeApiKey?: string;
+}
+
+async function check(name: string, run: () => Promise<string | undefined>): Promise<DoctorCheck> {
+  try {
+    return { name, ok: true, detail: await run() };
+  } catch (e) {
+    return { name, ok: false, detail: (e as Error).message.split("\n")[0] };
+  }
+}
+
+async function checkSafeService(chain: Chain, apiKey?: string): Promise<string> {
+  const url = `${chain.safeService!.replace(/\/$/, "")}/api/v1/about/ethereum-rpc/`;
+  const response = await fetch(url, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    signal: AbortSignal.timeout(15_000),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+  const about = (await response.json()) as { chain_id?: number | string };
+  if (Number(about.chain_id) !== chain.chainId) {
+    throw new Error(`Service is for chainId ${about.chain_id}, expected ${chain.chainId}`);
+  }
+  return chain.safeService!;
+}
+
+/**
+ * Runs every check for one chain. Failures are returned, never thrown. If the
+ * RPC can't report its chainId nothing else is checked.
+ */
+export async function diagnoseChain(chain: Chain, options: DoctorOptions): Promise<DoctorCheck[]> {
+  const provider = new JsonRpcProvider(chain.rpc, undefined, { staticNetwork: true });
+  try {
+    const chainId = await check("chainId", async () => {
+      const live = Number(await provider.send("eth_chainId", []));
+      if (live !== chain.chainId) {
+        throw new Error(`RPC reports ${live}, config has ${chain.chainId}`);
+      }
+      return String(live);
+    });
+    if (!chainId.ok) {
+      return [chainId];
+    }
+
+    const hasCode = async (address: string) => {
+      if ((await provider.getCode(address)) === "0x") {
+        throw new Error(`No code at ${address}`);
+      }
+    };
+
+    const checks: Promise<DoctorCheck>[] = [
+      check("CreateX", async () => {
+        const code = await provider.getCode(CREATEX_ADDRESS);
+        if (code === "0x") {
+          throw new Error(`Not deployed at ${CREATEX_ADDRESS}`);
+        }
+        if (keccak256(code) !== CREATEX_CODEHASH) {
+          throw new Error(`Code hash ${keccak256(code)} is not the canonical CreateX`);
+        }
+        return CREATEX_ADDRESS;
+      }),
+    ];
+
+    for (const [key, address] of Object.entries(options.addresses)) {
+      checks.push(
+        check(`addresses.${key}`, async () => {
+          await hasCode(address);
+          if (key !== "weth") {
+            return address;
+          }
+          const weth = WETHFactory.connect(address, provider);
+          const [symbol] = await Promise.all([weth.symbol(), weth.deposit.staticCall({ value: 0 })]);
+          return `${address} (${symbol})`;
+        }),
+      );
+    }
+
+    checks.push(
+      check("admin Safe", async () => {
+        const safe = await readSafeOwnership(chain.rpc, chain.admin);
+        if (!safe) {
+          throw new Error(`No Safe deployed at ${chain.admin}`);
+        }
+        return `${chain.admin} (${safe.threshold} of ${safe.owners.length})`;
+      }),
+    );
+
+    if (chain.safeService) {
+      checks.push(check("Safe service", () => checkSafeService(chain, options.safeApiKey)));
+    }
+
+    return [chainId, ...(await Promise.all(checks))];
+  } finally {
+    provider.destroy();
+  }
+}
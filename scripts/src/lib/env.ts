@@ -5,12 +5,12 @@
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { z } from "zod";
-import { AddressSchema, SaltSchema, OpRefSchema } from "./validation";
+import { AddressSchema, SaltSchema, KeyRefSchema } from "./validation";
 
 const SignerEnvSchema = z.object({
   name: z.string(),
   address: AddressSchema.optional(),
-  keyRef: OpRefSchema,
+  keyRef: KeyRefSchema,
 });
 
 export type SignerEnv = z.infer<typeof SignerEnvSchema>;
@@ -19,7 +19,7 @@ export const EnvSchema = z.object({
   RPC_KEY: z.string().min(1).optional(),
   ETHERSCAN_API_KEY: z.string().optional(),
   DEPLOYER_ADDRESS: AddressSchema.optional(),
-  DEPLOYER_KEY_REF: OpRefSchema.optional(),
+  DEPLOYER_KEY_REF: KeyRefSchema.optional(),
   SAFE_API_KEY: z.string().optional(),
 });
 
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, readdirSync, readFileSync, rmSync } from "fs";
+import { join } from "path";
+import {
+  abandonJournal,
+  getJournalPath,
+  getStepData,
+  hasStep,
+  JOURNAL_DIR,
+  JOURNAL_STEPS,
+  lastStep,
+  loadJournal,
+  recordStep,
+  startJournal,
+} from "./journal";
+
+const ADDRESS = "0x0A2d7D9BFE42D5146Af53dce8ef4956F148C2a5F";
+const SALT = "0xbadfaceb351045374d7fd1d3915e62501ba9916c009a4573d5a53c4f001a7ddb";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+// A throwaway environment keeps the test's journals apart from real ones
+const environment = `journal-test-${process.pid}`;
+
+afterEach(() => {
+  rmSync(join(JOURNAL_DIR, environment), { recursive: true, force: true });
+  if (existsSync(JOURNAL_DIR) && readdirSync(JOURNAL_DIR).length === 0) {
+    rmSync(JOURNAL_DIR, { recursive: true });
+  }
+});
+
+describe("deployment journal", () => {
+  test("returns null when nothing was journaled", () => {
+    expect(loadJournal("SpritzPayCore", "base", environment)).toBeNull();
+  });
+
+  for (const [index, step] of JOURNAL_STEPS.slice(0, -1).entries()) {
+    test(`resumes after "${step}"`, () => {
+      const journal = startJournal("SpritzPayCore", "base", environment, ADDRESS, SALT);
+      recordStep(journal, "preflight", { version: "v1", constructorArgs: "0x" });
+      for (const done of JOURNAL_STEPS.slice(1, index + 1)) {
+        recordStep(journal, done, done === "submitted" ? { txHash: TX_HASH } : undefined);
+      }
+
+      const resumed = loadJournal("SpritzPayCore", "base", environment)!;
+      expect(resumed.address).toBe(ADDRESS);
+      expect(lastStep(resumed)).toBe(step);
+      expect(getStepData(resumed, "preflight")).toEqual({ version: "v1", constructorArgs: "0x" });
+      for (const [other, name] of JOURNAL_STEPS.entries()) {
+        expect(hasStep(resumed, name)).toBe(other <= index);
+      }
+      expect(getStepData(resumed, "submitted")?.txHash).toBe(index >= 1 ? TX_HASH : undefined);
+    });
+  }
+
+  test("returns null once the deployment is recorded", () => {
+    const journal = startJournal("SpritzPayCore", "base", environment, ADDRESS, SALT);
+    for (const step of JOURNAL_STEPS) {
+      recordStep(journal, step);
+    }
+
+    expect(journal.completedAt).toBeDefined();
+    expect(existsSync(getJournalPath("SpritzPayCore", "base", environment))).toBe(true);
+    expect(loadJournal("SpritzPayCore", "base", environment)).toBeNull();
+  });
+
+  test("returns null once the deployment is abandoned, keeping the file", () => {
+    const journal = startJournal("SpritzPayCore", "base", environment, ADDRESS, SALT);
+    recordStep(journal, "preflight");
+    recordStep(journal, "submitted", { txHash: TX_HASH });
+    abandonJournal(journal, `Transaction ${TX_HASH} reverted`);
+
+    expect(loadJournal("SpritzPayCore", "base", environment)).toBeNull();
+    const saved = JSON.parse(readFileSync(getJournalPath("SpritzPayCore", "base", environment), "utf8"));
+    expect(saved.abandonReason).toBe(`Transaction ${TX_HASH} reverted`);
+    expect(saved.completedAt).toBeUndefined();
+
+    // The next run journals a fresh deployment
+    startJournal("SpritzPayCore", "base", environment, ADDRESS, SALT);
+    expect(loadJournal("SpritzPayCore", "base", environment)?.entries).toEqual([]);
+  });
+
+  test("keeps contracts and chains apart", () => {
+    startJournal("SpritzPayCore", "base", environment, ADDRESS, SALT);
+
+    expect(loadJournal("SpritzPayCore", "arbitrum", environment)).toBeNull();
+    expect(loadJournal("SpritzRouter", "base", environment)).toBeNull();
+  });
+});
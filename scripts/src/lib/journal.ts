@@ -0,0 +1,124 @@
+/**
+ * Deployment journal - step-by-step record of a live deployment for crash recovery
+ *
+ * Each live deployment writes deployments/.journal/<env>/<Contract>-<chain>.json
+ * as it progresses. Rerunning the same command resumes after the last completed
+ * step instead of broadcasting again.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+export const JOURNAL_DIR = join(process.cwd(), "deployments", ".journal");
+
+export const JOURNAL_STEPS = [
+  "preflight",
+  "submitted",
+  "confirmed",
+  "verified",
+  "recorded",
+] as const;
+
+export type JournalStep = (typeof JOURNAL_STEPS)[number];
+
+export interface JournalEntry {
+  step: JournalStep;
+  at: string;
+  data?: Record<string, unknown>;
+}
+
+export interface DeploymentJournal {
+  contract: string;
+  chain: string;
+  environment: string;
+  address: string;
+  salt: string;
+  startedAt: string;
+  completedAt?: string;
+  // Set when the deployment will never complete, e.g. its transaction reverted
+  abandonedAt?: string;
+  abandonReason?: string;
+  entries: JournalEntry[];
+}
+
+export function getJournalPath(contractName: string, chainName: string, environment: string): string {
+  return join(JOURNAL_DIR, environment, `${contractName}-${chainName}.json`);
+}
+
+/**
+ * Loads an unfinished journal for this contract/chain/environment.
+ * Returns null if there is none or the last one ran to completion or was
+ * abandoned.
+ */
+export function loadJournal(
+  contractName: string,
+  chainName: string,
+  environment: string,
+): DeploymentJournal | null {
+  const path = getJournalPath(contractName, chainName, environment);
+  if (!existsSync(path)) {
+    return null;
+  }
+  const journal: DeploymentJournal = JSON.parse(readFileSync(path, "utf8"));
+  return journal.completedAt || journal.abandonedAt ? null : journal;
+}
+
+export function startJournal(
+  contractName: string,
+  chainName: string,
+  environment: string,
+  address: string,
+  salt: string,
+): DeploymentJournal {
+  const journal: DeploymentJournal = {
+    contract: contractName,
+    chain: chainName,
+    environment,
+    address,
+    salt,
+    startedAt: new Date().toISOString(),
+    entries: [],
+  };
+  saveJournal(journal);
+  return journal;
+}
+
+export function recordStep(
+  journal: DeploymentJournal,
+  step: JournalStep,
+  data?: Record<string, unknown>,
+): void {
+  journal.entries.push({ step, at: new Date().toISOString(), ...(data && { data }) });
+  if (step === "recorded") {
+    journal.completedAt = new Date().toISOString();
+  }
+  saveJournal(journal);
+}
+
+/**
+ * Marks a journal as abandoned so the next run starts a fresh deployment
+ * instead of resuming it. The file is kept for the record.
+ */
+export function abandonJournal(journal: DeploymentJournal, reason: string): void {
+  journal.abandonedAt = new Date().toISOString();
+  journal.abandonReason = reason;
+  saveJournal(journal);
+}
+
+export function hasStep(journal: DeploymentJournal, step: JournalStep): boolean {
+  return journal.entries.some((e) => e.step === step);
+}
+
+export function getStepData(journal: DeploymentJournal, step: JournalStep): Record<string, unknown> | undefined {
+  return journal.entries.find((e) => e.step === step)?.data;
+}
+
+export function lastStep(journal: DeploymentJournal): JournalStep | null {
+  return journal.entries.at(-1)?.step ?? null;
+}
+
+function saveJournal(journal: DeploymentJournal): void {
+  const path = getJournalPath(journal.contract, journal.chain, journal.environment);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(journal, null, 2));
+}
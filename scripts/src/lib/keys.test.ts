@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { Wallet } from "ethers";
+import { checkKeySource, loadPrivateKey, parseKeyRef } from "./keys";
+import { isValidKeyRef } from "./validation";
+
+// Anvil's first default account
+const TEST_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const TEST_ADDRESS = new Wallet(TEST_KEY).address;
+
+afterEach(() => {
+  delete process.env.SPRITZ_TEST_KEY;
+});
+
+describe("parseKeyRef", () => {
+  test("selects the source from the scheme", () => {
+    expect(parseKeyRef("op://Vault/Item/pk")).toMatchObject({ source: { scheme: "op" }, target: "Vault/Item/pk" });
+    expect(parseKeyRef("keystore://deployer")).toMatchObject({ source: { scheme: "keystore" }, target: "deployer" });
+    expect(parseKeyRef("env://TESTNET_KEY")).toMatchObject({ source: { scheme: "env" }, target: "TESTNET_KEY" });
+  });
+
+  test("rejects unknown schemes", () => {
+    expect(() => parseKeyRef("ledger://0")).toThrow("Unsupported key reference");
+    expect(isValidKeyRef("ledger://0")).toBe(false);
+    expect(isValidKeyRef("keystore://deployer")).toBe(true);
+  });
+});
+
+describe("env source", () => {
+  test("loads a key and derives its address on testnets", async () => {
+    process.env.SPRITZ_TEST_KEY = TEST_KEY;
+    expect(await loadPrivateKey("env://SPRITZ_TEST_KEY", { testnet: true })).toEqual({
+      privateKey: TEST_KEY,
+      address: TEST_ADDRESS,
+    });
+  });
+
+  test("is refused on mainnets", async () => {
+    process.env.SPRITZ_TEST_KEY = TEST_KEY;
+    expect(checkKeySource("env://SPRITZ_TEST_KEY", false)?.error).toContain("only allowed on testnets");
+    await expect(loadPrivateKey("env://SPRITZ_TEST_KEY", { testnet: false })).rejects.toThrow("only allowed on testnets");
+  });
+
+  test("reports unset variables and invalid keys", async () => {
+    expect(checkKeySource("env://SPRITZ_TEST_KEY", true)?.error).toBe("SPRITZ_TEST_KEY is not set");
+
+    process.env.SPRITZ_TEST_KEY = "0x1234";
+    await expect(loadPrivateKey("env://SPRITZ_TEST_KEY", { testnet: true })).rejects.toThrow("not a valid private key");
+  });
+});
+
+test("keystore source reports missing keystores", () => {
+  expect(checkKeySource("keystore://spritz-test-missing", false)?.error).toContain("not found");
+  expect(checkKeySource("keystore://../etc/passwd", false)?.error).toContain("not found");
+});
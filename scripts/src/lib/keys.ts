@@ -0,0 +1,164 @@
+/**
+ * Key sources - loads deployer and Safe signer keys from the ref's scheme
+ *
+ *   op://Vault/Item/Field  1Password, read with `op read`
+ *   keystore://<name>      Foundry encrypted keystore in ~/.foundry/keystores,
+ *                          password prompted for
+ *   env://<VAR>            Raw key in an environment variable, testnets only
+ *
+ * Keys are only held in memory and never passed on a command line.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { Wallet } from "ethers";
+import prompts from "prompts";
+import { checkOpCli, checkOpSignedIn, readSecret } from "./op";
+
+export const KEY_SCHEMES = ["op", "keystore", "env"] as const;
+
+export type KeyScheme = (typeof KEY_SCHEMES)[number];
+
+export const KEYSTORE_DIR = join(homedir(), ".foundry", "keystores");
+
+export interface KeySourceProblem {
+  error: string;
+  hint?: string;
+}
+
+export interface KeySource {
+  scheme: KeyScheme;
+  label: string;
+  // Why the source can't be used right now, or null if it can
+  check(target: string, testnet: boolean): KeySourceProblem | null;
+  // Raw private key; throws if it can't be read
+  read(target: string): Promise<string>;
+}
+
+export interface LoadedKey {
+  privateKey: string;
+  address: string;
+}
+
+const onePassword: KeySource = {
+  scheme: "op",
+  label: "1Password",
+  check() {
+    if (!checkOpCli()) {
+      return {
+        error: "1Password CLI not installed",
+        hint: "Install: https://developer.1password.com/docs/cli/get-started",
+      };
+    }
+    if (!checkOpSignedIn()) {
+      return { error: "Not signed in to 1Password", hint: "Run: op signin" };
+    }
+    return null;
+  },
+  async read(target) {
+    const secret = readSecret(`op://${target}`);
+    if (!secret) {
+      throw new Error(`Failed to read op://${target} from 1Password`);
+    }
+    return secret;
+  },
+};
+
+const keystore: KeySource = {
+  scheme: "keystore",
+  label: "Foundry keystore",
+  check(target) {
+    if (target.includes("/") || !existsSync(join(KEYSTORE_DIR, target))) {
+      return {
+        error: `Keystore "${target}" not found in ${KEYSTORE_DIR}`,
+        hint: `Create it with: cast wallet import ${target} --interactive`,
+      };
+    }
+    return null;
+  },
+  async read(target) {
+    const json = readFileSync(join(KEYSTORE_DIR, target), "utf8");
+    const { password } = await prompts({
+      type: "password",
+      name: "password",
+      message: `Password for keystore "${target}"`,
+    });
+    if (password === undefined) {
+      throw new Error("Cancelled");
+    }
+    try {
+      return (await Wallet.fromEncryptedJson(json, password)).privateKey;
+    } catch {
+      throw new Error(`Could not decrypt keystore "${target}" (wrong password?)`);
+    }
+  },
+};
+
+const environment: KeySource = {
+  scheme: "env",
+  label: "Environment variable",
+  check(target, testnet) {
+    if (!testnet) {
+      return {
+        error: `env://${target} keys are only allowed on testnets`,
+        hint: "Use an op:// or keystore:// key for mainnet deployments",
+      };
+    }
+    if (!process.env[target]) {
+      return { error: `${target} is not set`, hint: `Add ${target}=0x... to .env` };
+    }
+    return null;
+  },
+  async read(target) {
+    return process.env[target]!;
+  },
+};
+
+const SOURCES: Record<KeyScheme, KeySource> = {
+  op: onePassword,
+  keystore,
+  env: environment,
+};
+
+/**
+ * Splits a key ref into its source and the scheme-specific target.
+ */
+export function parseKeyRef(ref: string): { source: KeySource; target: string } {
+  const match = ref.match(/^([a-z]+):\/\/(.+)$/);
+  if (!match || !(KEY_SCHEMES as readonly string[]).includes(match[1])) {
+    throw new Error(`Unsupported key reference "${ref}". Use ${KEY_SCHEMES.map((s) => `${s}://`).join(", ")}`);
+  }
+  return { source: SOURCES[match[1] as KeyScheme], target: match[2] };
+}
+
+/**
+ * Null if the key can be loaded for the given network type.
+ */
+export function checkKeySource(ref: string, testnet: boolean): KeySourceProblem | null {
+  try {
+    const { source, target } = parseKeyRef(ref);
+    return source.check(target, testnet);
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+}
+
+/**
+ * Loads a private key and derives its address. Throws if the source is
+ * unavailable, not allowed for the network type, or yields an invalid key.
+ */
+export async function loadPrivateKey(ref: string, options: { testnet: boolean }): Promise<LoadedKey> {
+  const { source, target } = parseKeyRef(ref);
+  const problem = source.check(target, options.testnet);
+  if (problem) {
+    throw new Error(problem.error);
+  }
+
+  const privateKey = await source.read(target);
+  try {
+    return { privateKey, address: new Wallet(privateKey).address };
+  } catch {
+    throw new Error(`${ref} is not a valid private key`);
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { hostname, tmpdir } from "os";
+import { join } from "path";
+import { withFileLock } from "./lock";
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempFile(): string {
+  const dir = mkdtempSync(join(tmpdir(), "lock-test-"));
+  dirs.push(dir);
+  return join(dir, "metadata.json");
+}
+
+function writeLock(path: string, pid: number, host: string = hostname()): void {
+  writeFileSync(`${path}.lock`, JSON.stringify({ pid, host, user: "alice", at: "2026-01-01T00:00:00.000Z" }));
+}
+
+// The pid of a process that has already exited
+function deadPid(): number {
+  return Bun.spawnSync(["true"]).pid;
+}
+
+describe("withFileLock", () => {
+  test("holds the lock while fn runs and releases it after", () => {
+    const path = tempFile();
+
+    expect(withFileLock(path, () => existsSync(`${path}.lock`))).toBe(true);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("releases the lock when fn throws", () => {
+    const path = tempFile();
+
+    expect(() =>
+      withFileLock(path, () => {
+        throw new Error("boom");
+      })
+    ).toThrow("boom");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("times out while a live process holds the lock", () => {
+    const path = tempFile();
+
+    expect(() =>
+      withFileLock(path, () => withFileLock(path, () => "second", { timeoutMs: 50, pollMs: 10 }))
+    ).toThrow(`is locked by`);
+
+    writeLock(path, process.pid);
+    expect(() => withFileLock(path, () => "second", { timeoutMs: 50, pollMs: 10 })).toThrow(
+      `locked by alice@${hostname()} (pid ${process.pid})`
+    );
+    expect(existsSync(`${path}.lock`)).toBe(true);
+  });
+
+  test("reclaims a stale lock left by a dead process on this host", () => {
+    const path = tempFile();
+    writeLock(path, deadPid());
+
+    expect(withFileLock(path, () => "reclaimed", { timeoutMs: 50, pollMs: 10 })).toBe("reclaimed");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  test("never breaks a lock held on another host", () => {
+    const path = tempFile();
+    writeLock(path, deadPid(), "other-host");
+
+    expect(() => withFileLock(path, () => "second", { timeoutMs: 50, pollMs: 10 })).toThrow("alice@other-host");
+    expect(existsSync(`${path}.lock`)).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * File locking - advisory lock files so two operators can't write the same file at once
+ */
+
+import { closeSync, existsSync, openSync, readFileSync, unlinkSync, writeSync } from "fs";
+import { hostname, userInfo } from "os";
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  user: string;
+  at: string;
+}
+
+export interface LockOptions {
+  timeoutMs?: number;
+  pollMs?: number;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function readOwner(lockPath: string): LockOwner | null {
+  try {
+    return JSON.parse(readFileSync(lockPath, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function tryAcquire(lockPath: string): boolean {
+  try {
+    const fd = openSync(lockPath, "wx");
+    const owner: LockOwner = {
+      pid: process.pid,
+      host: hostname(),
+      user: userInfo().username,
+      at: new Date().toISOString(),
+    };
+    writeSync(fd, JSON.stringify(owner));
+    closeSync(fd);
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Runs fn while holding `<path>.lock`. Stale locks left by a dead process on
+ * this host are cleared automatically; locks held by another host are only
+ * waited on, never broken.
+ */
+export function withFileLock<T>(path: string, fn: () => T, options: LockOptions = {}): T {
+  const lockPath = `${path}.lock`;
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const pollMs = options.pollMs ?? 200;
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquire(lockPath)) {
+    const owner = readOwner(lockPath);
+    if (owner && owner.host === hostname() && !isProcessAlive(owner.pid)) {
+      unlinkSync(lockPath);
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      const holder = owner ? `${owner.user}@${owner.host} (pid ${owner.pid}) since ${owner.at}` : "unknown owner";
+      throw new Error(`${path} is locked by ${holder}. Remove ${lockPath} if that process is gone.`);
+    }
+    Bun.sleepSync(pollMs);
+  }
+
+  try {
+    return fn();
+  } finally {
+    if (existsSync(lockPath)) {
+      unlinkSync(lockPath);
+    }
+  }
+}
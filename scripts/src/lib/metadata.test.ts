@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  compilerSettingsFromMetadata,
+  listVersions,
+  METADATA_SCHEMA_VERSION,
+  migrateMetadata,
+  nextVersion,
+  readAllMetadata,
+  readCurrentVersion,
+  resolveVersion,
+} from "./metadata";
+
+const LEGACY = {
+  contract: "SpritzRouter",
+  frozenAt: "2025-12-09T10:20:01.680Z",
+  gitCommit: "f19d6c1eccf9cf83d92e03c7ede5386e6f2de72a",
+  gitBranch: "main",
+  compiler: {
+    solc: "0.8.30",
+    evmVersion: "cancun",
+    optimizer: true,
+    optimizerRuns: 10000000,
+    viaIR: false,
+    cborMetadata: false,
+    bytecodeHash: "none",
+  },
+  initcodeHash: "0xe0fd4ad9342e6a7b09e434b7a78644b045d3086daa9fa3ced13ab42949435dc7",
+  deployments: [
+    {
+      id: "a5f0c7a2-2d0e-4a53-9a0e-3f7f8f9a1c11",
+      deployer: "0xbadfaceB351045374d7fd1d3915e62501BA9916C",
+      address: "0x0A2d7D9BFE42D5146Af53dce8ef4956F148C2a5F",
+      salt: "0xbadfaceb351045374d7fd1d3915e62501ba9916c009a4573d5a53c4f001a7ddb",
+      chains: ["base", "arbitrum"],
+      constructorArgs: ["0x000000000012F55170d4A2aB5ace512Eeb925Dca"],
+    },
+  ],
+};
+
+const ENCODED_CORE = "0x000000000000000000000000000000000012f55170d4a2ab5ace512eeb925dca";
+
+describe("migrateMetadata", () => {
+  test("upgrades chain lists to per-chain records", () => {
+    const migrated = migrateMetadata(LEGACY)!;
+
+    expect(migrated.schemaVersion).toBe(METADATA_SCHEMA_VERSION);
+    expect(migrated.deployments[0].environment).toBe("production");
+    expect(Object.keys(migrated.deployments[0].chains)).toEqual(["base", "arbitrum"]);
+    expect(migrated.deployments[0].chains.base.constructorArgs).toBe(ENCODED_CORE);
+  });
+
+  test("encodes version 2 constructor arg lists", () => {
+    const v2 = {
+      ...LEGACY,
+      schemaVersion: 2,
+      deployments: [
+        {
+          ...LEGACY.deployments[0],
+          environment: "production",
+          chains: {
+            base: { constructorArgs: LEGACY.deployments[0].constructorArgs, recordedAt: "2025-12-10T00:00:00.000Z" },
+            arbitrum: {},
+          },
+        },
+      ],
+    };
+    const migrated = migrateMetadata(v2)!;
+
+    expect(migrated.schemaVersion).toBe(METADATA_SCHEMA_VERSION);
+    expect(migrated.deployments[0].chains.base).toEqual({
+      constructorArgs: ENCODED_CORE,
+      recordedAt: "2025-12-10T00:00:00.000Z",
+    });
+    expect(migrated.deployments[0].chains.arbitrum.constructorArgs).toBeUndefined();
+  });
+
+  test("returns null for current metadata", () => {
+    const migrated = migrateMetadata(LEGACY)!;
+    expect(migrateMetadata(JSON.parse(JSON.stringify(migrated)))).toBeNull();
+  });
+});
+
+describe("compilerSettingsFromMetadata", () => {
+  test("reads the settings SpritzPayCore was built with", () => {
+    const path = join(import.meta.dir, "../../../deployments/SpritzPayCore/v1/artifacts/SpritzPayCore.metadata.json");
+    const settings = compilerSettingsFromMetadata(JSON.parse(readFileSync(path, "utf8")), "forge Version: 1.3.5-stable");
+
+    expect(settings).toEqual({
+      ...LEGACY.compiler,
+      solc: "0.8.30+commit.73712a01",
+      libraries: {},
+      forge: "forge Version: 1.3.5-stable",
+    });
+  });
+
+  test("applies solc defaults for omitted settings", () => {
+    const settings = compilerSettingsFromMetadata({ compiler: { version: "0.8.24+commit.e11b9ed9" }, settings: { viaIR: true } });
+
+    expect(settings).toMatchObject({ optimizer: false, optimizerRuns: 200, viaIR: true, cborMetadata: true, bytecodeHash: "ipfs" });
+    expect(settings.forge).toBeUndefined();
+    expect(() => compilerSettingsFromMetadata({ abi: [] })).toThrow("Not solc metadata output");
+  });
+});
+
+describe("versions", () => {
+  test("resolves the committed SpritzPayCore package", () => {
+    expect(listVersions("SpritzPayCore")).toEqual(["v1"]);
+    expect(readCurrentVersion("SpritzPayCore")).toBe("v1");
+    expect(nextVersion("SpritzPayCore")).toBe("v2");
+    expect(readAllMetadata("SpritzPayCore").map((v) => v.metadata.contract)).toEqual(["SpritzPayCore"]);
+  });
+
+  test("pins a version or falls back to current", () => {
+    expect(resolveVersion("SpritzPayCore")).toBe("v1");
+    expect(resolveVersion("SpritzPayCore", "v1")).toBe("v1");
+    expect(() => resolveVersion("SpritzPayCore", "v9")).toThrow("SpritzPayCore v9 is not frozen (frozen: v1)");
+    expect(resolveVersion("NeverFrozen")).toBeNull();
+    expect(nextVersion("NeverFrozen")).toBe("v1");
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Deployment metadata - shared schema for deployments/<Contract>/<version>/metadata.json
+ *
+ * Each freeze creates a new version directory (v1, v2, ...) next to the
+ * previous ones, and deployments/<Contract>/current names the version new
+ * deployments use unless config.json pins another. All package paths are
+ * built here.
+ *
+ * Schema history:
+ *   1 (unversioned) - deployments[].chains was a plain list of chain names
+ *   2               - deployments[].chains maps chain name to a per-chain record
+ *   3               - chain records store constructorArgs ABI-encoded instead of as a list
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import { AbiCoder } from "ethers";
+import { z } from "zod";
+import { withFileLock } from "./lock";
+import { AddressSchema, SaltSchema, VersionSchema } from "./validation";
+
+export const DEPLOYMENTS_DIR = join(process.cwd(), "deployments");
+
+export const METADATA_SCHEMA_VERSION = 3;
+
+// Pointer file naming the current version, e.g. "v2"
+export const CURRENT_VERSION_FILE = "current";
+
+const HashSchema = z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Invalid 32-byte hash");
+const HexSchema = z.string().regex(/^0x([a-fA-F0-9]{2})*$/, "Invalid hex data");
+
+export const VerificationRecordSchema = z.object({
+  status: z.enum(["verified", "failed"]),
+  checkedAt: z.string(),
+  message: z.string().optional(),
+});
+
+export const ChainDeploymentSchema = z.object({
+  txHash: HashSchema.optional(),
+  blockNumber: z.number().int().optional(),
+  // Block timestamp of the deployment transaction (ISO 8601)
+  timestamp: z.string().optional(),
+  // Account that sent the deployment transaction and paid for gas
+  from: AddressSchema.optional(),
+  // Decimal strings (wei) so values survive JSON round-trips
+  gasUsed: z.string().optional(),
+  effectiveGasPrice: z.string().optional(),
+  // ABI-encoded, exactly as appended to the initcode
+  constructorArgs: HexSchema.optional(),
+  recordedAt: z.string().optional(),
+  // Latest source verification outcome per verifier (etherscan, sourcify, blockscout)
+  verification: z.record(z.string(), VerificationRecordSchema).optional(),
+});
+
+export const DeploymentRecordSchema = z.object({
+  id: z.string(),
+  deployer: AddressSchema,
+  address: AddressSchema,
+  salt: SaltSchema,
+  environment: z.string(),
+  chains: z.record(z.string(), ChainDeploymentSchema),
+});
+
+export const CompilerSettingsSchema = z.object({
+  solc: z.string(),
+  evmVersion: z.string(),
+  optimizer: z.boolean(),
+  optimizerRuns: z.number(),
+  viaIR: z.boolean(),
+  cborMetadata: z.boolean(),
+  bytecodeHash: z.string(),
+  // Linked libraries, "path:Name" -> address
+  libraries: z.record(z.string(), z.string()).optional(),
+  // `forge --version` the package was built with
+  forge: z.string().optional(),
+});
+
+export const MetadataSchema = z.object({
+  schemaVersion: z.literal(METADATA_SCHEMA_VERSION),
+  contract: z.string(),
+  frozenAt: z.string(),
+  gitCommit: z.string(),
+  gitBranch: z.string(),
+  // Whether uncommitted changes were present (bun freeze --allow-dirty)
+  gitDirty: z.boolean().optional(),
+  compiler: CompilerSettingsSchema,
+  // foundry.lock revisions at freeze time, lib path -> commit
+  dependencies: z.record(z.string(), z.string()).optional(),
+  initcodeHash: HashSchema,
+  deployments: z.array(DeploymentRecordSchema),
+});
+
+// Before version 3 constructor args were a list of addresses
+const LegacyArgsSchema = z.array(AddressSchema).optional();
+
+const V2MetadataSchema = MetadataSchema.omit({ schemaVersion: true, deployments: true }).extend({
+  schemaVersion: z.literal(2),
+  deployments: z.array(
+    DeploymentRecordSchema.extend({
+      chains: z.record(z.string(), ChainDeploymentSchema.extend({ constructorArgs: LegacyArgsSchema })),
+    }),
+  ),
+});
+
+const LegacyMetadataSchema = MetadataSchema.omit({ schemaVersion: true, deployments: true }).extend({
+  deployments: z
+    .array(
+      z.object({
+        id: z.string(),
+        deployer: AddressSchema,
+        address: AddressSchema,
+        salt: SaltSchema,
+        environment: z.string().optional(),
+        chains: z.array(z.string()),
+        constructorArgs: LegacyArgsSchema,
+      }),
+    )
+    .optional(),
+});
+
+export type VerificationRecord = z.infer<typeof VerificationRecordSchema>;
+export type ChainDeployment = z.infer<typeof ChainDeploymentSchema>;
+export type DeploymentRecord = z.infer<typeof DeploymentRecordSchema>;
+export type CompilerSettings = z.infer<typeof CompilerSettingsSchema>;
+export type Metadata = z.infer<typeof MetadataSchema>;
+
+export interface FrozenVersion {
+  version: string;
+  metadata: Metadata;
+}
+
+export function getContractDir(contractName: string): string {
+  return join(DEPLOYMENTS_DIR, contractName);
+}
+
+export function getPackageDir(contractName: string, version: string): string {
+  return join(DEPLOYMENTS_DIR, contractName, version);
+}
+
+export function getArtifactPath(contractName: string, version: string, extension: string): string {
+  return join(getPackageDir(contractName, version), "artifacts", `${contractName}${extension}`);
+}
+
+export function getMetadataPath(contractName: string, version: string): string {
+  return join(getPackageDir(contractName, version), "metadata.json");
+}
+
+/**
+ * Frozen versions of a contract, oldest first.
+ */
+export function listVersions(contractName: string): string[] {
+  const dir = getContractDir(contractName);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && VersionSchema.safeParse(e.name).success)
+    .filter((e) => existsSync(getMetadataPath(contractName, e.name)))
+    .map((e) => e.name)
+    .sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+}
+
+export function nextVersion(contractName: string): string {
+  const versions = listVersions(contractName);
+  return versions.length === 0 ? "v1" : `v${Number(versions[versions.length - 1].slice(1)) + 1}`;
+}
+
+/**
+ * The version deployments/<Contract>/current points at, or null if the
+ * contract was never frozen.
+ */
+export function readCurrentVersion(contractName: string): string | null {
+  const path = join(getContractDir(contractName), CURRENT_VERSION_FILE);
+  if (!existsSync(path)) {
+    if (existsSync(join(getContractDir(contractName), "metadata.json"))) {
+      throw new Error(`deployments/${contractName} uses the unversioned layout. Run: bun freeze --migrate`);
+    }
+    return null;
+  }
+  const version = readFileSync(path, "utf8").trim();
+  if (!listVersions(contractName).includes(version)) {
+    throw new Error(`deployments/${contractName}/${CURRENT_VERSION_FILE} points at ${version}, which is not frozen`);
+  }
+  return version;
+}
+
+export function writeCurrentVersion(contractName: string, version: string): void {
+  writeFileSync(join(getContractDir(contractName), CURRENT_VERSION_FILE), `${version}\n`);
+}
+
+/**
+ * The pinned version if given, otherwise the current one. Null if the
+ * contract was never frozen. Throws if a pinned version doesn't exist.
+ */
+export function resolveVersion(contractName: string, pinned?: string): string | null {
+  if (pinned === undefined) {
+    return readCurrentVersion(contractName);
+  }
+  const frozen = listVersions(contractName);
+  if (!frozen.includes(pinned)) {
+    throw new Error(
+      `${contractName} ${pinned} is not frozen (${frozen.length > 0 ? `frozen: ${frozen.join(", ")}` : "no frozen versions"})`,
+    );
+  }
+  return pinned;
+}
+
+/**
+ * Names of all contracts with a frozen package under deployments/. Packages
+ * still in the unversioned layout are included so reading them reports
+ * that they need migrating.
+ */
+export function listFrozenContracts(): string[] {
+  if (!existsSync(DEPLOYMENTS_DIR)) {
+    return [];
+  }
+  return readdirSync(DEPLOYMENTS_DIR, { withFileTypes: true })
+    .filter((e) => e.isDirectory() && (listVersions(e.name).length > 0 || existsSync(join(getContractDir(e.name), "metadata.json"))))
+    .map((e) => e.name);
+}
+
+/**
+ * Reads and validates a version's metadata.json, the current version's if
+ * none is given. Returns null if the contract is not frozen; throws on
+ * outdated or invalid files.
+ */
+export function readMetadata(contractName: string, version?: string): Metadata | null {
+  const resolved = resolveVersion(contractName, version);
+  if (!resolved) {
+    return null;
+  }
+
+  const path = getMetadataPath(contractName, resolved);
+  const raw = JSON.parse(readFileSync(path, "utf8"));
+  if (raw.schemaVersion === undefined || raw.schemaVersion < METADATA_SCHEMA_VERSION) {
+    throw new Error(`${contractName}/${resolved}/metadata.json uses an older format. Run: bun freeze --migrate`);
+  }
+
+  const result = MetadataSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(`Invalid ${contractName}/${resolved}/metadata.json: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Every frozen version's metadata, oldest first.
+ */
+export function readAllMetadata(contractName: string): FrozenVersion[] {
+  return listVersions(contractName).map((version) => ({ version, metadata: readMetadata(contractName, version)! }));
+}
+
+export function writeMetadata(metadata: Metadata, version: string): void {
+  const validated = MetadataSchema.parse(metadata);
+  writeFileSync(getMetadataPath(metadata.contract, version), JSON.stringify(validated, null, 2));
+}
+
+/**
+ * Read-modify-write of a version's metadata.json under a file lock.
+ */
+export function updateMetadata<T>(contractName: string, version: string, fn: (metadata: Metadata) => T): T {
+  return withFileLock(getMetadataPath(contractName, version), () => {
+    const metadata = readMetadata(contractName, version);
+    if (!metadata) {
+      throw new Error(`No metadata found for ${contractName} ${version}`);
+    }
+    const result = fn(metadata);
+    writeMetadata(metadata, version);
+    return result;
+  });
+}
+
+/**
+ * Moves a package frozen before versioning (files directly under
+ * deployments/<Contract>/) into v1/ and points current at it. Returns false
+ * if the contract already uses the versioned layout.
+ */
+export function migratePackageLayout(contractName: string): boolean {
+  const dir = getContractDir(contractName);
+  if (!existsSync(join(dir, "metadata.json"))) {
+    return false;
+  }
+  if (listVersions(contractName).length > 0) {
+    throw new Error(`deployments/${contractName} has both a flat package and version directories`);
+  }
+
+  const target = getPackageDir(contractName, "v1");
+  mkdirSync(target);
+  for (const entry of readdirSync(dir)) {
+    if (entry !== "v1") {
+      renameSync(join(dir, entry), join(target, entry));
+    }
+  }
+  writeCurrentVersion(contractName, "v1");
+  return true;
+}
+
+/**
+ * Finds the deployment record live on a chain for an environment.
+ */
+export function findDeployment(
+  metadata: Metadata,
+  chainName: string,
+  environment: string,
+): DeploymentRecord | undefined {
+  return metadata.deployments.find((d) => d.environment === environment && chainName in d.chains);
+}
+
+/**
+ * The newest frozen version with a deployment record live on a chain for an
+ * environment, with that record.
+ */
+export function findRecordedVersion(
+  contractName: string,
+  chainName: string,
+  environment: string,
+): (FrozenVersion & { record: DeploymentRecord }) | undefined {
+  for (const { version, metadata } of readAllMetadata(contractName).reverse()) {
+    const record = findDeployment(metadata, chainName, environment);
+    if (record) {
+      return { version, metadata, record };
+    }
+  }
+  return undefined;
+}
+
+export function getDeployedChains(record: DeploymentRecord): string[] {
+  return Object.keys(record.chains);
+}
+
+function encodeLegacyArgs(args: string[] | undefined): string | undefined {
+  if (!args || args.length === 0) {
+    return undefined;
+  }
+  return AbiCoder.defaultAbiCoder().encode(args.map(() => "address"), args);
+}
+
+// The parts of solc's metadata output (forge inspect <C> metadata) read here
+interface SolcMetadata {
+  compiler: { version: string };
+  settings: {
+    evmVersion?: string;
+    optimizer?: { enabled?: boolean; runs?: number };
+    viaIR?: boolean;
+    metadata?: { bytecodeHash?: string; appendCBOR?: boolean };
+    libraries?: Record<string, string>;
+  };
+}
+
+/**
+ * Compiler settings as solc actually used them, from its metadata output.
+ * Missing settings take solc's defaults.
+ */
+export function compilerSettingsFromMetadata(raw: unknown, forgeVersion?: string): CompilerSettings {
+  const { compiler, settings } = raw as SolcMetadata;
+  if (!compiler?.version || !settings) {
+    throw new Error("Not solc metadata output: missing compiler.version or settings");
+  }
+
+  return {
+    solc: compiler.version,
+    evmVersion: settings.evmVersion ?? "default",
+    optimizer: settings.optimizer?.enabled ?? false,
+    optimizerRuns: settings.optimizer?.runs ?? 200,
+    viaIR: settings.viaIR ?? false,
+    cborMetadata: settings.metadata?.appendCBOR ?? true,
+    bytecodeHash: settings.metadata?.bytecodeHash ?? "ipfs",
+    libraries: settings.libraries ?? {},
+    ...(forgeVersion ? { forge: forgeVersion } : {}),
+  };
+}
+
+/**
+ * Upgrades a parsed metadata.json of any known version to the current schema.
+ * Returns null if it is already current.
+ */
+export function migrateMetadata(raw: unknown): Metadata | null {
+  const version = (raw as { schemaVersion?: number }).schemaVersion;
+  if (version === METADATA_SCHEMA_VERSION) {
+    MetadataSchema.parse(raw);
+    return null;
+  }
+
+  if (version === 2) {
+    const v2 = V2MetadataSchema.parse(raw);
+    return MetadataSchema.parse({
+      ...v2,
+      schemaVersion: METADATA_SCHEMA_VERSION,
+      deployments: v2.deployments.map((d) => ({
+        ...d,
+        chains: Object.fromEntries(
+          Object.entries(d.chains).map(([chain, entry]) => [
+            chain,
+            { ...entry, constructorArgs: encodeLegacyArgs(entry.constructorArgs) },
+          ]),
+        ),
+      })),
+    });
+  }
+
+  const legacy = LegacyMetadataSchema.parse(raw);
+  const { deployments, ...rest } = legacy;
+
+  return MetadataSchema.parse({
+    schemaVersion: METADATA_SCHEMA_VERSION,
+    ...rest,
+    deployments: (deployments ?? []).map((d) => ({
+      id: d.id,
+      deployer: d.deployer,
+      address: d.address,
+      salt: d.salt,
+      environment: d.environment ?? "production",
+      chains: Object.fromEntries(
+        d.chains.map((chain) => [chain, { constructorArgs: encodeLegacyArgs(d.constructorArgs) }]),
+      ),
+    })),
+  });
+}
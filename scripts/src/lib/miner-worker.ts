@@ -0,0 +1,28 @@
+/**
+ * Salt miner worker - runs searchSalts in batches until terminated
+ *
+ * Receives { deployer, leading } once, then posts { type: "hit", salt, address }
+ * for every match and { type: "progress", attempts } after each batch.
+ *
+ * The search loop never yields back to the event loop, so the worker can't
+ * receive a stop message: the parent's terminate() is the only way to end it.
+ */
+
+import { createSaltSearcher, randomEntropy, searchSalts } from "./miner";
+
+declare const self: Worker;
+
+const BATCH = 2_000;
+
+self.onmessage = (event: MessageEvent<{ deployer: string; leading: number }>) => {
+  const { deployer, leading } = event.data;
+  const searcher = createSaltSearcher(deployer);
+  const entropy = randomEntropy();
+
+  for (;;) {
+    for (const hit of searchSalts(searcher, entropy, leading, BATCH)) {
+      self.postMessage({ type: "hit", ...hit });
+    }
+    self.postMessage({ type: "progress", attempts: BATCH });
+  }
+};
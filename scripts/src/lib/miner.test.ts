@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { computeCreate3Address } from "./createx";
+import { createSaltSearcher, hasLeadingZeroBytes, incrementEntropy, randomEntropy, searchSalts } from "./miner";
+
+const DEPLOYER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+
+describe("createSaltSearcher", () => {
+  test("matches computeCreate3Address for generateSalt-format salts", () => {
+    const searcher = createSaltSearcher(DEPLOYER);
+    for (let i = 0; i < 20; i++) {
+      const entropy = randomEntropy();
+      const salt = searcher.saltFor(entropy);
+      expect(salt.startsWith(DEPLOYER.toLowerCase() + "00")).toBe(true);
+      expect(searcher.derive(entropy)).toBe(computeCreate3Address(DEPLOYER, salt));
+    }
+  });
+});
+
+describe("hasLeadingZeroBytes", () => {
+  test("counts whole zero bytes", () => {
+    expect(hasLeadingZeroBytes("0x0000001234567890123456789012345678901234", 3)).toBe(true);
+    expect(hasLeadingZeroBytes("0x0000011234567890123456789012345678901234", 3)).toBe(false);
+    expect(hasLeadingZeroBytes("0x1234567890123456789012345678901234567890", 0)).toBe(true);
+  });
+});
+
+describe("incrementEntropy", () => {
+  test("carries across bytes", () => {
+    const entropy = new Uint8Array([0, 0xff, 0xff]);
+    incrementEntropy(entropy);
+    expect([...entropy]).toEqual([1, 0, 0]);
+  });
+});
+
+describe("searchSalts", () => {
+  test("returns valid hits and advances the entropy", () => {
+    const searcher = createSaltSearcher(DEPLOYER);
+    const entropy = new Uint8Array(11);
+    const hits = searchSalts(searcher, entropy, 1, 2000);
+
+    expect(entropy[9]).toBe(7);
+    expect(entropy[10]).toBe(208);
+    expect(hits.length).toBeGreaterThan(0);
+    for (const hit of hits) {
+      expect(hit.address.startsWith("0x00")).toBe(true);
+      expect(computeCreate3Address(DEPLOYER, hit.salt)).toBe(hit.address);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Vanity salt miner - searches generateSalt-format salts for CREATE3 addresses
+ * with leading zero bytes
+ *
+ * Salts are <deployer:20><0x00:1><entropy:11>, so every hit is usable by the
+ * deployer on every chain. The derivation mirrors computeCreate3Address but
+ * reuses preallocated buffers, since it runs millions of times.
+ */
+
+import { randomBytes } from "crypto";
+import { getBytes, hexlify, keccak256 } from "ethers";
+import { CREATE3_PROXY_INITCODE_HASH, CREATEX_ADDRESS } from "./createx";
+
+export const ENTROPY_BYTES = 11;
+
+export interface SaltHit {
+  salt: string;
+  // Lowercase, as computeCreate3Address returns it
+  address: string;
+}
+
+export interface SaltSearcher {
+  // Address for the salt with the given entropy
+  derive(entropy: Uint8Array): string;
+  saltFor(entropy: Uint8Array): string;
+}
+
+export function createSaltSearcher(deployer: string): SaltSearcher {
+  // keccak256(abi.encode(deployer, salt)): deployer left-padded, then the salt
+  const guardInput = new Uint8Array(64);
+  guardInput.set(getBytes(deployer), 12);
+  guardInput.set(getBytes(deployer), 32);
+
+  // 0xff ++ CreateX ++ guarded salt ++ proxy initcode hash
+  const proxyInput = new Uint8Array(85);
+  proxyInput[0] = 0xff;
+  proxyInput.set(getBytes(CREATEX_ADDRESS), 1);
+  proxyInput.set(getBytes(CREATE3_PROXY_INITCODE_HASH), 53);
+
+  // RLP([proxy, nonce 1])
+  const deployInput = new Uint8Array(23);
+  deployInput.set([0xd6, 0x94], 0);
+  deployInput[22] = 0x01;
+
+  return {
+    derive(entropy) {
+      guardInput.set(entropy, 64 - ENTROPY_BYTES);
+      proxyInput.set(getBytes(keccak256(guardInput)), 21);
+      deployInput.set(getBytes(keccak256(proxyInput)).subarray(12), 2);
+      return "0x" + keccak256(deployInput).slice(-40);
+    },
+    saltFor(entropy) {
+      guardInput.set(entropy, 64 - ENTROPY_BYTES);
+      return hexlify(guardInput.subarray(32));
+    },
+  };
+}
+
+export function hasLeadingZeroBytes(address: string, count: number): boolean {
+  for (let i = 2; i < 2 + count * 2; i++) {
+    if (address[i] !== "0") {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Random starting entropy. Workers start at independent random points and
+ * count up, so they never search the same salts.
+ */
+export function randomEntropy(): Uint8Array {
+  return new Uint8Array(randomBytes(ENTROPY_BYTES));
+}
+
+export function incrementEntropy(entropy: Uint8Array): void {
+  for (let i = entropy.length - 1; i >= 0; i--) {
+    entropy[i] = (entropy[i] + 1) & 0xff;
+    if (entropy[i] !== 0) {
+      return;
+    }
+  }
+}
+
+/**
+ * Tries `attempts` consecutive salts from `entropy` (advancing it in place)
+ * and returns the ones whose address has `leading` zero bytes.
+ */
+export function searchSalts(
+  searcher: SaltSearcher,
+  entropy: Uint8Array,
+  leading: number,
+  attempts: number,
+): SaltHit[] {
+  const hits: SaltHit[] = [];
+  for (let i = 0; i < attempts; i++) {
+    const address = searcher.derive(entropy);
+    if (hasLeadingZeroBytes(address, leading)) {
+      hits.push({ salt: searcher.saltFor(entropy), address });
+    }
+    incrementEntropy(entropy);
+  }
+  return hits;
+}
+
+export function formatSaltLine(hit: SaltHit): string {
+  return `${hit.salt} => ${hit.address}`;
+}
@@ -32,15 +32,3 @@ export function readSecret(ref: string): string | null {
     return null;
   }
 }
-
-export function getAddressFromKey(keyRef: string): string | null {
-  try {
-    const cmd = `op read "${keyRef}" | xargs cast wallet address`;
-    return execSync(cmd, {
-      encoding: "utf8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
-  } catch {
-    return null;
-  }
-}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { keccak256 } from "ethers";
+import {
+  compareRebuild,
+  generateChecksums,
+  parseFoundryLock,
+  parseRemappings,
+  packagedLibraries,
+  parseTomlRemappings,
+  requiredLibraries,
+  verifyChecksums,
+} from "./rebuild";
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function makePackage(): string {
+  const dir = mkdtempSync(join(tmpdir(), "rebuild-test-"));
+  dirs.push(dir);
+  mkdirSync(join(dir, "src"));
+  writeFileSync(join(dir, "src", "Core.sol"), "contract Core {}\n");
+  writeFileSync(join(dir, "metadata.json"), "{}\n");
+  writeFileSync(join(dir, "checksums.sha256"), generateChecksums(dir));
+  return dir;
+}
+
+describe("verifyChecksums", () => {
+  test("passes the committed SpritzPayCore package", () => {
+    expect(verifyChecksums(join(import.meta.dir, "../../../deployments/SpritzPayCore/v1"))).toEqual([]);
+  });
+
+  test("ignores metadata.json but flags edited, missing and added files", () => {
+    const dir = makePackage();
+    writeFileSync(join(dir, "metadata.json"), '{"deployments":[]}\n');
+    expect(verifyChecksums(dir)).toEqual([]);
+
+    writeFileSync(join(dir, "src", "Core.sol"), "contract Core { uint256 x; }\n");
+    writeFileSync(join(dir, "src", "Extra.sol"), "contract Extra {}\n");
+    expect(verifyChecksums(dir)).toEqual(["src/Core.sol does not match its checksum", "src/Extra.sol is not in checksums.sha256"]);
+
+    rmSync(join(dir, "src", "Core.sol"));
+    expect(verifyChecksums(dir)).toContain("src/Core.sol is missing");
+  });
+});
+
+describe("remappings", () => {
+  test("collects the libraries remappings.txt and foundry.toml point into", () => {
+    const txt = parseRemappings("# comment\n@openzeppelin/contracts/=lib/openzeppelin-contracts/contracts/\n");
+    const toml = parseTomlRemappings(
+      'src = "src"\nremappings = [\n    "@openzeppelin/=lib/openzeppelin-contracts/",\n    "solady/=lib/solady/src/"\n]\n',
+    );
+
+    expect(txt).toEqual([{ prefix: "@openzeppelin/contracts/", target: "lib/openzeppelin-contracts/contracts/" }]);
+    expect(requiredLibraries([...txt, ...toml])).toEqual(["lib/openzeppelin-contracts", "lib/solady"]);
+    expect(parseTomlRemappings('src = "src"\n')).toEqual([]);
+  });
+
+  test("derives library roots from packaged source paths", () => {
+    const sources = [
+      "src/SpritzPayCore.sol",
+      "lib/solady/src/auth/Ownable.sol",
+      "lib/solady/src/utils/SafeTransferLib.sol",
+      "lib/openzeppelin-contracts/contracts/token/ERC20/IERC20.sol",
+    ];
+
+    expect(packagedLibraries(sources)).toEqual(["lib/openzeppelin-contracts", "lib/solady"]);
+    expect(packagedLibraries(["src/Core.sol", "lib"])).toEqual([]);
+  });
+
+  test("reads rev, tag and branch pins from foundry.lock", () => {
+    const lock = parseFoundryLock(readFileSync(join(import.meta.dir, "../../../foundry.lock"), "utf8"));
+    expect(lock["lib/openzeppelin-contracts"]).toBe("dbb6104ce834628e473d2173bbc9d47f81a9eec3");
+    expect(lock["lib/solady"]).toBe("acd959aa4bd04720d640bf4e6a5c71037510cc4b");
+    expect(parseFoundryLock('{"lib/x":{"branch":{"name":"main","rev":"abc"}}}')).toEqual({ "lib/x": "abc" });
+  });
+});
+
+describe("compareRebuild", () => {
+  const frozen = { initcode: "0x6001600055\n", deployed: "0x600055", initcodeHash: keccak256("0x6001600055") };
+
+  test("passes identical bytecode", () => {
+    expect(compareRebuild({ initcode: "0x6001600055", deployed: "0x600055" }, frozen).every((c) => c.ok)).toBe(true);
+  });
+
+  test("reports each mismatch", () => {
+    const checks = compareRebuild({ initcode: "0x6002600055", deployed: "0x60005500" }, frozen);
+    expect(checks.map((c) => [c.name, c.ok])).toEqual([
+      ["initcode", false],
+      ["deployed bytecode", false],
+      ["initcodeHash", false],
+    ]);
+    expect(checks[1].detail).toContain("rebuilt 4 bytes, frozen 3 bytes");
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Reproducible-build check - rebuilds a frozen package and compares bytecode
+ *
+ * The package in deployments/<Contract>/<version>/ is copied into a temp dir. A package
+ * that carries every source in its standard JSON input builds from those
+ * alone; older packages get the libraries their remappings point at, restored
+ * at the revisions recorded in metadata.json (or foundry.lock). It is built
+ * there with forge, and the result must match the
+ * frozen .initcode, .deployed and metadata.initcodeHash exactly.
+ * checksums.sha256 is re-checked as well.
+ */
+
+import { execSync } from "child_process";
+import { createHash } from "crypto";
+import { cpSync, existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { keccak256 } from "ethers";
+import { getArtifactPath, getPackageDir, readMetadata, resolveVersion } from "./metadata";
+import { listSourcePaths, parseStandardJsonInput } from "./sources";
+
+export const CHECKSUMS_FILE = "checksums.sha256";
+
+// Package files that legitimately change after freezing (deployments are
+// recorded in metadata.json), so they aren't held to their checksum
+const MUTABLE_FILES = new Set(["metadata.json", CHECKSUMS_FILE]);
+
+export interface RebuildCheck {
+  name: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface Remapping {
+  prefix: string;
+  target: string;
+}
+
+export interface FrozenBytecode {
+  initcode: string;
+  deployed: string;
+  initcodeHash: string;
+}
+
+/**
+ * `sha256  ./path` lines for every file under dir, sorted, as written to
+ * checksums.sha256.
+ */
+export function generateChecksums(dir: string): string {
+  const checksums: string[] = [];
+
+  function walkDir(currentDir: string, relativePath: string = ""): void {
+    for (const file of readdirSync(currentDir)) {
+      const fullPath = join(currentDir, file);
+      const relPath = join(relativePath, file);
+
+      if (statSync(fullPath).isDirectory()) {
+        walkDir(fullPath, relPath);
+      } else {
+        const hash = createHash("sha256").update(readFileSync(fullPath)).digest("hex");
+        checksums.push(`${hash}  ./${relPath}`);
+      }
+    }
+  }
+
+  walkDir(dir);
+  return checksums.sort().join("\n");
+}
+
+/**
+ * Files whose contents changed, that are missing, or that were added since
+ * checksums.sha256 was written. metadata.json is skipped.
+ */
+export function verifyChecksums(dir: string): string[] {
+  const path = join(dir, CHECKSUMS_FILE);
+  if (!existsSync(path)) {
+    return [`${CHECKSUMS_FILE} is missing`];
+  }
+
+  const expected = new Map<string, string>();
+  for (const line of readFileSync(path, "utf8").split("\n").filter(Boolean)) {
+    const match = line.match(/^([0-9a-f]{64})\s+\.\/(.+)$/);
+    if (!match) {
+      return [`Malformed ${CHECKSUMS_FILE} line: ${line}`];
+    }
+    expected.set(match[2], match[1]);
+  }
+
+  const actual = new Map<string, string>();
+  for (const line of generateChecksums(dir).split("\n").filter(Boolean)) {
+    const [hash, file] = line.split(/\s+\.\//);
+    actual.set(file, hash);
+  }
+
+  const problems: string[] = [];
+  for (const [file, hash] of expected) {
+    if (MUTABLE_FILES.has(file)) continue;
+    if (!actual.has(file)) {
+      problems.push(`${file} is missing`);
+    } else if (actual.get(file) !== hash) {
+      problems.push(`${file} does not match its checksum`);
+    }
+  }
+  for (const file of actual.keys()) {
+    if (!expected.has(file) && !MUTABLE_FILES.has(file)) {
+      problems.push(`${file} is not in ${CHECKSUMS_FILE}`);
+    }
+  }
+  return problems.sort();
+}
+
+function toRemappings(entries: string[]): Remapping[] {
+  return entries
+    .map((entry) => entry.match(/^(?:[^:=]*:)?([^=]+)=(.+)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => ({ prefix: m[1].trim(), target: m[2].trim() }));
+}
+
+/**
+ * Remappings from remappings.txt, one `prefix=target` per line.
+ */
+export function parseRemappings(text: string): Remapping[] {
+  return toRemappings(text.split("\n").map((line) => line.trim()).filter((line) => line && !line.startsWith("#")));
+}
+
+/**
+ * Remappings from foundry.toml's `remappings = [...]` array.
+ */
+export function parseTomlRemappings(toml: string): Remapping[] {
+  const block = toml.match(/^\s*remappings\s*=\s*\[([\s\S]*?)\]/m);
+  return block ? toRemappings([...block[1].matchAll(/["']([^"']+)["']/g)].map((m) => m[1])) : [];
+}
+
+// lib/<name> for a path inside a library, sorted and deduplicated
+function libraryRoots(paths: string[]): string[] {
+  const libs = paths.map((path) => path.match(/^(lib\/[^/]+)/)?.[1]).filter((lib): lib is string => lib !== undefined);
+  return [...new Set(libs)].sort();
+}
+
+/**
+ * The lib/<name> directories remappings point into.
+ */
+export function requiredLibraries(remappings: Remapping[]): string[] {
+  return libraryRoots(remappings.map((r) => r.target));
+}
+
+/**
+ * The lib/<name> directories a package's sources come from, given source
+ * paths as listed in its standard JSON input (e.g. lib/solady/src/auth/Ownable.sol).
+ */
+export function packagedLibraries(sourcePaths: string[]): string[] {
+  return libraryRoots(sourcePaths);
+}
+
+/**
+ * lib path -> pinned commit from foundry.lock. Entries are pinned by rev,
+ * tag or branch; each form records the commit.
+ */
+export function parseFoundryLock(text: string): Record<string, string> {
+  const lock = JSON.parse(text) as Record<string, { rev?: string; tag?: { rev: string }; branch?: { rev: string } }>;
+  const revisions: Record<string, string> = {};
+  for (const [lib, entry] of Object.entries(lock)) {
+    const rev = entry.rev ?? entry.tag?.rev ?? entry.branch?.rev;
+    if (rev) {
+      revisions[lib] = rev;
+    }
+  }
+  return revisions;
+}
+
+/**
+ * Compares a fresh build against the frozen artifacts.
+ */
+export function compareRebuild(rebuilt: { initcode: string; deployed: string }, frozen: FrozenBytecode): RebuildCheck[] {
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const describe = (a: string, b: string) => `rebuilt ${a.length / 2 - 1} bytes, frozen ${b.length / 2 - 1} bytes`;
+  const rebuiltHash = keccak256(rebuilt.initcode.trim());
+
+  return [
+    same(rebuilt.initcode, frozen.initcode)
+      ? { name: "initcode", ok: true }
+      : { name: "initcode", ok: false, detail: `Differs from the frozen .initcode (${describe(rebuilt.initcode, frozen.initcode)})` },
+    same(rebuilt.deployed, frozen.deployed)
+      ? { name: "deployed bytecode", ok: true }
+      : { name: "deployed bytecode", ok: false, detail: `Differs from the frozen .deployed (${describe(rebuilt.deployed, frozen.deployed)})` },
+    same(rebuiltHash, frozen.initcodeHash)
+      ? { name: "initcodeHash", ok: true, detail: rebuiltHash }
+      : { name: "initcodeHash", ok: false, detail: `Rebuilt ${rebuiltHash}, metadata.json has ${frozen.initcodeHash}` },
+  ];
+}
+
+function sh(cmd: string, cwd: string): string {
+  try {
+    return execSync(cmd, { cwd, encoding: "utf8", stdio: "pipe", maxBuffer: 64 * 1024 * 1024 });
+  } catch (e) {
+    const stderr = String((e as { stderr?: string }).stderr ?? "").trim();
+    throw new Error(stderr.split("\n").slice(-3).join(" ") || `Command failed: ${cmd}`);
+  }
+}
+
+/**
+ * Exports each library at its pinned commit from the repo's own checkout.
+ * Revisions recorded at freeze time win over the current foundry.lock;
+ * libraries in neither fall back to the submodule commit.
+ */
+function restoreLibraries(repoRoot: string, buildDir: string, libs: string[], recorded: Record<string, string> = {}): string[] {
+  const lockPath = join(repoRoot, "foundry.lock");
+  const lock = { ...(existsSync(lockPath) ? parseFoundryLock(readFileSync(lockPath, "utf8")) : {}), ...recorded };
+  const restored: string[] = [];
+
+  for (const lib of libs) {
+    const source = join(repoRoot, lib);
+    if (!existsSync(join(source, ".git"))) {
+      throw new Error(`${lib} is not checked out. Run: git submodule update --init ${lib}`);
+    }
+
+    const rev = lock[lib] ?? sh(`git ls-tree HEAD ${lib}`, repoRoot).split(/\s+/)[2];
+    if (!rev) {
+      throw new Error(`${lib} is neither in foundry.lock nor a submodule`);
+    }
+
+    const dest = join(buildDir, lib);
+    mkdirSync(dest, { recursive: true });
+    sh(`git -C ${JSON.stringify(source)} archive --format=tar ${rev} | tar -x -C ${JSON.stringify(dest)}`, repoRoot);
+    restored.push(`${lib}@${rev.slice(0, 7)}`);
+  }
+
+  return restored;
+}
+
+/**
+ * The standard JSON input's source paths if the package carries all of them,
+ * otherwise null (packages frozen before sources came from the compiler input).
+ */
+function listPackagedSources(packageDir: string): string[] | null {
+  const path = join(packageDir, "verify", "standard-json-input.json");
+  if (!existsSync(path)) {
+    return null;
+  }
+  const sources = listSourcePaths(parseStandardJsonInput(readFileSync(path, "utf8")));
+  return sources.every((source) => existsSync(join(packageDir, source))) ? sources : null;
+}
+
+/**
+ * Rebuilds deployments/<Contract>/<version>/ (current if not given) in a temp
+ * dir and checks it against the frozen artifacts. Failures are returned as
+ * checks; the temp dir is always removed.
+ */
+export function rebuildFrozenPackage(contractName: string, version?: string, repoRoot: string = process.cwd()): RebuildCheck[] {
+  let resolved: string | null;
+  try {
+    resolved = resolveVersion(contractName, version);
+  } catch (e) {
+    return [{ name: "package", ok: false, detail: (e as Error).message }];
+  }
+  if (!resolved) {
+    return [{ name: "package", ok: false, detail: `${contractName} is not frozen` }];
+  }
+  const packageDir = getPackageDir(contractName, resolved);
+  const metadata = readMetadata(contractName, resolved)!;
+
+  const checksumProblems = verifyChecksums(packageDir);
+  const checks: RebuildCheck[] = [
+    checksumProblems.length === 0
+      ? { name: CHECKSUMS_FILE, ok: true }
+      : { name: CHECKSUMS_FILE, ok: false, detail: checksumProblems.join("; ") },
+  ];
+
+  const buildDir = mkdtempSync(join(tmpdir(), `freeze-verify-${contractName}-`));
+  try {
+    cpSync(join(packageDir, "src"), join(buildDir, "src"), { recursive: true });
+    cpSync(join(packageDir, "foundry.toml"), join(buildDir, "foundry.toml"));
+    const packaged = listPackagedSources(packageDir);
+    if (existsSync(join(packageDir, "lib"))) {
+      cpSync(join(packageDir, "lib"), join(buildDir, "lib"), { recursive: true });
+    }
+
+    const remappings = parseTomlRemappings(readFileSync(join(packageDir, "foundry.toml"), "utf8"));
+    const remappingsTxt = join(repoRoot, "remappings.txt");
+    if (existsSync(remappingsTxt)) {
+      cpSync(remappingsTxt, join(buildDir, "remappings.txt"));
+      remappings.push(...parseRemappings(readFileSync(remappingsTxt, "utf8")));
+    }
+
+    try {
+      if (packaged) {
+        const libs = packagedLibraries(packaged);
+        checks.push({ name: "libraries", ok: true, detail: libs.length > 0 ? `packaged: ${libs.join(", ")}` : "none needed" });
+      } else {
+        const restored = restoreLibraries(repoRoot, buildDir, requiredLibraries(remappings), metadata.dependencies);
+        checks.push({ name: "libraries", ok: true, detail: restored.join(", ") || "none needed" });
+      }
+    } catch (e) {
+      checks.push({ name: "libraries", ok: false, detail: (e as Error).message });
+      return checks;
+    }
+
+    let rebuilt: { initcode: string; deployed: string };
+    try {
+      sh("forge build --force", buildDir);
+      rebuilt = {
+        initcode: sh(`forge inspect ${contractName} bytecode`, buildDir).trim(),
+        deployed: sh(`forge inspect ${contractName} deployedBytecode`, buildDir).trim(),
+      };
+      checks.push({ name: "forge build", ok: true });
+    } catch (e) {
+      checks.push({ name: "forge build", ok: false, detail: (e as Error).message });
+      return checks;
+    }
+
+    checks.push(
+      ...compareRebuild(rebuilt, {
+        initcode: readFileSync(getArtifactPath(contractName, resolved, ".initcode"), "utf8"),
+        deployed: readFileSync(getArtifactPath(contractName, resolved, ".deployed"), "utf8"),
+        initcodeHash: metadata.initcodeHash,
+      }),
+    );
+    return checks;
+  } finally {
+    rmSync(buildDir, { recursive: true, force: true });
+  }
+}
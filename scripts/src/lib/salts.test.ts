@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { computeCreate3Address } from "./createx";
+import { auditSaltInventory, countLeadingZeroBytes, markSaltAllocated, parseSaltInventory, pickSalt } from "./salts";
+
+const DEPLOYER = "0xbadfaceB351045374d7fd1d3915e62501BA9916C";
+const SIX_ZEROS = "0xbadfaceb351045374d7fd1d3915e62501ba9916c0050378273bf5c7e02172697";
+const FIVE_ZEROS = "0xbadfaceb351045374d7fd1d3915e62501ba9916c009a4573d5a53c4f001a7dda";
+const OTHER_DEPLOYER = "0x000000000000000000000000000000000000dead000000000000000000000001";
+
+const CHAIN_SPECIFIC = "0xbadfaceb351045374d7fd1d3915e62501ba9916c010000000000000000000001";
+
+const line = (salt: string, address = computeCreate3Address(DEPLOYER, salt)) => `${salt} => ${address}`;
+
+describe("parseSaltInventory", () => {
+  test("reads pairs and allocation markers", () => {
+    const entries = parseSaltInventory(`${line(FIVE_ZEROS)}\n\n${line(SIX_ZEROS)} # allocated: SpritzRouter (sandbox)\n`);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ salt: FIVE_ZEROS, line: 1, allocatedTo: undefined });
+    expect(entries[1]).toMatchObject({ salt: SIX_ZEROS, line: 3, allocatedTo: "SpritzRouter (sandbox)" });
+  });
+
+  test("rejects malformed lines", () => {
+    expect(() => parseSaltInventory(`${line(FIVE_ZEROS)}\n0x1234 => 0x5678\n`)).toThrow("salts.txt line 2");
+  });
+});
+
+describe("auditSaltInventory", () => {
+  test("only offers unused salts for the deployer that re-derive", () => {
+    const wrongAddress = "0xbadfaceb351045374d7fd1d3915e62501ba9916c00000000000000000000000a";
+    const entries = parseSaltInventory(
+      [
+        line(SIX_ZEROS),
+        `${line(FIVE_ZEROS)} # allocated: SpritzPayCore (production)`,
+        line(OTHER_DEPLOYER, "0x0000000000000000000000000000000000000001"),
+        line(CHAIN_SPECIFIC, "0x0000000000000000000000000000000000000001"),
+        line(wrongAddress, "0x0000000000000000000000000000000000000001"),
+        line("0xbadfaceb351045374d7fd1d3915e62501ba9916c00a4f2755e904c6f005ce60c"),
+      ].join("\n"),
+    );
+
+    const audit = auditSaltInventory(entries, DEPLOYER, [
+      "0xBADFACEB351045374D7FD1D3915E62501BA9916C00A4F2755E904C6F005CE60C",
+    ]);
+
+    expect(audit.candidates.map((c) => c.salt)).toEqual([SIX_ZEROS]);
+    expect(audit.candidates[0].leadingZeroBytes).toBe(6);
+    expect(audit).toMatchObject({ allocated: 1, inConfig: 1, otherGuard: 2 });
+    expect(audit.mismatched.map((e) => e.line)).toEqual([5]);
+  });
+});
+
+describe("pickSalt", () => {
+  const candidates = parseSaltInventory([line(FIVE_ZEROS), line(SIX_ZEROS)].join("\n")).map((e) => ({
+    ...e,
+    leadingZeroBytes: countLeadingZeroBytes(e.address),
+  }));
+
+  test("prefers the most leading zero bytes", () => {
+    expect(pickSalt(candidates)?.salt).toBe(SIX_ZEROS);
+    expect(pickSalt(candidates, 7)).toBeNull();
+  });
+});
+
+describe("markSaltAllocated", () => {
+  test("marks the line once", () => {
+    const text = `${line(FIVE_ZEROS)}\n${line(SIX_ZEROS)}\n`;
+    const marked = markSaltAllocated(text, SIX_ZEROS, "SpritzPayCore (sandbox)");
+
+    expect(marked.split("\n")[0]).toBe(line(FIVE_ZEROS));
+    expect(marked.split("\n")[1]).toBe(`${line(SIX_ZEROS)} # allocated: SpritzPayCore (sandbox)`);
+    expect(() => markSaltAllocated(marked, SIX_ZEROS, "SpritzRouter (sandbox)")).toThrow("already allocated");
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Salt inventory - pre-mined `salt => address` pairs in salts.txt
+ *
+ * Lines are `<salt> => <address>`, optionally followed by
+ * `# allocated: <label>` once the salt has been handed to a contract. Picking
+ * re-derives every address for the deployer rather than trusting the file,
+ * and never offers a salt that is allocated or already in config.json.
+ */
+
+import { join } from "path";
+import { computeCreate3Address, getSaltGuardMode } from "./createx";
+import { isValidAddress, isValidSalt } from "./validation";
+
+export const SALTS_FILE = join(import.meta.dir, "..", "..", "..", "salts.txt");
+
+const ALLOCATED_MARKER = "# allocated:";
+
+export interface SaltEntry {
+  salt: string;
+  address: string;
+  // Set once the salt has been written into config.json
+  allocatedTo?: string;
+  // 1-based line in salts.txt
+  line: number;
+}
+
+export interface SaltCandidate extends SaltEntry {
+  leadingZeroBytes: number;
+}
+
+export interface InventoryAudit {
+  // Unallocated salts for the deployer whose address re-derived correctly
+  candidates: SaltCandidate[];
+  allocated: number;
+  // Unmarked but already used in config.json
+  inConfig: number;
+  // Not a cross-chain salt guarded by the deployer: another deployer's, a
+  // zero-address salt or a chain-specific 0x01 salt
+  otherGuard: number;
+  // Recorded address doesn't match the derivation
+  mismatched: SaltEntry[];
+}
+
+export function parseSaltInventory(text: string): SaltEntry[] {
+  const entries: SaltEntry[] = [];
+  const lines = text.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const [pair, comment] = splitComment(lines[i]);
+    if (!pair) {
+      continue;
+    }
+    const [salt, address] = pair.split("=>").map((part) => part.trim());
+    if (!salt || !address || !isValidSalt(salt) || !isValidAddress(address)) {
+      throw new Error(`salts.txt line ${i + 1}: expected "<salt> => <address>"`);
+    }
+    const allocatedTo = comment?.startsWith(ALLOCATED_MARKER) ? comment.slice(ALLOCATED_MARKER.length).trim() : undefined;
+    entries.push({ salt: salt.toLowerCase(), address: address.toLowerCase(), allocatedTo, line: i + 1 });
+  }
+
+  return entries;
+}
+
+function splitComment(line: string): [string, string | undefined] {
+  const hash = line.indexOf("#");
+  if (hash === -1) {
+    return [line.trim(), undefined];
+  }
+  return [line.slice(0, hash).trim(), line.slice(hash).trim()];
+}
+
+export function countLeadingZeroBytes(address: string): number {
+  let count = 0;
+  while (count < 20 && address.slice(2 + count * 2, 4 + count * 2) === "00") {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Sorts the inventory into usable candidates and the reasons the rest can't
+ * be used by `deployer`.
+ */
+export function auditSaltInventory(entries: SaltEntry[], deployer: string, configuredSalts: string[]): InventoryAudit {
+  const used = new Set(configuredSalts.map((s) => s.toLowerCase()));
+  const audit: InventoryAudit = { candidates: [], allocated: 0, inConfig: 0, otherGuard: 0, mismatched: [] };
+
+  for (const entry of entries) {
+    if (entry.allocatedTo !== undefined) {
+      audit.allocated++;
+    } else if (!isDeployerGuarded(deployer, entry.salt)) {
+      audit.otherGuard++;
+    } else if (used.has(entry.salt)) {
+      audit.inConfig++;
+    } else if (computeCreate3Address(deployer, entry.salt) !== entry.address) {
+      audit.mismatched.push(entry);
+    } else {
+      audit.candidates.push({ ...entry, leadingZeroBytes: countLeadingZeroBytes(entry.address) });
+    }
+  }
+
+  return audit;
+}
+
+function isDeployerGuarded(deployer: string, salt: string): boolean {
+  try {
+    return getSaltGuardMode(deployer, salt) === "deployer";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The candidate with the most leading zero bytes (earliest line on ties), or
+ * null if none has at least `minLeading`.
+ */
+export function pickSalt(candidates: SaltCandidate[], minLeading = 0): SaltCandidate | null {
+  let best: SaltCandidate | null = null;
+  for (const candidate of candidates) {
+    if (candidate.leadingZeroBytes >= minLeading && (!best || candidate.leadingZeroBytes > best.leadingZeroBytes)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Returns salts.txt with the salt's line marked as allocated to `label`.
+ */
+export function markSaltAllocated(text: string, salt: string, label: string): string {
+  const entry = parseSaltInventory(text).find((e) => e.salt === salt.toLowerCase());
+  if (!entry) {
+    throw new Error(`Salt ${salt} is not in salts.txt`);
+  }
+  if (entry.allocatedTo !== undefined) {
+    throw new Error(`Salt ${salt} is already allocated to ${entry.allocatedTo}`);
+  }
+
+  const lines = text.split("\n");
+  lines[entry.line - 1] = `${lines[entry.line - 1].trimEnd()} ${ALLOCATED_MARKER} ${label}`;
+  return lines.join("\n");
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { listSourcePaths, parseStandardJsonInput, writeSourceTree, type StandardJsonInput } from "./sources";
+
+const PACKAGE_DIR = join(import.meta.dir, "../../../deployments/SpritzPayCore/v1");
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function input(sources: StandardJsonInput["sources"]): StandardJsonInput {
+  return { language: "Solidity", sources, settings: {} };
+}
+
+describe("writeSourceTree", () => {
+  test("writes exactly the compiler's sources, libraries included", () => {
+    const dir = mkdtempSync(join(tmpdir(), "sources-test-"));
+    dirs.push(dir);
+    const standardJson = parseStandardJsonInput(readFileSync(join(PACKAGE_DIR, "verify", "standard-json-input.json"), "utf8"));
+
+    expect(writeSourceTree(standardJson, dir)).toEqual([
+      "lib/solady/src/auth/Ownable.sol",
+      "lib/solady/src/utils/EnumerableSetLib.sol",
+      "lib/solady/src/utils/SafeTransferLib.sol",
+      "src/SpritzPayCore.sol",
+    ]);
+    expect(readdirSync(join(dir, "src"))).toEqual(["SpritzPayCore.sol"]);
+    expect(readFileSync(join(dir, "src", "SpritzPayCore.sol"), "utf8")).toBe(standardJson.sources["src/SpritzPayCore.sol"].content!);
+  });
+
+  test("matches the committed SpritzPayCore package", () => {
+    const standardJson = parseStandardJsonInput(readFileSync(join(PACKAGE_DIR, "verify", "standard-json-input.json"), "utf8"));
+    for (const path of listSourcePaths(standardJson)) {
+      expect(readFileSync(join(PACKAGE_DIR, path), "utf8")).toBe(standardJson.sources[path].content!);
+    }
+    expect(existsSync(join(PACKAGE_DIR, "src", "interfaces"))).toBe(false);
+  });
+
+  test("rejects paths outside the package and sources without content", () => {
+    expect(() => listSourcePaths(input({ "../secrets.sol": { content: "" } }))).toThrow("outside the project");
+    expect(() => listSourcePaths(input({ "/etc/passwd": { content: "" } }))).toThrow("outside the project");
+    expect(() => listSourcePaths(input({ "src/A.sol": { urls: ["bzz-raw://..."] } }))).toThrow("has no content");
+    expect(() => parseStandardJsonInput('{"sources":{}}')).toThrow("no sources");
+  });
+});
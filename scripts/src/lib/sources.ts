@@ -0,0 +1,59 @@
+/**
+ * Frozen sources - writes the exact source set the compiler used
+ *
+ * The standard-json-input forge generates for verification lists every file
+ * solc read, keyed by the path it was compiled under (src/..., lib/solady/...).
+ * Writing those files at those paths gives a package that holds the full
+ * transitive closure of the contract's imports, remapped libraries included,
+ * and nothing else.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, isAbsolute, join, normalize } from "path";
+
+export interface StandardJsonInput {
+  language: string;
+  sources: Record<string, { content?: string; urls?: string[] }>;
+  settings: Record<string, unknown>;
+}
+
+/**
+ * Parses forge's --show-standard-json-input output.
+ */
+export function parseStandardJsonInput(text: string): StandardJsonInput {
+  const input = JSON.parse(text) as StandardJsonInput;
+  if (!input.sources || Object.keys(input.sources).length === 0) {
+    throw new Error("Standard JSON input has no sources");
+  }
+  return input;
+}
+
+/**
+ * Source paths, checked to stay inside the package and to carry content.
+ */
+export function listSourcePaths(input: StandardJsonInput): string[] {
+  return Object.entries(input.sources)
+    .map(([path, source]) => {
+      if (isAbsolute(path) || normalize(path).startsWith("..")) {
+        throw new Error(`Source path ${path} is outside the project`);
+      }
+      if (source.content === undefined) {
+        throw new Error(`Source ${path} has no content (only urls)`);
+      }
+      return path;
+    })
+    .sort();
+}
+
+/**
+ * Writes every source at its compiled path under dir. Returns the paths.
+ */
+export function writeSourceTree(input: StandardJsonInput, dir: string): string[] {
+  const paths = listSourcePaths(input);
+  for (const path of paths) {
+    const dest = join(dir, path);
+    mkdirSync(dirname(dest), { recursive: true });
+    writeFileSync(dest, input.sources[path].content!);
+  }
+  return paths;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { diffState } from "./state";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const USDT = "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2";
+const DAI = "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb";
+const TREASURY = "0x48C53571800Fe3Cf8fF5923be67AB002BDCC085F";
+const OPS = "0x000000000000000000000000000000000000dEaD";
+const MODULE = "0x2EF3454a60A8d0f9c9ca5AB8E711d4457a40924B";
+const ZERO = "0x0000000000000000000000000000000000000000";
+
+describe("diffState", () => {
+  test("is empty when live state matches, ignoring address case", () => {
+    const changes = diffState(
+      { paymentTokens: [{ token: USDC, recipient: TREASURY }], swapModule: MODULE },
+      { paymentTokens: [{ token: USDC.toLowerCase(), recipient: TREASURY.toLowerCase() }], swapModule: MODULE.toLowerCase() },
+    );
+    expect(changes).toEqual([]);
+  });
+
+  test("orders removals before additions and the swap module last", () => {
+    const changes = diffState(
+      {
+        paymentTokens: [
+          { token: USDC, recipient: OPS, symbol: "USDC" },
+          { token: USDT, recipient: TREASURY },
+        ],
+        swapModule: MODULE,
+      },
+      {
+        paymentTokens: [
+          { token: USDC, recipient: TREASURY },
+          { token: DAI, recipient: TREASURY },
+        ],
+        swapModule: ZERO,
+      },
+    );
+
+    expect(changes).toEqual([
+      { kind: "removePaymentToken", token: DAI },
+      { kind: "updateRecipient", token: USDC, from: TREASURY, to: OPS, symbol: "USDC" },
+      { kind: "addPaymentToken", token: USDT, recipient: TREASURY, symbol: undefined },
+      { kind: "setSwapModule", from: ZERO, to: MODULE },
+    ]);
+  });
+
+  test("leaves the swap module alone when it is not managed", () => {
+    const changes = diffState({ paymentTokens: [] }, { paymentTokens: [], swapModule: MODULE });
+    expect(changes).toEqual([]);
+  });
+});
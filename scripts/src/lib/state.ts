@@ -0,0 +1,122 @@
+/**
+ * Desired state - what Core and Router should look like on each chain
+ *
+ * state/<environment>/<chain>.json lists the accepted payment tokens with their
+ * recipients and the Router's swap module. `bun safe plan` diffs it against
+ * live state and `bun safe apply` proposes the diff as one Safe transaction.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { z } from "zod";
+import { AddressSchema } from "./validation";
+
+export const STATE_DIR = join(process.cwd(), "state");
+
+const PaymentTokenStateSchema = z.object({
+  token: AddressSchema,
+  recipient: AddressSchema,
+  // Label for humans reading the file; not checked on-chain
+  symbol: z.string().optional(),
+});
+
+export const DesiredStateSchema = z.object({
+  paymentTokens: z.array(PaymentTokenStateSchema),
+  // Contract name from config.json (e.g. "OpenOceanModule") or an address.
+  // Omit to leave the swap module unmanaged.
+  swapModule: z.string().optional(),
+});
+
+export type PaymentTokenState = z.infer<typeof PaymentTokenStateSchema>;
+export type DesiredState = z.infer<typeof DesiredStateSchema>;
+
+export interface LiveState {
+  paymentTokens: { token: string; recipient: string }[];
+  swapModule: string;
+}
+
+export type StateChange =
+  | { kind: "addPaymentToken"; token: string; recipient: string; symbol?: string }
+  | { kind: "updateRecipient"; token: string; from: string; to: string; symbol?: string }
+  | { kind: "removePaymentToken"; token: string }
+  | { kind: "setSwapModule"; from: string; to: string };
+
+export function getStatePath(environment: string, chainName: string): string {
+  return join(STATE_DIR, environment, `${chainName}.json`);
+}
+
+/**
+ * Chains with a desired-state file for the environment.
+ */
+export function listStateChains(environment: string): string[] {
+  const dir = join(STATE_DIR, environment);
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length))
+    .sort();
+}
+
+/**
+ * Reads and validates a desired-state file. Returns null if there is none.
+ */
+export function loadDesiredState(environment: string, chainName: string): DesiredState | null {
+  const path = getStatePath(environment, chainName);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  const result = DesiredStateSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!result.success) {
+    throw new Error(`Invalid state/${environment}/${chainName}.json: ${result.error.message}`);
+  }
+
+  const seen = new Set<string>();
+  for (const { token } of result.data.paymentTokens) {
+    if (seen.has(token.toLowerCase())) {
+      throw new Error(`state/${environment}/${chainName}.json lists ${token} more than once`);
+    }
+    seen.add(token.toLowerCase());
+  }
+
+  return result.data;
+}
+
+/**
+ * Changes needed to take live state to the desired state, in the order they
+ * should execute: removals first, then additions/updates, then the swap module.
+ * swapModule in desired must already be resolved to an address.
+ */
+export function diffState(desired: DesiredState, live: LiveState): StateChange[] {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const changes: StateChange[] = [];
+
+  for (const current of live.paymentTokens) {
+    if (!desired.paymentTokens.some((t) => same(t.token, current.token))) {
+      changes.push({ kind: "removePaymentToken", token: current.token });
+    }
+  }
+
+  for (const wanted of desired.paymentTokens) {
+    const current = live.paymentTokens.find((t) => same(t.token, wanted.token));
+    if (!current) {
+      changes.push({ kind: "addPaymentToken", token: wanted.token, recipient: wanted.recipient, symbol: wanted.symbol });
+    } else if (!same(current.recipient, wanted.recipient)) {
+      changes.push({
+        kind: "updateRecipient",
+        token: wanted.token,
+        from: current.recipient,
+        to: wanted.recipient,
+        symbol: wanted.symbol,
+      });
+    }
+  }
+
+  if (desired.swapModule !== undefined && !same(desired.swapModule, live.swapModule)) {
+    changes.push({ kind: "setSwapModule", from: live.swapModule, to: desired.swapModule });
+  }
+
+  return changes;
+}
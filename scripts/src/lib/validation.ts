@@ -12,14 +12,19 @@ export const SaltSchema = z
   .string()
   .regex(/^0x[a-fA-F0-9]{64}$/, "Invalid salt (must be 0x + 64 hex chars)");
 
-export const OpRefSchema = z
+// Frozen package version, deployments/<Contract>/<version>/
+export const VersionSchema = z
   .string()
-  .startsWith("op://", "1Password reference must start with op://")
-  .min(10, "1Password reference too short");
+  .regex(/^v[1-9]\d*$/, "Version must look like v1, v2, ...");
+
+// Private key reference; the scheme selects the source (see lib/keys)
+export const KeyRefSchema = z
+  .string()
+  .regex(/^(op|keystore|env):\/\/\S+$/, "Key reference must be op://..., keystore://<name> or env://<VAR>");
 
 export type Address = z.infer<typeof AddressSchema>;
 export type Salt = z.infer<typeof SaltSchema>;
-export type OpRef = z.infer<typeof OpRefSchema>;
+export type KeyRef = z.infer<typeof KeyRefSchema>;
 
 export function isValidAddress(addr: string): addr is Address {
   return AddressSchema.safeParse(addr).success;
@@ -29,8 +34,8 @@ export function isValidSalt(salt: string): salt is Salt {
   return SaltSchema.safeParse(salt).success;
 }
 
-export function isValid1PasswordRef(ref: string): ref is OpRef {
-  return OpRefSchema.safeParse(ref).success;
+export function isValidKeyRef(ref: string): ref is KeyRef {
+  return KeyRefSchema.safeParse(ref).success;
 }
 
 export function getDeployerFromSalt(salt: string): string {
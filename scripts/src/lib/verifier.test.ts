@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { verifyWith, type VerificationSubmission } from "./verifier";
+
+const SUBMISSION: VerificationSubmission = {
+  chainId: 8453,
+  address: "0x0A2d7D9BFE42D5146Af53dce8ef4956F148C2a5F",
+  contractIdentifier: "src/SpritzRouter.sol:SpritzRouter",
+  compilerVersion: "0.8.30+commit.73712a01",
+  standardJsonInput: { language: "Solidity", sources: {}, settings: {} },
+  constructorArgs: "0x000000000000000000000000000000000012f55170d4a2ab5ace512eeb925dca",
+};
+
+const POLL = { intervalMs: 1, timeoutMs: 2_000 };
+
+// Behaviour of the stub, set per test
+let mode: "pass" | "fail" | "already" = "pass";
+// Status polls before a job completes
+let pendingPolls = 0;
+let polls = 0;
+const received: { path: string; params: Record<string, string>; json?: Record<string, unknown> }[] = [];
+
+let server: Server<undefined>;
+let baseUrl: string;
+
+function etherscan(params: Record<string, string>): Response {
+  if (params.action === "verifysourcecode") {
+    return mode === "already"
+      ? Response.json({ status: "0", message: "NOTOK", result: "Contract source code already verified" })
+      : Response.json({ status: "1", message: "OK", result: "guid-123" });
+  }
+  if (polls++ < pendingPolls) {
+    return Response.json({ status: "0", message: "NOTOK", result: "Pending in queue" });
+  }
+  return mode === "pass"
+    ? Response.json({ status: "1", message: "OK", result: "Pass - Verified" })
+    : Response.json({ status: "0", message: "NOTOK", result: "Fail - Unable to verify" });
+}
+
+function sourcify(path: string): Response {
+  if (path.startsWith("/v2/verify/8453/")) {
+    return mode === "already"
+      ? Response.json({ customCode: "already_verified", message: "Already verified" }, { status: 409 })
+      : Response.json({ verificationId: "job-1" }, { status: 202 });
+  }
+  if (polls++ < pendingPolls) {
+    return Response.json({ isJobCompleted: false });
+  }
+  return mode === "pass"
+    ? Response.json({ isJobCompleted: true, contract: { match: "exact_match" } })
+    : Response.json({ isJobCompleted: true, error: { customCode: "no_match", message: "Bytecode doesn't match" } });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const params = Object.fromEntries(url.searchParams);
+      if (url.pathname.startsWith("/v2/verify")) {
+        const json = request.method === "POST" ? await request.json() : undefined;
+        received.push({ path: url.pathname, params, json });
+        return sourcify(url.pathname);
+      }
+      if (request.method === "POST") {
+        Object.assign(params, Object.fromEntries(new URLSearchParams(await request.text())));
+      }
+      received.push({ path: url.pathname, params });
+      return etherscan(params);
+    },
+  });
+  baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  mode = "pass";
+  pendingPolls = 0;
+  polls = 0;
+  received.length = 0;
+});
+
+describe("etherscan", () => {
+  const endpoint = () => ({ name: "etherscan" as const, url: `${baseUrl}/v2/api`, apiKey: "KEY" });
+
+  test("submits the standard JSON input and polls the GUID", async () => {
+    pendingPolls = 2;
+    const result = await verifyWith(endpoint(), SUBMISSION, POLL);
+
+    expect(result).toEqual({ verifier: "etherscan", status: "verified" });
+    const [submit, ...statusChecks] = received;
+    expect(submit.params).toMatchObject({
+      chainid: "8453",
+      apikey: "KEY",
+      codeformat: "solidity-standard-json-input",
+      contractname: "src/SpritzRouter.sol:SpritzRouter",
+      compilerversion: "v0.8.30+commit.73712a01",
+      constructorArguements: SUBMISSION.constructorArgs.slice(2),
+    });
+    expect(JSON.parse(submit.params.sourceCode)).toEqual(SUBMISSION.standardJsonInput);
+    expect(statusChecks).toHaveLength(3);
+    expect(statusChecks[0].params).toMatchObject({ action: "checkverifystatus", guid: "guid-123", chainid: "8453" });
+  });
+
+  test("reports failures with the API message", async () => {
+    mode = "fail";
+    const result = await verifyWith(endpoint(), SUBMISSION, POLL);
+    expect(result).toEqual({ verifier: "etherscan", status: "failed", message: "Fail - Unable to verify" });
+  });
+
+  test("recognises already verified contracts", async () => {
+    mode = "already";
+    expect((await verifyWith(endpoint(), SUBMISSION, POLL)).status).toBe("already-verified");
+  });
+
+  test("times out while the job stays pending", async () => {
+    pendingPolls = Infinity;
+    const result = await verifyWith(endpoint(), SUBMISSION, { intervalMs: 5, timeoutMs: 30 });
+    expect(result.status).toBe("failed");
+    expect(result.message).toContain("guid-123");
+  });
+});
+
+describe("blockscout", () => {
+  test("uses the Etherscan-compatible API without chainid", async () => {
+    const result = await verifyWith({ name: "blockscout", url: `${baseUrl}/api` }, SUBMISSION, POLL);
+
+    expect(result).toEqual({ verifier: "blockscout", status: "verified" });
+    expect(received[0].path).toBe("/api");
+    expect(received[0].params.chainid).toBeUndefined();
+    expect(received[0].params.apikey).toBeUndefined();
+  });
+});
+
+describe("sourcify", () => {
+  const endpoint = () => ({ name: "sourcify" as const, url: baseUrl });
+
+  test("submits to the v2 API and polls the verification job", async () => {
+    pendingPolls = 1;
+    const result = await verifyWith(endpoint(), SUBMISSION, POLL);
+
+    expect(result).toEqual({ verifier: "sourcify", status: "verified", message: "exact_match" });
+    expect(received[0].path).toBe(`/v2/verify/8453/${SUBMISSION.address}`);
+    expect(received[0].json).toEqual({
+      stdJsonInput: SUBMISSION.standardJsonInput,
+      compilerVersion: "0.8.30+commit.73712a01",
+      contractIdentifier: "src/SpritzRouter.sol:SpritzRouter",
+    });
+    expect(received.slice(1).map((r) => r.path)).toEqual(["/v2/verify/job-1", "/v2/verify/job-1"]);
+  });
+
+  test("recognises already verified contracts", async () => {
+    mode = "already";
+    expect((await verifyWith(endpoint(), SUBMISSION, POLL)).status).toBe("already-verified");
+  });
+
+  test("reports a failed match", async () => {
+    mode = "fail";
+    const result = await verifyWith(endpoint(), SUBMISSION, POLL);
+    expect(result).toEqual({ verifier: "sourcify", status: "failed", message: "Bytecode doesn't match" });
+  });
+});
+
+test("returns network errors as failed results", async () => {
+  const result = await verifyWith({ name: "sourcify", url: "http://127.0.0.1:1" }, SUBMISSION, POLL);
+  expect(result.status).toBe("failed");
+});
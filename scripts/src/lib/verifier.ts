@@ -0,0 +1,206 @@
+/**
+ * Source verification - submits a frozen standard JSON input to block explorers
+ *
+ * Everything submitted comes from deployments/<Contract>/<version>/, never the live
+ * workspace, so a verification always matches what was frozen and deployed.
+ *
+ * Supported verifiers:
+ *   etherscan  - Etherscan's unified v2 API (one key, chain selected by chainid)
+ *   blockscout - Blockscout's Etherscan-compatible API (per-chain URL)
+ *   sourcify   - Sourcify v2 API
+ */
+
+export const VERIFIERS = ["etherscan", "sourcify", "blockscout"] as const;
+
+export type VerifierName = (typeof VERIFIERS)[number];
+
+export const ETHERSCAN_V2_API = "https://api.etherscan.io/v2/api";
+export const SOURCIFY_API = "https://sourcify.dev/server";
+
+export interface VerifierEndpoint {
+  name: VerifierName;
+  url: string;
+  apiKey?: string;
+}
+
+export interface VerificationSubmission {
+  chainId: number;
+  address: string;
+  // Fully qualified name, e.g. src/SpritzRouter.sol:SpritzRouter
+  contractIdentifier: string;
+  // Long solc version, e.g. 0.8.30+commit.73712a01
+  compilerVersion: string;
+  standardJsonInput: unknown;
+  // ABI-encoded constructor args, "0x" if none
+  constructorArgs: string;
+}
+
+export type VerificationStatus = "verified" | "already-verified" | "failed";
+
+export interface VerificationResult {
+  verifier: VerifierName;
+  status: VerificationStatus;
+  message?: string;
+}
+
+export interface PollOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+interface EtherscanResponse {
+  status: string;
+  message: string;
+  result: string;
+}
+
+interface SourcifyJob {
+  isJobCompleted: boolean;
+  contract?: { match: string | null };
+  error?: { customCode: string; message: string };
+}
+
+const ALREADY_VERIFIED = /already verified/i;
+const PENDING = /pending|queue|in progress/i;
+
+async function pollUntil<T>(
+  check: () => Promise<T | null>,
+  options: PollOptions,
+): Promise<T | null> {
+  const intervalMs = options.intervalMs ?? 5_000;
+  const deadline = Date.now() + (options.timeoutMs ?? 180_000);
+
+  while (Date.now() < deadline) {
+    await Bun.sleep(intervalMs);
+    const result = await check();
+    if (result !== null) {
+      return result;
+    }
+  }
+  return null;
+}
+
+/**
+ * Etherscan v2 and Blockscout share the same verifysourcecode/checkverifystatus
+ * flow. Only Etherscan needs the chainid parameter.
+ */
+async function verifyEtherscanCompatible(
+  endpoint: VerifierEndpoint,
+  submission: VerificationSubmission,
+  options: PollOptions,
+): Promise<VerificationResult> {
+  const verifier = endpoint.name;
+  const base = new URL(endpoint.url);
+  if (verifier === "etherscan") {
+    base.searchParams.set("chainid", String(submission.chainId));
+  }
+
+  const body = new URLSearchParams({
+    module: "contract",
+    action: "verifysourcecode",
+    contractaddress: submission.address,
+    sourceCode: JSON.stringify(submission.standardJsonInput),
+    codeformat: "solidity-standard-json-input",
+    contractname: submission.contractIdentifier,
+    compilerversion: `v${submission.compilerVersion}`,
+    // Misspelling is part of the Etherscan API
+    constructorArguements: submission.constructorArgs.replace(/^0x/, ""),
+  });
+  if (endpoint.apiKey) {
+    body.set("apikey", endpoint.apiKey);
+  }
+
+  const submitted = (await (await fetch(base, { method: "POST", body })).json()) as EtherscanResponse;
+  if (submitted.status !== "1") {
+    return ALREADY_VERIFIED.test(submitted.result)
+      ? { verifier, status: "already-verified" }
+      : { verifier, status: "failed", message: submitted.result || submitted.message };
+  }
+
+  const guid = submitted.result;
+  const statusUrl = new URL(base);
+  statusUrl.searchParams.set("module", "contract");
+  statusUrl.searchParams.set("action", "checkverifystatus");
+  statusUrl.searchParams.set("guid", guid);
+  if (endpoint.apiKey) {
+    statusUrl.searchParams.set("apikey", endpoint.apiKey);
+  }
+
+  const result = await pollUntil<VerificationResult>(async () => {
+    const response = (await (await fetch(statusUrl)).json()) as EtherscanResponse;
+    if (ALREADY_VERIFIED.test(response.result)) {
+      return { verifier, status: "already-verified" };
+    }
+    if (response.status === "1") {
+      return { verifier, status: "verified" };
+    }
+    if (PENDING.test(response.result)) {
+      return null;
+    }
+    return { verifier, status: "failed", message: response.result };
+  }, options);
+
+  return result ?? { verifier, status: "failed", message: `Timed out waiting for GUID ${guid}` };
+}
+
+async function verifySourcify(
+  endpoint: VerifierEndpoint,
+  submission: VerificationSubmission,
+  options: PollOptions,
+): Promise<VerificationResult> {
+  const verifier = endpoint.name;
+  const base = endpoint.url.replace(/\/$/, "");
+
+  const response = await fetch(`${base}/v2/verify/${submission.chainId}/${submission.address}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      stdJsonInput: submission.standardJsonInput,
+      compilerVersion: submission.compilerVersion,
+      contractIdentifier: submission.contractIdentifier,
+    }),
+  });
+
+  if (response.status === 409) {
+    return { verifier, status: "already-verified" };
+  }
+  const submitted = (await response.json()) as { verificationId?: string; message?: string };
+  if (!response.ok || !submitted.verificationId) {
+    return { verifier, status: "failed", message: submitted.message ?? `HTTP ${response.status}` };
+  }
+
+  const verificationId = submitted.verificationId;
+  const result = await pollUntil<VerificationResult>(async () => {
+    const job = (await (await fetch(`${base}/v2/verify/${verificationId}`)).json()) as SourcifyJob;
+    if (!job.isJobCompleted) {
+      return null;
+    }
+    if (job.contract?.match) {
+      return { verifier, status: "verified", message: job.contract.match };
+    }
+    if (job.error?.customCode === "already_verified") {
+      return { verifier, status: "already-verified" };
+    }
+    return { verifier, status: "failed", message: job.error?.message ?? "No match" };
+  }, options);
+
+  return result ?? { verifier, status: "failed", message: `Timed out waiting for job ${verificationId}` };
+}
+
+/**
+ * Submits a contract to one verifier and waits for the outcome.
+ * Network and API errors are returned as a failed result, never thrown.
+ */
+export async function verifyWith(
+  endpoint: VerifierEndpoint,
+  submission: VerificationSubmission,
+  options: PollOptions = {},
+): Promise<VerificationResult> {
+  try {
+    return endpoint.name === "sourcify"
+      ? await verifySourcify(endpoint, submission, options)
+      : await verifyEtherscanCompatible(endpoint, submission, options);
+  } catch (e) {
+    return { verifier: endpoint.name, status: "failed", message: (e as Error).message };
+  }
+}
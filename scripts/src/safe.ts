@@ -8,6 +8,8 @@
  *   bun safe list <chain>                    List pending transactions
  *   bun safe sign <chain> <safeTxHash>       Sign a pending transaction
  *   bun safe execute <chain> <safeTxHash>    Execute a fully-signed transaction
+ *   bun safe plan [chain]                    Diff desired state against live state
+ *   bun safe apply [chain]                   Propose the diff as one Safe transaction per chain
  *
  * Actions:
  *   bun safe setSwapModule <chain> <moduleAddress>         Set the swap module on Router
@@ -16,32 +18,45 @@
  *   bun safe sweep <chain> <contract> <token> <to>         Sweep tokens from a contract
  *
  * Options:
- *   --env, -e <environment>   Target environment: production (default) or sandbox
+ *   --env, -e <environment>   Target environment from config.json (default: production)
  *
  * Examples:
  *   bun safe status --env sandbox
  *   bun safe addPaymentToken base 0xUSDC... 0xRecipient... --env sandbox
  */
 
-import { execSync } from "child_process";
 import { ethers } from "ethers";
-import { existsSync, readFileSync } from "fs";
-import { join } from "path";
 import prompts from "prompts";
 import { loadContractSaltOverrides, loadEnv, loadSigners, type SignerEnv } from "./lib/env";
 import {
   applyEnvOverrides,
   filterEnvArg,
   loadConfig,
+  loadEnvironmentNames,
   parseEnvironmentArg,
   type Config,
   type Environment,
 } from "./lib/config";
+import { ERC20Factory, SpritzPayCoreFactory } from "./generated";
+import { checkAdminSafe } from "./lib/admin";
+import { loadPrivateKey } from "./lib/keys";
 import { buildChains, type Chain } from "./lib/chains";
 import { getContractAddress } from "./lib/createx";
 import { log, success, error, info, warn, colors } from "./lib/console";
-
-const DEPLOYMENTS_DIR = join(process.cwd(), "deployments");
+import {
+  findRecordedVersion,
+  getDeployedChains,
+  readAllMetadata,
+  type DeploymentRecord,
+} from "./lib/metadata";
+import {
+  diffState,
+  listStateChains,
+  loadDesiredState,
+  type DesiredState,
+  type LiveState,
+  type StateChange,
+} from "./lib/state";
 
 const env = loadEnv();
 const saltOverrides = loadContractSaltOverrides();
@@ -74,6 +89,8 @@ function getChains(config: Config): Record<string, Chain> {
   return buildChains(config, env.RPC_KEY ?? "");
 }
 
+// SpritzRouter isn't frozen yet, so it has no generated bindings. Replace with
+// SpritzRouterFactory from ./generated once `bun freeze SpritzRouter` has run.
 const ROUTER_ABI = [
   "function setSwapModule(address newSwapModule) external",
   "function sweep(address token, address to) external",
@@ -81,29 +98,8 @@ const ROUTER_ABI = [
   "function swapModule() view returns (address)",
 ];
 
-const CORE_ABI = [
-  "function addPaymentToken(address token, address recipient) external",
-  "function removePaymentToken(address token) external",
-  "function sweep(address token, address to) external",
-  "function owner() view returns (address)",
-  "function isAcceptedToken(address token) view returns (bool)",
-  "function paymentRecipient(address token) view returns (address)",
-  "function acceptedPaymentTokens() view returns (address[])",
-];
-
-const ERC20_ABI = [
-  "function symbol() view returns (string)",
-];
-
-function getPrivateKey(keyRef: string): string | null {
-  try {
-    return execSync(`op read "${keyRef}"`, {
-      encoding: "utf8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
-  } catch {
-    return null;
-  }
+function getSignerAddresses(): string[] {
+  return SIGNERS.flatMap((s) => (s.address ? [s.address] : []));
 }
 
 function getSignerByName(name: string): SignerEnv | undefined {
@@ -155,67 +151,38 @@ async function confirmAction(message: string): Promise<boolean> {
   return response.confirmed ?? false;
 }
 
-interface DeploymentRecord {
-  id: string;
-  deployer: string;
-  address: string;
-  salt: string;
-  environment?: Environment;
-  chains: string[];
-  constructorArgs?: string[];
-}
-
-interface Metadata {
-  contract: string;
-  deployments: DeploymentRecord[];
-}
-
 interface ContractAddresses {
   core: { address: string; recorded: boolean };
   router: { address: string; recorded: boolean };
 }
 
+function findRecordedDeployment(
+  contractName: string,
+  chainName: string,
+  environment: Environment
+): DeploymentRecord | undefined {
+  return findRecordedVersion(contractName, chainName, environment)?.record;
+}
+
 function getDeploymentAddresses(
   config: Config,
   chainName: string,
   environment: Environment
 ): ContractAddresses | null {
-  const coreMetadataPath = join(DEPLOYMENTS_DIR, "SpritzPayCore", "metadata.json");
-  const routerMetadataPath = join(DEPLOYMENTS_DIR, "SpritzRouter", "metadata.json");
-
-  let coreAddress: string | null = null;
-  let coreRecorded = false;
-  let routerAddress: string | null = null;
-  let routerRecorded = false;
-
-  if (existsSync(coreMetadataPath)) {
-    const coreMetadata: Metadata = JSON.parse(readFileSync(coreMetadataPath, "utf8"));
-    const coreDep = coreMetadata.deployments?.find(
-      (d) => d.chains.includes(chainName) && (d.environment ?? "production") === environment
-    );
-    if (coreDep) {
-      coreAddress = coreDep.address;
-      coreRecorded = true;
-    }
-  }
+  const coreDep = findRecordedDeployment("SpritzPayCore", chainName, environment);
+  const routerDep = findRecordedDeployment("SpritzRouter", chainName, environment);
 
-  if (existsSync(routerMetadataPath)) {
-    const routerMetadata: Metadata = JSON.parse(readFileSync(routerMetadataPath, "utf8"));
-    const routerDep = routerMetadata.deployments?.find(
-      (d) => d.chains.includes(chainName) && (d.environment ?? "production") === environment
-    );
-    if (routerDep) {
-      routerAddress = routerDep.address;
-      routerRecorded = true;
-    }
-  }
+  let coreAddress = coreDep?.address ?? null;
+  const coreRecorded = coreDep !== undefined;
+  let routerAddress = routerDep?.address ?? null;
+  const routerRecorded = routerDep !== undefined;
 
   if (!coreAddress) {
-    coreAddress = getContractAddress(config, "SpritzPayCore");
+    coreAddress = getContractAddress(config, "SpritzPayCore", chainName);
   }
 
   if (!routerAddress) {
-    routerAddress = getContractAddress(config, "SpritzRouter");
+    routerAddress = getContractAddress(config, "SpritzRouter", chainName);
   }
 
   if (!coreAddress || !routerAddress) {
@@ -302,9 +269,15 @@ async function initSafe(options: InitSafeOptions): Promise<SafeContext> {
 
   info(`Using signer: ${signerConfig.name}`);
 
-  const privateKey = getPrivateKey(signerConfig.keyRef);
-  if (!privateKey) {
-    error(`Failed to get key from 1Password: ${signerConfig.keyRef}`);
+  let privateKey: string;
+  try {
+    const key = await loadPrivateKey(signerConfig.keyRef, { testnet: chain.testnet });
+    if (signerConfig.address && key.address.toLowerCase() !== signerConfig.address.toLowerCase()) {
+      throw new Error(`${signerConfig.keyRef} is ${key.address}, expected ${signerConfig.address}`);
+    }
+    privateKey = key.privateKey;
+  } catch (e) {
+    error(`Failed to load key for ${signerConfig.name}: ${(e as Error).message}`);
     process.exit(1);
   }
 
@@ -398,8 +371,12 @@ async function proposeTransaction(
   info(`Proposing transaction to Safe on ${chainName}...`);
   log(`  Safe: ${safeAddress}`);
   log(`  Signer: ${signer.address}`);
-  log(`  Target: ${transactions[0]?.to}`);
-  log(`  Data: ${transactions[0]?.data?.slice(0, 20)}...`);
+  if (transactions.length > 1) {
+    log(`  Calls: ${transactions.length} (batched via MultiSend)`);
+  } else {
+    log(`  Target: ${transactions[0]?.to}`);
+    log(`  Data: ${transactions[0]?.data?.slice(0, 20)}...`);
+  }
   log("");
 
   const safeTransaction = await protocolKit.createTransaction({ transactions });
@@ -605,8 +582,7 @@ async function addPaymentToken(
     process.exit(1);
   }
 
-  const iface = new ethers.Interface(CORE_ABI);
-  const data = iface.encodeFunctionData("addPaymentToken", [token, recipient]);
+  const data = SpritzPayCoreFactory.encodeFunctionData("addPaymentToken", [token, recipient]);
 
   const transactions: TransactionData[] = [
     {
@@ -631,8 +607,7 @@ async function removePaymentToken(
     process.exit(1);
   }
 
-  const iface = new ethers.Interface(CORE_ABI);
-  const data = iface.encodeFunctionData("removePaymentToken", [token]);
+  const data = SpritzPayCoreFactory.encodeFunctionData("removePaymentToken", [token]);
 
   const transactions: TransactionData[] = [
     {
@@ -660,10 +635,10 @@ async function sweep(
   }
 
   const targetAddress = contract === "core" ? addresses.core.address : addresses.router.address;
-  const abi = contract === "core" ? CORE_ABI : ROUTER_ABI;
-
-  const iface = new ethers.Interface(abi);
-  const data = iface.encodeFunctionData("sweep", [token, to]);
+  const data =
+    contract === "core"
+      ? SpritzPayCoreFactory.encodeFunctionData("sweep", [token, to])
+      : new ethers.Interface(ROUTER_ABI).encodeFunctionData("sweep", [token, to]);
 
   const transactions: TransactionData[] = [
     {
@@ -687,6 +662,8 @@ interface ChainStatus {
   routerDeployed: boolean;
   routerOwner: string | null;
   swapModule: string | null;
+  adminSafe: string;
+  adminProblems: string[];
   error?: string;
 }
 
@@ -713,11 +690,13 @@ async function getChainStatus(
     routerDeployed: addresses.router.recorded,
     routerOwner: null,
     swapModule: null,
+    adminSafe: chain.admin,
+    adminProblems: await checkAdminSafe(chain, getSignerAddresses()),
   };
 
   try {
     const provider = new ethers.JsonRpcProvider(chain.rpc);
-    const core = new ethers.Contract(addresses.core.address, CORE_ABI, provider);
+    const core = SpritzPayCoreFactory.connect(addresses.core.address, provider);
     const router = new ethers.Contract(addresses.router.address, ROUTER_ABI, provider);
 
     const [coreOwner, tokens, routerOwner, swapModule] = await Promise.all([
@@ -734,7 +713,7 @@ async function getChainStatus(
     for (const token of tokens) {
       const [recipient, symbol] = await Promise.all([
         core.paymentRecipient(token).catch(() => "???"),
-        new ethers.Contract(token, ERC20_ABI, provider).symbol().catch(() => "???"),
+        ERC20Factory.connect(token, provider).symbol().catch(() => "???"),
       ]);
       status.paymentTokens.push({ address: token, symbol, recipient });
     }
@@ -745,29 +724,16 @@ async function getChainStatus(
   return status;
 }
 
-function getDeployedChains(environment: Environment): string[] {
+function getDeployedChainNames(environment: Environment): string[] {
   const chainSet = new Set<string>();
 
-  const coreMetadataPath = join(DEPLOYMENTS_DIR, "SpritzPayCore", "metadata.json");
-  const routerMetadataPath = join(DEPLOYMENTS_DIR, "SpritzRouter", "metadata.json");
-
-  if (existsSync(coreMetadataPath)) {
-    const metadata: Metadata = JSON.parse(readFileSync(coreMetadataPath, "utf8"));
-    for (const dep of metadata.deployments || []) {
-      if ((dep.environment ?? "production") === environment) {
-        for (const chain of dep.chains) {
-          chainSet.add(chain);
-        }
-      }
-    }
-  }
-
-  if (existsSync(routerMetadataPath)) {
-    const metadata: Metadata = JSON.parse(readFileSync(routerMetadataPath, "utf8"));
-    for (const dep of metadata.deployments || []) {
-      if ((dep.environment ?? "production") === environment) {
-        for (const chain of dep.chains) {
-          chainSet.add(chain);
+  for (const contractName of ["SpritzPayCore", "SpritzRouter"]) {
+    for (const { metadata } of readAllMetadata(contractName)) {
+      for (const dep of metadata.deployments) {
+        if (dep.environment === environment) {
+          for (const chain of getDeployedChains(dep)) {
+            chainSet.add(chain);
+          }
         }
       }
     }
@@ -779,7 +745,7 @@ function getDeployedChains(environment: Environment): string[] {
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
 async function showAllStatus(config: Config, environment: Environment): Promise<void> {
-  const deployedChains = getDeployedChains(environment);
+  const deployedChains = getDeployedChainNames(environment);
   const chains = getChains(config);
 
   if (deployedChains.length === 0) {
@@ -840,6 +806,14 @@ async function showAllStatus(config: Config, environment: Environment): Promise<
     } else {
       log(`           Swap Module: ${colors.dim}${status.swapModule}${colors.reset}`);
     }
+
+    const adminStatus = status.adminProblems.length === 0
+      ? `${colors.green}✓${colors.reset}`
+      : `${colors.red}✗${colors.reset}`;
+    log(`  ${adminStatus} Admin  ${colors.dim}${status.adminSafe}${colors.reset}`);
+    for (const problem of status.adminProblems) {
+      log(`           ${colors.red}⚠ ${problem}${colors.reset}`);
+    }
   }
 
   log("");
@@ -874,13 +848,24 @@ async function showStatus(
   log("─".repeat(70));
   log("");
 
+  log(`${colors.bold}Admin Safe${colors.reset} (${chain.admin})`);
+  log(`  Expected threshold: ${chain.threshold}`);
+  const adminProblems = await checkAdminSafe(chain, getSignerAddresses());
+  if (adminProblems.length === 0) {
+    log(`  ${colors.green}Owners and threshold match config${colors.reset}`);
+  }
+  for (const problem of adminProblems) {
+    log(`  ${colors.red}⚠ ${problem}${colors.reset}`);
+  }
+  log("");
+
   const coreStatus = addresses.core.recorded
     ? `${colors.green}deployed${colors.reset}`
     : `${colors.yellow}computed${colors.reset}`;
   log(`${colors.bold}SpritzPayCore${colors.reset} (${addresses.core.address}) [${coreStatus}]`);
 
   if (addresses.core.recorded) {
-    const core = new ethers.Contract(addresses.core.address, CORE_ABI, provider);
+    const core = SpritzPayCoreFactory.connect(addresses.core.address, provider);
     const coreOwner = await core.owner();
     log(`  Owner: ${coreOwner}`);
 
@@ -890,8 +875,7 @@ async function showStatus(
       const recipient = await core.paymentRecipient(token);
       let symbol = "";
       try {
-        const erc20 = new ethers.Contract(token, ERC20_ABI, provider);
-        symbol = await erc20.symbol();
+        symbol = await ERC20Factory.connect(token, provider).symbol();
       } catch {
         symbol = "???";
       }
@@ -920,6 +904,212 @@ async function showStatus(
   log("");
 }
 
+function resolveSwapModule(
+  config: Config,
+  chainName: string,
+  environment: Environment,
+  value: string
+): string {
+  if (ethers.isAddress(value)) {
+    return ethers.getAddress(value);
+  }
+  if (!config.contracts[value]) {
+    throw new Error(`swapModule "${value}" is neither an address nor a configured contract`);
+  }
+  const deployment = findRecordedDeployment(value, chainName, environment);
+  if (!deployment) {
+    throw new Error(`swapModule ${value} has no ${environment} deployment recorded on ${chainName}`);
+  }
+  return deployment.address;
+}
+
+/**
+ * Reads the parts of Core and Router that desired state manages. Unlike
+ * getChainStatus, RPC failures throw: a plan must never be built from a
+ * partial read.
+ */
+async function getLiveState(chain: Chain, addresses: ContractAddresses): Promise<LiveState> {
+  const provider = new ethers.JsonRpcProvider(chain.rpc);
+  const core = SpritzPayCoreFactory.connect(addresses.core.address, provider);
+  const router = new ethers.Contract(addresses.router.address, ROUTER_ABI, provider);
+
+  const [tokens, swapModule]: [string[], string] = await Promise.all([
+    core.acceptedPaymentTokens(),
+    router.swapModule(),
+  ]);
+  const recipients = await Promise.all(tokens.map((token) => core.paymentRecipient(token)));
+
+  return {
+    paymentTokens: tokens.map((token, i) => ({ token, recipient: recipients[i] })),
+    swapModule,
+  };
+}
+
+interface ChainPlan {
+  chainName: string;
+  coreAddress: string;
+  routerAddress: string;
+  changes: StateChange[];
+}
+
+async function planChain(
+  config: Config,
+  chainName: string,
+  environment: Environment
+): Promise<ChainPlan> {
+  const chain = getChains(config)[chainName];
+  if (!chain) {
+    throw new Error(`Unknown chain: ${chainName}`);
+  }
+
+  const desired = loadDesiredState(environment, chainName);
+  if (!desired) {
+    throw new Error(`No desired state for ${chainName}. Create state/${environment}/${chainName}.json`);
+  }
+
+  const addresses = getDeploymentAddresses(config, chainName, environment);
+  if (!addresses || !addresses.core.recorded || !addresses.router.recorded) {
+    throw new Error(`SpritzPayCore and SpritzRouter must both be deployed on ${chainName} (${environment})`);
+  }
+
+  const live = await getLiveState(chain, addresses);
+  const resolved: DesiredState = {
+    ...desired,
+    swapModule:
+      desired.swapModule !== undefined
+        ? resolveSwapModule(config, chainName, environment, desired.swapModule)
+        : undefined,
+  };
+
+  return {
+    chainName,
+    coreAddress: addresses.core.address,
+    routerAddress: addresses.router.address,
+    changes: diffState(resolved, live),
+  };
+}
+
+function describeChange(change: StateChange): string {
+  const label = (token: string, symbol?: string) => (symbol ? `${symbol} (${token})` : token);
+  switch (change.kind) {
+    case "addPaymentToken":
+      return `${colors.green}+ add token${colors.reset}      ${label(change.token, change.symbol)} → ${change.recipient}`;
+    case "updateRecipient":
+      return `${colors.yellow}~ recipient${colors.reset}      ${label(change.token, change.symbol)}: ${change.from} → ${change.to}`;
+    case "removePaymentToken":
+      return `${colors.red}- remove token${colors.reset}   ${change.token}`;
+    case "setSwapModule":
+      return `${colors.yellow}~ swap module${colors.reset}    ${change.from} → ${change.to}`;
+  }
+}
+
+function planToTransactions(plan: ChainPlan): TransactionData[] {
+  const core = SpritzPayCoreFactory;
+  const router = new ethers.Interface(ROUTER_ABI);
+
+  return plan.changes.map((change) => {
+    switch (change.kind) {
+      case "addPaymentToken":
+        return { to: plan.coreAddress, data: core.encodeFunctionData("addPaymentToken", [change.token, change.recipient]), value: "0" };
+      case "updateRecipient":
+        // addPaymentToken overwrites the recipient of an accepted token
+        return { to: plan.coreAddress, data: core.encodeFunctionData("addPaymentToken", [change.token, change.to]), value: "0" };
+      case "removePaymentToken":
+        return { to: plan.coreAddress, data: core.encodeFunctionData("removePaymentToken", [change.token]), value: "0" };
+      case "setSwapModule":
+        return { to: plan.routerAddress, data: router.encodeFunctionData("setSwapModule", [change.to]), value: "0" };
+    }
+  });
+}
+
+/**
+ * Builds and prints plans for one chain, or every chain with a state file.
+ * Chains that fail to plan are reported and left out of the result.
+ */
+async function showPlan(
+  config: Config,
+  environment: Environment,
+  chainName?: string
+): Promise<ChainPlan[]> {
+  const chainNames = chainName ? [chainName] : listStateChains(environment);
+  if (chainNames.length === 0) {
+    log("");
+    warn(`No desired state found for ${environment}.`);
+    log(`Create state/${environment}/<chain>.json (see README)`);
+    log("");
+    return [];
+  }
+
+  log("");
+  const envLabel = environment !== "production" ? ` (${environment})` : "";
+  log(`${colors.blue}Desired State Plan${envLabel}${colors.reset}`);
+  log("═".repeat(90));
+
+  const plans: ChainPlan[] = [];
+  for (const name of chainNames) {
+    log("");
+    log(`${colors.bold}${name}${colors.reset}`);
+    log("─".repeat(90));
+
+    let plan: ChainPlan;
+    try {
+      plan = await planChain(config, name, environment);
+    } catch (e) {
+      log(`  ${colors.red}Error: ${(e as Error).message}${colors.reset}`);
+      continue;
+    }
+
+    if (plan.changes.length === 0) {
+      log(`  ${colors.dim}Up to date${colors.reset}`);
+    }
+    for (const change of plan.changes) {
+      log(`  ${describeChange(change)}`);
+    }
+    plans.push(plan);
+  }
+
+  const total = plans.reduce((n, p) => n + p.changes.length, 0);
+  const failed = chainNames.length - plans.length;
+  log("");
+  log("─".repeat(90));
+  log(
+    `${total} change(s) across ${plans.filter((p) => p.changes.length > 0).length} chain(s)` +
+      (failed > 0 ? `, ${colors.red}${failed} chain(s) could not be planned${colors.reset}` : "")
+  );
+  log("");
+
+  return plans;
+}
+
+async function applyPlan(
+  config: Config,
+  environment: Environment,
+  chainName?: string
+): Promise<void> {
+  const plans = (await showPlan(config, environment, chainName)).filter((p) => p.changes.length > 0);
+  if (plans.length === 0) {
+    info("Nothing to apply");
+    return;
+  }
+
+  for (const plan of plans) {
+    const confirmed = await confirmAction(
+      `Propose ${plan.changes.length} change(s) on ${plan.chainName} as one Safe transaction?`
+    );
+    if (!confirmed) {
+      warn(`Skipped ${plan.chainName}`);
+      continue;
+    }
+
+    await proposeTransaction(
+      config,
+      plan.chainName,
+      planToTransactions(plan),
+      `Apply state/${environment}/${plan.chainName}.json (${plan.changes.length} change(s))`
+    );
+  }
+}
+
 function printUsage(): void {
   log("");
   log(`${colors.blue}Safe Admin CLI${colors.reset} - Manage Spritz contracts via Safe multisig`);
@@ -941,6 +1131,14 @@ function printUsage(): void {
   log(`  ${colors.green}bun safe execute <chain> <safeTxHash>${colors.reset}`);
   log(`      Execute a fully-signed transaction`);
   log("");
+  log(`${colors.bold}Desired State:${colors.reset}`);
+  log("");
+  log(`  ${colors.green}bun safe plan [chain]${colors.reset}`);
+  log(`      Diff state/<env>/<chain>.json against live Core and Router state`);
+  log("");
+  log(`  ${colors.green}bun safe apply [chain]${colors.reset}`);
+  log(`      Propose each chain's diff as a single batched Safe transaction`);
+  log("");
   log(`${colors.bold}Propose Actions:${colors.reset}`);
   log("");
   log(`  ${colors.green}bun safe setSwapModule <chain> <moduleAddress>${colors.reset}`);
@@ -957,7 +1155,7 @@ function printUsage(): void {
   log("");
   log(`${colors.bold}Options:${colors.reset}`);
   log(`  ${colors.green}--env, -e <environment>${colors.reset}`);
-  log(`      Target environment: production (default) or sandbox`);
+  log(`      Target environment: ${loadEnvironmentNames().join(", ")} (default: production)`);
   log("");
   log(`${colors.bold}Examples:${colors.reset}`);
   log(`  ${colors.dim}bun safe status${colors.reset}`);
@@ -984,7 +1182,13 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  const environment = parseEnvironmentArg(rawArgs);
+  let environment: Environment;
+  try {
+    environment = parseEnvironmentArg(rawArgs, loadEnvironmentNames());
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
   const args = filterEnvArg(rawArgs);
   const config = getConfig(environment);
 
@@ -1000,6 +1204,14 @@ async function main(): Promise<void> {
         }
         break;
 
+      case "plan":
+        await showPlan(config, environment, args[1]);
+        break;
+
+      case "apply":
+        await applyPlan(config, environment, args[1]);
+        break;
+
       case "list":
         if (!args[1]) {
           error("Missing chain name");
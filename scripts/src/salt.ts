@@ -7,13 +7,49 @@
  *   bun salt <ContractName>          Generate salt for a contract
  *   bun salt                         Generate a single salt
  *   bun salt --show <Contract>       Show current salt from config
+ *   bun salt <Contract> --guard <mode>
+ *                                    Generate a salt with another CreateX guard
+ *   bun salt --mine <Contract> --leading N [--workers K] [--count M]
+ *                                    Mine salts with N leading zero bytes
+ *   bun salt --pick <Contract> [--min-leading N]
+ *                                    Allocate a salt from salts.txt into config.json
+ *
+ * Options:
+ *   --env, -e <environment>          Show or generate salts for an environment from config.json
  */
 
+import { appendFileSync, readFileSync, writeFileSync } from "fs";
+import { availableParallelism } from "os";
 import { loadEnv } from "./lib/env";
-import { loadConfig, loadConfigSafe, getContractConfig, getContractNames } from "./lib/config";
-import { generateSalt, getContractAddress } from "./lib/createx";
+import {
+  DEFAULT_ENVIRONMENT,
+  filterEnvArg,
+  getContractConfig,
+  getContractNames,
+  loadConfig,
+  loadConfigSafe,
+  listConfiguredSalts,
+  loadEnvironmentNames,
+  parseEnvironmentArg,
+  setContractSalt,
+  updateConfigFile,
+  type Environment,
+} from "./lib/config";
+import {
+  checksumAddress,
+  generateSalt,
+  getContractAddress,
+  getContractAddresses,
+  getSaltGuardMode,
+  GUARD_MODES,
+  isChainSpecificAddress,
+  isCrossChainGuard,
+  type GuardMode,
+} from "./lib/createx";
+import { formatSaltLine, type SaltHit } from "./lib/miner";
+import { auditSaltInventory, markSaltAllocated, parseSaltInventory, pickSalt, SALTS_FILE, type InventoryAudit } from "./lib/salts";
 import { isValidAddress } from "./lib/validation";
-import { log, error, info, colors } from "./lib/console";
+import { log, error, info, success, warn, colors } from "./lib/console";
 
 function printUsage(): void {
   log("");
@@ -33,20 +69,48 @@ function printUsage(): void {
   log(`  ${colors.green}bun salt --show${colors.reset}`);
   log(`      Show all configured contracts with salts`);
   log("");
+  log(`  ${colors.green}bun salt --mine <ContractName> --leading <N>${colors.reset}`);
+  log(`      Mine salts whose address starts with N zero bytes, appending hits to salts.txt`);
+  log("");
+  log(`  ${colors.green}bun salt --pick <ContractName>${colors.reset}`);
+  log(`      Allocate the best unused salt from salts.txt and write it into config.json`);
+  log("");
+  log(`${colors.bold}Options:${colors.reset}`);
+  log("");
+  log(`  ${colors.green}--env, -e <environment>${colors.reset}`);
+  log(`      Use an environment's salts: ${loadEnvironmentNames().join(", ")} (default: production)`);
+  log("");
+  log(`  ${colors.green}--guard <mode>${colors.reset}`);
+  log(`      CreateX guard for generated salts: ${GUARD_MODES.join(", ")} (default: deployer)`);
+  log("");
+  log(`  ${colors.green}--workers <K>${colors.reset}`);
+  log(`      Mining threads (default: one per CPU core)`);
+  log("");
+  log(`  ${colors.green}--count <M>${colors.reset}`);
+  log(`      Stop mining after M hits (default: 1)`);
+  log("");
+  log(`  ${colors.green}--min-leading <N>${colors.reset}`);
+  log(`      Only pick salts whose address starts with at least N zero bytes`);
+  log("");
   log(`${colors.bold}Examples:${colors.reset}`);
   log(`  ${colors.dim}bun salt SpritzPayCore${colors.reset}`);
   log(`  ${colors.dim}bun salt ParaswapSwapModule${colors.reset}`);
   log(`  ${colors.dim}bun salt --show SpritzRouter${colors.reset}`);
+  log(`  ${colors.dim}bun salt --show --env sandbox${colors.reset}`);
+  log(`  ${colors.dim}bun salt --mine SpritzPayCore --leading 3 --workers 4${colors.reset}`);
+  log(`  ${colors.dim}bun salt --pick SpritzPayCore --env sandbox --min-leading 5${colors.reset}`);
   log("");
   log(`${colors.bold}Salt Format:${colors.reset}`);
-  log(`  CreateX cross-chain salts are 32 bytes:`);
-  log(`  ${colors.dim}<deployer:20 bytes><0x00:1 byte><entropy:11 bytes>${colors.reset}`);
-  log(`  The 0x00 byte enables cross-chain deterministic addresses.`);
+  log(`  CreateX salts are 32 bytes:`);
+  log(`  ${colors.dim}<deployer or 0x00..00:20 bytes><0x00|0x01:1 byte><entropy:11 bytes>${colors.reset}`);
+  log(`  A deployer prefix means only the deployer can use the salt. 0x00 gives the same`);
+  log(`  address on every chain; 0x01 makes it chain-specific ("crossChain": false).`);
+  log(`  --mine and --pick only handle the default deployer guard.`);
   log("");
 }
 
-function showContractSalt(contractName: string): void {
-  const config = loadConfig();
+function showContractSalt(contractName: string, environment: Environment): void {
+  const config = loadConfig({ environment });
   const contractConfig = getContractConfig(config, contractName);
 
   if (!contractConfig) {
@@ -59,35 +123,46 @@ function showContractSalt(contractName: string): void {
     process.exit(1);
   }
 
-  const address = getContractAddress(config, contractName);
-
   log("");
   log(`${colors.blue}${contractName}${colors.reset}`);
   log("─".repeat(50));
   log("");
   log(`  ${colors.bold}Salt:${colors.reset}`);
   log(`  ${colors.green}${contractConfig.salt}${colors.reset}`);
+  log(`  ${colors.dim}Guard: ${getSaltGuardMode(config.deployer.address, contractConfig.salt)}${colors.reset}`);
   log("");
-  log(`  ${colors.bold}Computed Address:${colors.reset}`);
-  log(`  ${address}`);
+  if (isChainSpecificAddress(config, contractName)) {
+    log(`  ${colors.bold}Computed Addresses:${colors.reset}`);
+    for (const [chainName, address] of Object.entries(getContractAddresses(config, contractName))) {
+      log(`  ${address}  ${colors.dim}${chainName}${colors.reset}`);
+    }
+  } else {
+    log(`  ${colors.bold}Computed Address:${colors.reset}`);
+    log(`  ${getContractAddress(config, contractName)}`);
+  }
   log("");
   log(`  ${colors.bold}Deployer:${colors.reset} ${config.deployer.address}`);
   log("");
 }
 
-function showAllContracts(): void {
-  const config = loadConfig();
+function showAllContracts(environment: Environment): void {
+  const config = loadConfig({ environment });
   const contracts = getContractNames(config);
 
   log("");
-  log(`${colors.blue}Configured Contracts${colors.reset}`);
+  const envLabel = environment !== DEFAULT_ENVIRONMENT ? ` (${environment})` : "";
+  log(`${colors.blue}Configured Contracts${envLabel}${colors.reset}`);
   log("─".repeat(60));
   log("");
 
   for (const name of contracts) {
     const contractConfig = getContractConfig(config, name)!;
-    const address = getContractAddress(config, name);
-    const argsStr = contractConfig.args ? ` ${colors.dim}← ${contractConfig.args.join(", ")}${colors.reset}` : "";
+    const address = isChainSpecificAddress(config, name)
+      ? "chain-specific, see bun salt --show " + name
+      : getContractAddress(config, name);
+    const argsStr = contractConfig.args
+      ? ` ${colors.dim}← ${contractConfig.args.map((a) => (typeof a === "string" ? a : JSON.stringify(a))).join(", ")}${colors.reset}`
+      : "";
 
     log(`  ${colors.bold}${name}${colors.reset}${argsStr}`);
     log(`    ${colors.dim}Salt: ${contractConfig.salt.slice(0, 22)}...${colors.reset}`);
@@ -96,7 +171,7 @@ function showAllContracts(): void {
   }
 }
 
-function generateContractSalt(contractName?: string): void {
+function resolveDeployer(): string {
   const env = loadEnv();
   const config = loadConfigSafe();
 
@@ -114,13 +189,44 @@ function generateContractSalt(contractName?: string): void {
     process.exit(1);
   }
 
-  const salt = generateSalt(deployerAddress);
+  return deployerAddress;
+}
+
+function printConfigSnippet(environment: Environment, contractName: string, salt: string, crossChain = true): void {
+  const target = environment === DEFAULT_ENVIRONMENT ? "contracts" : `environments.${environment}.contracts`;
+  log(`${colors.bold}Add to config.json ${target}:${colors.reset}`);
+  log("");
+  log(`  "${contractName}": {`);
+  log(`    "salt": "${salt}"${crossChain ? "" : ","}`);
+  if (!crossChain) {
+    log(`    "crossChain": false`);
+  }
+  log(`  }`);
+}
+
+function parseGuardArg(args: string[]): GuardMode {
+  const index = args.indexOf("--guard");
+  if (index === -1) {
+    return "deployer";
+  }
+  const mode = args[index + 1];
+  if (!(GUARD_MODES as readonly string[]).includes(mode)) {
+    error(`--guard must be one of: ${GUARD_MODES.join(", ")}`);
+    process.exit(1);
+  }
+  return mode as GuardMode;
+}
+
+function generateContractSalt(environment: Environment, mode: GuardMode, contractName?: string): void {
+  const deployerAddress = resolveDeployer();
+  const salt = generateSalt(deployerAddress, mode);
 
   log("");
   log(`${colors.blue}Salt Generator${colors.reset}`);
   log("─".repeat(50));
   log("");
   log(`  ${colors.bold}Deployer:${colors.reset} ${deployerAddress}`);
+  log(`  ${colors.bold}Guard:${colors.reset}    ${mode}${isCrossChainGuard(mode) ? "" : " (address differs per chain)"}`);
   log("");
 
   if (contractName) {
@@ -131,11 +237,7 @@ function generateContractSalt(contractName?: string): void {
     log("");
     log("─".repeat(50));
     log("");
-    log(`${colors.bold}Add to config.json contracts:${colors.reset}`);
-    log("");
-    log(`  "${contractName}": {`);
-    log(`    "salt": "${salt}"`);
-    log(`  }`);
+    printConfigSnippet(environment, contractName, salt, isCrossChainGuard(mode));
   } else {
     log(`  ${colors.bold}Salt:${colors.reset}`);
     log(`  ${colors.green}${salt}${colors.reset}`);
@@ -144,27 +246,238 @@ function generateContractSalt(contractName?: string): void {
   log("");
 }
 
-function main(): void {
-  const args = process.argv.slice(2);
+function formatRate(attempts: number, seconds: number): string {
+  const rate = seconds > 0 ? attempts / seconds : 0;
+  return rate >= 1000 ? `${(rate / 1000).toFixed(1)}k salts/s` : `${rate.toFixed(0)} salts/s`;
+}
+
+function parseIntFlag(args: string[], flag: string, fallback?: number): number {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    if (fallback === undefined) {
+      error(`Missing ${flag} <N>`);
+      process.exit(1);
+    }
+    return fallback;
+  }
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 1) {
+    error(`${flag} must be a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Mines salts on worker threads until `count` hits. Each hit is appended to
+ * salts.txt as soon as it is found so nothing is lost if mining is stopped.
+ */
+async function mineSalts(environment: Environment, contractName: string | undefined, args: string[]): Promise<void> {
+  if (!contractName) {
+    error("Missing contract name");
+    log(`  Usage: ${colors.green}bun salt --mine <ContractName> --leading <N>${colors.reset}`);
+    process.exit(1);
+  }
+
+  const leading = parseIntFlag(args, "--leading");
+  const workerCount = parseIntFlag(args, "--workers", availableParallelism());
+  const count = parseIntFlag(args, "--count", 1);
+
+  if (leading > 20) {
+    error("--leading can be at most 20 bytes");
+    process.exit(1);
+  }
+
+  const deployerAddress = resolveDeployer();
+
+  log("");
+  log(`${colors.blue}Salt Miner${colors.reset}`);
+  log("─".repeat(50));
+  log("");
+  log(`  ${colors.bold}Contract:${colors.reset} ${contractName}`);
+  log(`  ${colors.bold}Deployer:${colors.reset} ${deployerAddress}`);
+  log(`  ${colors.bold}Target:${colors.reset}   ${leading} leading zero byte(s), ${count} hit(s)`);
+  log(`  ${colors.bold}Workers:${colors.reset}  ${workerCount}`);
+  log(`  ${colors.dim}Expected ~${(256 ** leading).toLocaleString()} salts per hit${colors.reset}`);
+  log("");
+
+  const hits: SaltHit[] = [];
+  const started = Date.now();
+  let attempts = 0;
+  let lastReport = started;
+
+  const mining = new Promise<void>((resolve, reject) => {
+    // Workers never stop on their own (see miner-worker.ts)
+    const stop = () => {
+      for (const w of workers) {
+        w.terminate();
+      }
+    };
+    const fail = (reason: string) => {
+      stop();
+      reject(new Error(`Salt miner worker failed: ${reason}`));
+    };
+
+    const workers = Array.from({ length: workerCount }, () => {
+      const worker = new Worker(new URL("./lib/miner-worker.ts", import.meta.url));
+      worker.onerror = (event: ErrorEvent) => fail(event.message);
+      worker.onmessageerror = () => fail("could not deserialize a message");
+      worker.onmessage = (event: MessageEvent) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          attempts += message.attempts;
+          const now = Date.now();
+          if (now - lastReport >= 5000) {
+            lastReport = now;
+            info(`${attempts.toLocaleString()} salts, ${formatRate(attempts, (now - started) / 1000)}`);
+          }
+          return;
+        }
+        if (hits.length >= count) {
+          return;
+        }
+        const hit: SaltHit = { salt: message.salt, address: message.address };
+        hits.push(hit);
+        appendFileSync(SALTS_FILE, formatSaltLine(hit) + "\n");
+        success(`${checksumAddress(hit.address)} ${colors.dim}${hit.salt}${colors.reset}`);
+        if (hits.length >= count) {
+          stop();
+          resolve();
+        }
+      };
+      worker.postMessage({ deployer: deployerAddress, leading });
+      return worker;
+    });
+  });
+
+  try {
+    await mining;
+  } catch (e) {
+    error((e as Error).message);
+    if (hits.length > 0) {
+      info(`${hits.length} hit(s) found before the failure are in salts.txt`);
+    }
+    process.exit(1);
+  }
+
+  const seconds = (Date.now() - started) / 1000;
+
+  log("");
+  log("─".repeat(50));
+  log("");
+  log(`  ${colors.bold}Mined:${colors.reset} ${hits.length} hit(s) in ${seconds.toFixed(1)}s`);
+  log(`  ${colors.bold}Rate:${colors.reset}  ${formatRate(attempts, seconds)} (${attempts.toLocaleString()} salts)`);
+  log(`  ${colors.dim}Appended to salts.txt${colors.reset}`);
+  log("");
+  printConfigSnippet(environment, contractName, hits[0].salt);
+  log("");
+}
+
+/**
+ * Allocates a salt from salts.txt: re-derives every address for the
+ * configured deployer, picks the unused one with the most leading zero bytes,
+ * writes it into config.json and marks it allocated in salts.txt.
+ */
+function pickContractSalt(environment: Environment, contractName: string | undefined, args: string[]): void {
+  if (!contractName) {
+    error("Missing contract name");
+    log(`  Usage: ${colors.green}bun salt --pick <ContractName> [--min-leading N]${colors.reset}`);
+    process.exit(1);
+  }
 
-  if (args.includes("--help") || args.includes("-h")) {
+  const minLeading = args.includes("--min-leading") ? parseIntFlag(args, "--min-leading") : 0;
+  const config = loadConfig();
+  const deployer = config.deployer.address;
+  const inventory = readFileSync(SALTS_FILE, "utf8");
+
+  let audit: InventoryAudit;
+  try {
+    audit = auditSaltInventory(parseSaltInventory(inventory), deployer, listConfiguredSalts(config));
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+
+  log("");
+  log(`${colors.blue}Salt Inventory${colors.reset}`);
+  log("─".repeat(50));
+  log("");
+  log(`  ${colors.bold}Deployer:${colors.reset}  ${deployer}`);
+  log(`  ${colors.bold}Available:${colors.reset} ${audit.candidates.length}`);
+  log(`  ${colors.dim}Allocated: ${audit.allocated}, in config.json: ${audit.inConfig}, other deployer or guard: ${audit.otherGuard}${colors.reset}`);
+  log("");
+
+  for (const entry of audit.mismatched) {
+    warn(`Line ${entry.line}: ${entry.salt} does not derive ${entry.address}, skipped`);
+  }
+
+  const picked = pickSalt(audit.candidates, minLeading);
+  if (!picked) {
+    error(`No unallocated salt with at least ${minLeading} leading zero byte(s)`);
+    log(`  Mine more with: ${colors.green}bun salt --mine ${contractName} --leading ${Math.max(minLeading, 1)}${colors.reset}`);
+    process.exit(1);
+  }
+
+  try {
+    const marked = markSaltAllocated(inventory, picked.salt, `${contractName} (${environment})`);
+    updateConfigFile((current) => setContractSalt(current, environment, contractName, picked.salt));
+    writeFileSync(SALTS_FILE, marked);
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+
+  const target = environment === DEFAULT_ENVIRONMENT ? "contracts" : `environments.${environment}.contracts`;
+  success(`Allocated salts.txt line ${picked.line} to ${contractName}`);
+  log("");
+  log(`  ${colors.bold}Salt:${colors.reset}    ${colors.green}${picked.salt}${colors.reset}`);
+  log(`  ${colors.bold}Address:${colors.reset} ${checksumAddress(picked.address)} (${picked.leadingZeroBytes} leading zero bytes)`);
+  log(`  ${colors.dim}Written to config.json ${target}.${contractName}${colors.reset}`);
+  log("");
+}
+
+async function main(): Promise<void> {
+  const rawArgs = process.argv.slice(2);
+
+  if (rawArgs.includes("--help") || rawArgs.includes("-h")) {
     printUsage();
     process.exit(0);
   }
 
+  let environment: Environment;
+  try {
+    environment = parseEnvironmentArg(rawArgs, loadEnvironmentNames());
+  } catch (e) {
+    error((e as Error).message);
+    process.exit(1);
+  }
+  const args = filterEnvArg(rawArgs);
+
   if (args[0] === "--show" || args[0] === "-s") {
     const contractName = args[1];
     if (contractName) {
-      showContractSalt(contractName);
+      showContractSalt(contractName, environment);
     } else {
-      showAllContracts();
+      showAllContracts(environment);
     }
     process.exit(0);
   }
 
-  const contractName = args.find((a) => !a.startsWith("-") && !a.startsWith("0x"));
+  if (args[0] === "--pick") {
+    pickContractSalt(environment, args[1]?.startsWith("-") ? undefined : args[1], args);
+    process.exit(0);
+  }
+
+  if (args[0] === "--mine") {
+    await mineSalts(environment, args[1]?.startsWith("-") ? undefined : args[1], args);
+    process.exit(0);
+  }
+
+  const mode = parseGuardArg(args);
+  const guardIndex = args.indexOf("--guard");
+  const contractName = args.find((a, i) => !a.startsWith("-") && !a.startsWith("0x") && (guardIndex === -1 || i !== guardIndex + 1));
 
-  generateContractSalt(contractName);
+  generateContractSalt(environment, mode, contractName);
 }
 
 main();